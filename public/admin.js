@@ -0,0 +1,324 @@
+// Admin console: search clusters, inspect their contacts and links, and run
+// unlink, delete and re-identify against the JSON API. No build step; plain
+// browser JavaScript.
+
+const results = document.getElementById('results');
+const messageBox = document.getElementById('message');
+const loadingIndicator = document.getElementById('loading');
+
+// Primary ids currently on screen, so actions can refresh them
+let shownPrimaryIds = [];
+
+// API key and tenant for this tab; sessionStorage so they are gone when the tab closes
+let apiKey = sessionStorage.getItem('apiKey') || '';
+let tenantId = sessionStorage.getItem('tenantId') || '';
+
+// Create an element with attributes and children. Strings become text nodes,
+// so values from the API are never parsed as HTML.
+function el(tag, attrs, ...children) {
+    const node = tag === 'svg' || attrs?.svg
+        ? document.createElementNS('http://www.w3.org/2000/svg', tag)
+        : document.createElement(tag);
+    for (const [name, value] of Object.entries(attrs || {})) {
+        if (name === 'svg' || value === undefined || value === null) continue;
+        if (name.startsWith('on')) {
+            node.addEventListener(name.slice(2), value);
+        } else {
+            node.setAttribute(name, value);
+        }
+    }
+    for (const child of children.flat()) {
+        if (child === null || child === undefined || child === false) continue;
+        node.append(typeof child === 'string' || typeof child === 'number' ? String(child) : child);
+    }
+    return node;
+}
+
+function showMessage(text, kind) {
+    messageBox.textContent = text;
+    messageBox.className = `message ${kind}`;
+}
+
+function clearMessage() {
+    messageBox.className = 'message hidden';
+}
+
+// Call the API and return the parsed body, throwing the API's error message on failure
+async function api(method, url, body) {
+    loadingIndicator.classList.remove('hidden');
+    try {
+        const headers = body ? { 'Content-Type': 'application/json' } : {};
+        if (apiKey) {
+            headers.Authorization = `Bearer ${apiKey}`;
+        }
+        if (tenantId) {
+            headers['X-Tenant-Id'] = tenantId;
+        }
+        const response = await fetch(url, {
+            method,
+            headers,
+            body: body ? JSON.stringify(body) : undefined
+        });
+        const data = response.status === 204 ? null : await response.json().catch(() => null);
+        if (response.status === 429) {
+            throw new Error(`Rate limit exceeded; try again in ${response.headers.get('Retry-After')}s`);
+        }
+        if (!response.ok) {
+            throw new Error(data?.error || `Server returned status: ${response.status}`);
+        }
+        return data;
+    } finally {
+        loadingIndicator.classList.add('hidden');
+    }
+}
+
+const formatDate = (value) => value ? new Date(value).toLocaleString() : '';
+
+// Draw the cluster as a star: the primary in the middle, every other contact
+// on a circle around it, and an edge for each linkedId
+function renderGraph(cluster, contacts, onSelect) {
+    const size = 320;
+    const center = size / 2;
+    const radius = contacts.length > 1 ? 115 : 0;
+    const positions = new Map();
+    const others = contacts.filter(c => c.id !== cluster.primaryContactId);
+
+    positions.set(cluster.primaryContactId, { x: center, y: center });
+    others.forEach((contact, i) => {
+        const angle = (2 * Math.PI * i) / others.length - Math.PI / 2;
+        positions.set(contact.id, { x: center + radius * Math.cos(angle), y: center + radius * Math.sin(angle) });
+    });
+
+    const svg = el('svg', { class: 'graph', width: size, height: size, viewBox: `0 0 ${size} ${size}` });
+    for (const contact of contacts) {
+        const from = positions.get(contact.id);
+        const to = positions.get(contact.linkedId);
+        if (from && to) {
+            svg.append(el('line', { svg: true, class: 'edge', x1: from.x, y1: from.y, x2: to.x, y2: to.y }));
+        }
+    }
+    for (const contact of contacts) {
+        const { x, y } = positions.get(contact.id);
+        const label = [contact.email, contact.phoneNumber].filter(Boolean).join(' / ');
+        svg.append(el('g', {
+            svg: true,
+            class: `node ${contact.linkPrecedence}`,
+            'data-id': contact.id,
+            onclick: () => onSelect(contact.id)
+        },
+            el('circle', { svg: true, cx: x, cy: y, r: contact.id === cluster.primaryContactId ? 24 : 18 }),
+            el('text', { svg: true, x, y }, contact.id),
+            el('title', { svg: true }, `#${contact.id} ${label}`)
+        ));
+    }
+    return svg;
+}
+
+function renderHistory(events) {
+    return el('table', {},
+        el('thead', {}, el('tr', {},
+            ['Time', 'Contact', 'Event', 'Source', 'Before', 'After', 'Request'].map(h => el('th', {}, h))
+        )),
+        el('tbody', {}, events.map(event => el('tr', {},
+            el('td', {}, formatDate(event.createdAt)),
+            el('td', {}, `#${event.contactId}`),
+            el('td', {}, event.type),
+            el('td', {}, event.source),
+            el('td', {}, event.previousLinkPrecedence ? `${event.previousLinkPrecedence} → ${event.previousLinkedId ?? '-'}` : ''),
+            el('td', {}, event.linkPrecedence ? `${event.linkPrecedence} → ${event.linkedId ?? '-'}` : ''),
+            el('td', {}, [event.requestEmail, event.requestPhoneNumber, ...Object.values(event.requestIdentifiers || {})]
+                .filter(Boolean).join(' / '))
+        )))
+    );
+}
+
+// "type: value" for each identifier beyond email and phone number
+function otherIdentifiers(identifiers) {
+    return Object.entries(identifiers || {})
+        .filter(([type]) => type !== 'email' && type !== 'phoneNumber')
+        .map(([type, value]) => `${type}: ${Array.isArray(value) ? value.join(', ') : value}`);
+}
+
+function renderCluster(detail) {
+    const cluster = detail.contact;
+    const contacts = detail.contacts;
+    const historyBox = el('div', { class: 'history hidden' });
+
+    const select = (id) => {
+        card.querySelectorAll('.selected').forEach(node => node.classList.remove('selected'));
+        card.querySelectorAll(`[data-id="${id}"]`).forEach(node => node.classList.add('selected'));
+    };
+
+    const rows = contacts.map(contact => el('tr', { 'data-id': contact.id, onclick: () => select(contact.id) },
+        el('td', {}, `#${contact.id}`),
+        el('td', {}, el('span', { class: `badge ${contact.linkPrecedence}` }, contact.linkPrecedence)),
+        el('td', {}, contact.email || '', contact.rawEmail && contact.rawEmail !== contact.email
+            ? el('div', { class: 'raw' }, contact.rawEmail) : null),
+        el('td', {}, contact.phoneNumber || '', contact.rawPhoneNumber && contact.rawPhoneNumber !== contact.phoneNumber
+            ? el('div', { class: 'raw' }, contact.rawPhoneNumber) : null),
+        el('td', {}, otherIdentifiers(contact.identifiers).map(text => el('div', {}, text))),
+        el('td', {}, contact.linkedId ? `#${contact.linkedId}` : ''),
+        el('td', {}, formatDate(contact.createdAt)),
+        el('td', {}, formatDate(contact.updatedAt)),
+        el('td', {},
+            contact.linkPrecedence === 'secondary'
+                ? el('button', { class: 'small secondary', onclick: (e) => { e.stopPropagation(); unlink(contact); } }, 'Unlink')
+                : null,
+            el('button', { class: 'small danger', onclick: (e) => { e.stopPropagation(); remove(contact); } }, 'Delete'),
+            el('button', { class: 'small', onclick: (e) => { e.stopPropagation(); reidentify(contact); } }, 'Re-identify')
+        )
+    ));
+
+    const card = el('article', { class: 'cluster' },
+        el('div', { class: 'cluster-header' },
+            el('h2', {}, `Cluster #${cluster.primaryContactId}`),
+            el('button', { class: 'small secondary', onclick: () => toggleHistory(cluster.primaryContactId, historyBox) }, 'History')
+        ),
+        el('div', { class: 'summary' },
+            el('div', {}, el('strong', {}, 'Emails: '), cluster.emails.join(', ') || '-'),
+            el('div', {}, el('strong', {}, 'Phone numbers: '), cluster.phoneNumbers.join(', ') || '-'),
+            otherIdentifiers(cluster.identifiers).map(text => el('div', {}, text))
+        ),
+        el('div', { class: 'cluster-body' },
+            renderGraph(cluster, contacts, select),
+            el('div', { class: 'members' }, el('table', {},
+                el('thead', {}, el('tr', {},
+                    ['ID', 'Role', 'Email', 'Phone', 'Other', 'Linked to', 'Created', 'Updated', 'Actions'].map(h => el('th', {}, h))
+                )),
+                el('tbody', {}, rows)
+            ))
+        ),
+        historyBox
+    );
+    return card;
+}
+
+async function toggleHistory(primaryId, box) {
+    if (!box.classList.contains('hidden')) {
+        box.classList.add('hidden');
+        return;
+    }
+    try {
+        const { events } = await api('GET', `/contacts/${primaryId}/history`);
+        box.replaceChildren(el('h3', {}, 'History'), renderHistory(events));
+        box.classList.remove('hidden');
+    } catch (error) {
+        showMessage(`Error: ${error.message}`, 'error');
+    }
+}
+
+// Load and render the clusters led by the given primaries
+async function showClusters(primaryIds) {
+    shownPrimaryIds = Array.from(new Set(primaryIds));
+    const details = [];
+    for (const id of shownPrimaryIds) {
+        try {
+            details.push(await api('GET', `/contacts/${id}?expand=contacts`));
+        } catch (error) {
+            // A cluster deleted by the last action simply disappears
+        }
+    }
+    results.replaceChildren(...details.map(renderCluster));
+    if (details.length === 0) {
+        results.replaceChildren(el('p', { class: 'note' }, 'No clusters found.'));
+    }
+}
+
+async function search(type, value) {
+    clearMessage();
+    try {
+        if (type === 'id') {
+            const detail = await api('GET', `/contacts/${encodeURIComponent(value)}?expand=contacts`);
+            await showClusters([detail.contact.primaryContactId]);
+            return;
+        }
+        // Other identifiers are searched as type=value
+        const query = type === 'other'
+            ? `identifiers[${encodeURIComponent(value.split('=')[0].trim())}]=${encodeURIComponent(value.split('=').slice(1).join('=').trim())}`
+            : `${type}=${encodeURIComponent(value)}`;
+        const { clusters } = await api('GET', `/contacts?${query}`);
+        await showClusters(clusters.map(c => c.primaryContactId));
+    } catch (error) {
+        results.replaceChildren();
+        showMessage(`Error: ${error.message}`, 'error');
+    }
+}
+
+async function unlink(contact) {
+    if (!confirm(`Detach contact #${contact.id} into its own cluster?`)) return;
+    const block = confirm('Also block these identifiers from being merged again?\n\nOK = block, Cancel = allow future merges');
+    try {
+        const result = await api('POST', `/admin/contacts/${contact.id}/unlink`, { block });
+        showMessage(`Contact #${contact.id} unlinked${block ? ' and blocked from re-merging' : ''}.`, 'success');
+        await showClusters(result.clusters.map(c => c.contact.primaryContactId));
+    } catch (error) {
+        showMessage(`Error: ${error.message}`, 'error');
+    }
+}
+
+async function remove(contact) {
+    if (!confirm(`Delete contact #${contact.id}? It will no longer match or appear in any cluster.`)) return;
+    try {
+        const result = await api('DELETE', `/contacts/${contact.id}`);
+        showMessage(`Contact #${contact.id} deleted.`, 'success');
+        const remaining = result.cluster ? [result.cluster.contact.primaryContactId] : [];
+        await showClusters([...shownPrimaryIds.filter(id => id !== contact.id), ...remaining]);
+    } catch (error) {
+        showMessage(`Error: ${error.message}`, 'error');
+    }
+}
+
+// Send the contact's identifiers through /identify again, which merges it
+// with any cluster it now matches
+async function reidentify(contact) {
+    await identify({ email: contact.email, phoneNumber: contact.phoneNumber, identifiers: contact.identifiers });
+}
+
+async function identify(requestBody) {
+    clearMessage();
+    try {
+        const data = await api('POST', '/identify', requestBody);
+        showMessage('Request processed successfully!', 'success');
+        await showClusters([data.contact.primaryContactId]);
+    } catch (error) {
+        showMessage(`Error: ${error.message}`, 'error');
+    }
+}
+
+document.getElementById('apiKey').value = apiKey;
+document.getElementById('tenantId').value = tenantId;
+
+document.getElementById('apiKeyForm').addEventListener('submit', (e) => {
+    e.preventDefault();
+    apiKey = document.getElementById('apiKey').value.trim();
+    tenantId = document.getElementById('tenantId').value.trim();
+    sessionStorage.setItem('apiKey', apiKey);
+    sessionStorage.setItem('tenantId', tenantId);
+    results.replaceChildren();
+    showMessage(apiKey ? `API key set${tenantId ? ` for tenant ${tenantId}` : ''}.` : 'API key cleared.', 'success');
+});
+
+document.getElementById('searchType').addEventListener('change', (e) => {
+    const placeholders = { email: 'customer@example.com', phoneNumber: '9876543210', other: 'loyaltyId=L-1042', id: '42' };
+    document.getElementById('searchValue').placeholder = placeholders[e.target.value];
+});
+
+document.getElementById('searchForm').addEventListener('submit', (e) => {
+    e.preventDefault();
+    const value = document.getElementById('searchValue').value.trim();
+    if (value) {
+        search(document.getElementById('searchType').value, value);
+    }
+});
+
+document.getElementById('identifyForm').addEventListener('submit', (e) => {
+    e.preventDefault();
+    const email = document.getElementById('identifyEmail').value.trim();
+    const phoneNumber = document.getElementById('identifyPhone').value.trim();
+    if (!email && !phoneNumber) {
+        showMessage('Error: Enter an email or a phone number.', 'error');
+        return;
+    }
+    // Missing fields are sent as null
+    identify({ email: email || null, phoneNumber: phoneNumber || null });
+});
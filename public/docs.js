@@ -0,0 +1,98 @@
+// API documentation page: renders /openapi.json as a list of endpoints grouped
+// by tag, followed by the request and response schemas. No build step; plain
+// browser JavaScript.
+
+const toc = document.getElementById('toc');
+const operations = document.getElementById('operations');
+const schemas = document.getElementById('schemas');
+const messageBox = document.getElementById('message');
+
+const METHODS = ['get', 'post', 'patch', 'delete'];
+
+// Create an element with attributes and children. Strings become text nodes,
+// so values from the document are never parsed as HTML.
+function el(tag, attrs, ...children) {
+    const node = document.createElement(tag);
+    for (const [name, value] of Object.entries(attrs || {})) {
+        if (value !== undefined && value !== null) {
+            node.setAttribute(name, value);
+        }
+    }
+    for (const child of children.flat()) {
+        if (child === null || child === undefined || child === false) continue;
+        node.append(typeof child === 'string' || typeof child === 'number' ? String(child) : child);
+    }
+    return node;
+}
+
+const anchor = (method, path) => `${method}-${path}`.replace(/[^a-zA-Z0-9]+/g, '-');
+const schemaName = (ref) => ref.split('/').pop();
+
+function schemaLink(schema) {
+    return schema?.$ref
+        ? el('a', { href: `#schema-${schemaName(schema.$ref)}` }, schemaName(schema.$ref))
+        : el('code', null, JSON.stringify(schema));
+}
+
+function parameterTable(parameters, spec) {
+    const rows = parameters.map(param => {
+        const resolved = param.$ref ? spec.components.parameters[schemaName(param.$ref)] : param;
+        return el('tr', null,
+            el('td', null, el('code', null, resolved.name)),
+            el('td', null, resolved.in),
+            el('td', null, el('code', null, JSON.stringify(resolved.schema))),
+            el('td', null, resolved.description || ''));
+    });
+    return el('table', null,
+        el('thead', null, el('tr', null, el('th', null, 'Parameter'), el('th', null, 'In'), el('th', null, 'Schema'), el('th', null, 'Description'))),
+        el('tbody', null, rows));
+}
+
+function responseTable(responses) {
+    const rows = Object.entries(responses).map(([status, response]) =>
+        el('tr', null,
+            el('td', null, status),
+            el('td', null, response.description),
+            el('td', null, response.content ? schemaLink(response.content['application/json'].schema) : '')));
+    return el('table', null,
+        el('thead', null, el('tr', null, el('th', null, 'Status'), el('th', null, 'Description'), el('th', null, 'Body'))),
+        el('tbody', null, rows));
+}
+
+function renderOperation(method, path, operation, spec) {
+    return el('div', { class: 'cluster', id: anchor(method, path) },
+        el('h2', null, el('span', { class: `badge ${method === 'get' ? 'primary' : 'secondary'}` }, method.toUpperCase()), ' ', el('code', null, path)),
+        el('p', null, operation.summary),
+        operation.description ? el('p', { class: 'note' }, operation.description) : null,
+        operation.parameters ? parameterTable(operation.parameters, spec) : null,
+        operation.requestBody
+            ? el('p', null, 'Request body: ', schemaLink(operation.requestBody.content['application/json'].schema))
+            : null,
+        responseTable(operation.responses));
+}
+
+function render(spec) {
+    const byTag = new Map(spec.tags.map(tag => [tag.name, []]));
+    for (const [path, item] of Object.entries(spec.paths)) {
+        for (const method of METHODS.filter(m => item[m])) {
+            byTag.get(item[method].tags[0]).push({ method, path, operation: item[method] });
+        }
+    }
+
+    for (const [tag, entries] of byTag) {
+        toc.append(el('h2', null, tag), el('ul', null, entries.map(({ method, path, operation }) =>
+            el('li', null, el('a', { href: `#${anchor(method, path)}` }, `${method.toUpperCase()} ${path}`), ` ${operation.summary}`))));
+        operations.append(el('h2', null, tag), entries.map(({ method, path, operation }) => renderOperation(method, path, operation, spec)));
+    }
+
+    schemas.append(el('h2', null, 'Schemas'), Object.entries(spec.components.schemas).map(([name, schema]) =>
+        el('div', { class: 'panel', id: `schema-${name}` }, el('h2', null, name), el('pre', { class: 'raw' }, JSON.stringify(schema, null, 2)))));
+}
+
+fetch('/openapi.json')
+    .then(response => response.json())
+    .then(render)
+    .catch(error => {
+        messageBox.textContent = `Could not load /openapi.json: ${error.message}`;
+        messageBox.className = 'message error';
+    });
@@ -0,0 +1,253 @@
+import { Contact, Identifier, IdentifyResponse, MergeBlock, MergeProposal } from './types';
+import { ContactStore } from './store/contactStore';
+import { ConflictError, NotFoundError, ValidationError } from './errors';
+import { identifierType, normalizeIdentifier } from './identifiers';
+import { mergeOrder, mergePolicyFromEnv } from './mergePolicy';
+import {
+  AuditContext,
+  buildResponse,
+  consolidateCluster,
+  contactEvent,
+  contactIdentifiers,
+  describeCluster,
+  groupClusters,
+  identifierKey,
+  isMergeBlocked
+} from './cluster';
+
+// Admin operations that undo bad merges. Each one runs in a single
+// transaction and leaves every affected cluster consolidated.
+
+export interface SplitOptions {
+  // Also block the identifiers on either side from merging again
+  block?: boolean;
+}
+
+export interface SplitResult {
+  clusters: IdentifyResponse[];
+  blocks: MergeBlock[];
+}
+
+// Load the cluster containing a contact and lock its primary against
+// concurrent identify calls
+async function lockCluster(tx: ContactStore, contactId: number): Promise<Contact[]> {
+  const cluster = await tx.findCluster([contactId]);
+  if (cluster.length === 0) {
+    throw new NotFoundError(`Contact ${contactId} not found`);
+  }
+
+  const primaryIds = cluster.filter(c => c.linkPrecedence === 'primary').map(c => c.id);
+  await tx.lockContacts(primaryIds.length > 0 ? primaryIds : [cluster[0].id]);
+  // Re-read now that nothing can change underneath us
+  return tx.findCluster([contactId]);
+}
+
+// Block every identifier of one group from merging with the other group.
+// Identifiers both groups hold cannot be blocked against themselves and are skipped.
+async function blockBetween(tx: ContactStore, a: Contact[], b: Contact[]): Promise<MergeBlock[]> {
+  const idsA = contactIdentifiers(a);
+  const idsB = contactIdentifiers(b);
+  const shared = new Set(idsA.map(identifierKey).filter(key => idsB.some(i => identifierKey(i) === key)));
+
+  const blocks: MergeBlock[] = [];
+  for (const first of idsA) {
+    for (const second of idsB) {
+      if (!shared.has(identifierKey(first)) && !shared.has(identifierKey(second))) {
+        blocks.push(await tx.insertMergeBlock(first, second));
+      }
+    }
+  }
+  return blocks;
+}
+
+// Move the chosen contacts out of their cluster into a new one. The oldest
+// moved contact (or the old primary, if it moves) leads the new cluster and
+// the rest of the old cluster keeps or elects its own primary.
+export async function splitCluster(store: ContactStore, contactIds: number[], options: SplitOptions = {}): Promise<SplitResult> {
+  return moveContacts(store, contactIds, options, { source: 'split' });
+}
+
+async function moveContacts(
+  store: ContactStore,
+  contactIds: number[],
+  options: SplitOptions,
+  audit: AuditContext
+): Promise<SplitResult> {
+  const ids = Array.from(new Set(contactIds));
+  if (ids.length === 0) {
+    throw new ValidationError('contactIds must list at least one contact');
+  }
+
+  return store.transaction(async (tx) => {
+    const cluster = await lockCluster(tx, ids[0]);
+    const memberIds = new Set(cluster.map(c => c.id));
+    const outside = ids.filter(id => !memberIds.has(id));
+    if (outside.length > 0) {
+      const existing = await tx.findByIds(outside);
+      if (existing.length < outside.length) {
+        const found = new Set(existing.map(c => c.id));
+        throw new NotFoundError(`Contact ${outside.find(id => !found.has(id))} not found`);
+      }
+      throw new ValidationError(`Contacts ${outside.join(', ')} are not in the same cluster as contact ${ids[0]}`);
+    }
+
+    const moving = cluster.filter(c => ids.includes(c.id));
+    const staying = cluster.filter(c => !ids.includes(c.id));
+    if (staying.length === 0) {
+      throw new ValidationError('Cannot move every contact of a cluster; at least one must stay');
+    }
+
+    // Each side becomes its own consolidated cluster. A moved secondary that
+    // has to lead the new cluster is recorded as unlinked.
+    await consolidateCluster(tx, moving, audit, 'unlinked');
+    await consolidateCluster(tx, staying, audit);
+
+    const blocks = options.block ? await blockBetween(tx, moving, staying) : [];
+    return { clusters: [describeCluster(moving), describeCluster(staying)], blocks };
+  });
+}
+
+// Detach one secondary into a primary of its own
+export async function unlinkContact(store: ContactStore, contactId: number, options: SplitOptions = {}): Promise<SplitResult> {
+  return store.transaction(async (tx) => {
+    const cluster = await lockCluster(tx, contactId);
+    const contact = cluster.find(c => c.id === contactId)!;
+    if (contact.linkPrecedence === 'primary') {
+      throw new ConflictError(`Contact ${contactId} is the primary of its cluster; split the cluster instead`, 'primary_contact');
+    }
+
+    return moveContacts(tx, [contactId], options, { source: 'unlink' });
+  });
+}
+
+// Parse an admin-supplied identifier into its canonical form
+export function parseIdentifier(raw: unknown, field: string): Identifier {
+  const { type, value } = (raw || {}) as { type?: unknown; value?: unknown };
+  if (typeof type !== 'string') {
+    throw new ValidationError(`${field}.type must be a registered identifier type`);
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new ValidationError(`${field}.value must be a string`);
+  }
+
+  const canonical = normalizeIdentifier(identifierType(type), value);
+  if (canonical === null) {
+    throw new ValidationError(`${field}.value must not be empty`);
+  }
+  return { type, value: canonical };
+}
+
+// Block two identifiers from ever sharing a cluster on later identify calls.
+// Clusters that already contain both are not split; use splitCluster for that.
+export async function blockMerge(store: ContactStore, first: Identifier, second: Identifier): Promise<MergeBlock> {
+  if (identifierKey(first) === identifierKey(second)) {
+    throw new ValidationError('Cannot block an identifier against itself');
+  }
+  return store.insertMergeBlock(first, second);
+}
+
+export interface DeleteResult {
+  deletedContactIds: number[];
+  // What is left of the cluster, or null if nothing is
+  cluster: IdentifyResponse | null;
+}
+
+// Soft-delete one contact. If it led its cluster, the oldest remaining
+// contact becomes the primary and the rest are re-linked to it.
+export async function deleteContact(store: ContactStore, contactId: number): Promise<DeleteResult> {
+  return store.transaction(async (tx) => {
+    const cluster = await lockCluster(tx, contactId);
+    const remaining = cluster.filter(c => c.id !== contactId);
+
+    const contact = cluster.find(c => c.id === contactId)!;
+    await tx.softDelete([contactId]);
+    await tx.recordEvents([contactEvent(contactId, 'deleted', contact, contact, { source: 'delete' })]);
+    if (remaining.length > 0) {
+      await consolidateCluster(tx, remaining, { source: 'delete' });
+    }
+
+    return {
+      deletedContactIds: [contactId],
+      cluster: remaining.length > 0 ? describeCluster(remaining) : null
+    };
+  });
+}
+
+// Right to erasure: scrub every identifier in the contact's cluster,
+// soft-delete all of its rows and drop the merge blocks, merge proposals and
+// verifications that mention them
+export async function eraseCluster(store: ContactStore, contactId: number): Promise<DeleteResult> {
+  return store.transaction(async (tx) => {
+    const cluster = await lockCluster(tx, contactId);
+    const ids = cluster.map(c => c.id);
+
+    await tx.deleteMergeBlocksFor(contactIdentifiers(cluster));
+    await tx.deleteMergeProposalsFor(ids);
+    await tx.unverify(contactIdentifiers(cluster));
+    await tx.scrub(ids);
+    await tx.scrubEvents(ids);
+    await tx.scrubOutbox(ids);
+    await tx.softDelete(ids);
+    await tx.recordEvents(cluster.map(c => contactEvent(c.id, 'erased', c, c, { source: 'erase' })));
+
+    return { deletedContactIds: ids, cluster: null };
+  });
+}
+
+export interface MergeProposalResult {
+  proposal: MergeProposal;
+  // The merged cluster, or null if none of its contacts are left
+  cluster: IdentifyResponse | null;
+}
+
+// Lock a proposal that is still waiting for review
+async function lockPendingProposal(tx: ContactStore, id: number): Promise<MergeProposal> {
+  const proposal = await tx.lockMergeProposal(id);
+  if (!proposal) {
+    throw new NotFoundError(`Merge proposal ${id} not found`);
+  }
+  if (proposal.status !== 'pending') {
+    throw new ConflictError(`Merge proposal ${id} is already ${proposal.status}`, 'proposal_resolved');
+  }
+  return proposal;
+}
+
+// Merge the clusters of a pending proposal under the primary the merge policy
+// picks. Contacts deleted since the proposal was made are left out. A merge
+// block added between the clusters since then has to be removed first.
+export async function approveMergeProposal(store: ContactStore, id: number): Promise<MergeProposalResult> {
+  return store.transaction(async (tx) => {
+    const proposal = await lockPendingProposal(tx, id);
+
+    const found = await tx.findCluster(proposal.primaryContactIds);
+    const primaryIds = found.filter(c => c.linkPrecedence === 'primary').map(c => c.id);
+    await tx.lockContacts(primaryIds.length > 0 ? primaryIds : found.slice(0, 1).map(c => c.id));
+    // Re-read now that nothing can change underneath us
+    const clusters = groupClusters(await tx.findCluster(proposal.primaryContactIds));
+
+    const blocks = await tx.findMergeBlocks(contactIdentifiers(([] as Contact[]).concat(...clusters)));
+    const blocked = clusters.some((a, i) => clusters.slice(i + 1).some(b =>
+      isMergeBlocked(contactIdentifiers(a), contactIdentifiers(b), blocks)
+    ));
+    if (blocked) {
+      throw new ConflictError(`A merge block separates the clusters of merge proposal ${id}; remove it first`, 'merge_blocked');
+    }
+
+    let cluster: IdentifyResponse | null = null;
+    if (clusters.length > 0) {
+      const members = await mergeOrder(tx, clusters, mergePolicyFromEnv().policy);
+      const { primary, secondaries } = await consolidateCluster(tx, members, { source: 'review' });
+      cluster = buildResponse(primary, secondaries);
+    }
+    return { proposal: await tx.resolveMergeProposal(id, 'approved'), cluster };
+  });
+}
+
+// Turn down a pending proposal. Later requests linking the same clusters do
+// not propose the merge again.
+export async function rejectMergeProposal(store: ContactStore, id: number): Promise<MergeProposal> {
+  return store.transaction(async (tx) => {
+    await lockPendingProposal(tx, id);
+    return tx.resolveMergeProposal(id, 'rejected');
+  });
+}
@@ -0,0 +1,169 @@
+import express, { Express, NextFunction, Request, Response, Router } from 'express';
+import cors from 'cors';
+import path from 'path';
+import { errorBody, ValidationError } from './errors';
+import { identifyContact, parseContactRequest } from './identify';
+import { ClusterCache } from './clusterCache';
+import { ContactStore } from './store/contactStore';
+import { ApiKeyStore } from './store/apiKeyStore';
+import { createAuthenticator, corsOriginsFromEnv, requireScope } from './auth';
+import { resolveTenant, tenantStore } from './tenant';
+import { createContactsRouter } from './routes/contacts';
+import { createAdminRouter } from './routes/admin';
+import { createWebhooksRouter } from './routes/webhooks';
+import { createIdentifyRouter } from './routes/identify';
+import { createExportRouter } from './routes/export';
+import { createTenantsRouter } from './routes/tenants';
+import { createDocsRouter } from './routes/docs';
+import { handleError } from './routes/handleError';
+import { logger } from './logger';
+import { recordHttpResponse } from './metrics';
+import { ENDPOINTS } from './openapi';
+import { requireJson } from './validation';
+import { REQUEST_ID_HEADER, requestId } from './requestContext';
+
+export interface AppDependencies {
+  // Persistence used by the reconciliation logic
+  contactStore: ContactStore;
+  apiKeyStore: ApiKeyStore;
+  // Clusters resolved by /identify, so repeat requests skip the database;
+  // null when the cache is off
+  clusterCache: ClusterCache | null;
+  // Health probes and metrics, which need the database pool
+  healthRouter?: Router;
+}
+
+// The HTTP API: middleware, routes and the JSON error responses. Starting
+// the server and the database is left to the caller.
+export function createApp({ contactStore, apiKeyStore, clusterCache, healthRouter }: AppDependencies): Express {
+  const app = express();
+
+  // Configure middleware. Browsers may only call the API from CORS_ORIGINS.
+  app.use(cors({
+    origin: corsOriginsFromEnv(),
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Tenant-Id', REQUEST_ID_HEADER],
+    exposedHeaders: ['Retry-After', 'X-RateLimit-Limit', 'X-RateLimit-Remaining', REQUEST_ID_HEADER]
+  }));
+  // Large enough for a full /identify/batch request
+  app.use(express.json({ limit: '1mb' }));
+  // Tag the request, its log lines and its queries with an id
+  app.use(requestId);
+
+  // One access log line and one status count per request. Only the path is
+  // logged; query strings can carry identifiers.
+  app.use((req: Request, res: Response, next) => {
+    const started = process.hrtime();
+    res.on('finish', () => {
+      const [seconds, nanoseconds] = process.hrtime(started);
+      // Counted by route pattern so contact ids do not each get a series
+      recordHttpResponse(req.method, req.route ? req.baseUrl + req.route.path : 'unmatched', res.statusCode);
+      logger.info('Request completed', {
+        requestId: res.locals.requestId,
+        method: req.method,
+        path: req.path,
+        status: res.statusCode,
+        durationMs: Math.round((seconds * 1e3 + nanoseconds / 1e6) * 10) / 10
+      });
+    });
+    next();
+  });
+
+  // Liveness and readiness probes and Prometheus metrics, ahead of API key
+  // checks and rate limits
+  if (healthRouter) {
+    app.use(healthRouter);
+  }
+
+  // Identify callers by API key; routes check scopes with requireScope
+  app.use(createAuthenticator(apiKeyStore));
+  // Every contact operation runs in the tenant of the caller's key or X-Tenant-Id
+  app.use(resolveTenant);
+
+  // Admin console assets (index.html, admin.js, admin.css)
+  const publicDir = path.join(__dirname, '..', 'public');
+
+  // Serve static files from the public directory; / serves the admin console
+  app.use(express.static(publicDir));
+  // /openapi.json and the /docs page that renders it
+  app.use(createDocsRouter(publicDir));
+
+  // Handle any lingering requests to the removed view-contacts page
+  app.get('/view-contacts', (req: Request, res: Response) => {
+    return res.redirect('/');
+  });
+
+  // Debug endpoint to test request handling
+  app.get('/debug', requireScope('admin'), async (req: Request, res: Response) => {
+    res.status(200).json({
+      status: 'OK',
+      time: new Date().toISOString(),
+      // Taken from the OpenAPI document; see /openapi.json for the details
+      endpoints: ENDPOINTS.map(({ path, method, summary }) => ({ path, method, description: summary })),
+      environment: {
+        nodeEnv: process.env.NODE_ENV || 'not set',
+        port: process.env.PORT || '3000'
+      },
+      clusterCache: clusterCache ? { enabled: true, ...(await clusterCache.stats()) } : { enabled: false }
+    });
+  });
+
+  // Route to handle identify requests
+  app.post('/identify', requireScope('identify:write'), requireJson, async (req: Request, res: Response) => {
+    try {
+      // Log incoming request for debugging; identifiers are redacted
+      logger.debug('Received request to /identify', { body: req.body });
+
+      // Check the body against ContactRequestSchema - any field may be omitted or null
+      const request = parseContactRequest(req.body);
+
+      // Process the contact
+      const result = await identifyContact(tenantStore(contactStore, res), request, clusterCache);
+
+      // Log the response for debugging
+      logger.debug('Sending response', { response: result });
+
+      return res.status(200).json(result);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        logger.warn('Invalid request', { code: error.code, reason: error.message });
+      }
+      return handleError(res, error, 'Error processing request');
+    }
+  });
+
+  app.use(createIdentifyRouter(contactStore, clusterCache));
+
+  // Read-only contact lookups
+  app.use(createContactsRouter(contactStore));
+  app.use(createExportRouter(contactStore));
+
+  // Admin operations for undoing bad merges
+  app.use(createAdminRouter(contactStore, clusterCache));
+  app.use(createWebhooksRouter(contactStore));
+  app.use(createTenantsRouter(contactStore, clusterCache));
+
+  // Anything not matched above
+  app.use((req: Request, res: Response) => {
+    res.status(404).json(errorBody('not_found', `No route for ${req.method} ${req.path}`));
+  });
+
+  // Errors passed to next(), mostly from the JSON body parser
+  app.use((error: Error & { type?: string; status?: number }, req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) {
+      return next(error);
+    }
+    if (error.type === 'entity.parse.failed') {
+      return res.status(400).json(errorBody('malformed_json', 'Request body is not valid JSON'));
+    }
+    if (error.type === 'entity.too.large') {
+      return res.status(413).json(errorBody('payload_too_large', 'Request body is too large'));
+    }
+    // Other body parser errors (bad charset, aborted upload) carry a 4xx status
+    if (error.status !== undefined && error.status >= 400 && error.status < 500) {
+      return res.status(error.status).json(errorBody('invalid_request', error.message));
+    }
+    return handleError(res, error, 'Unhandled error');
+  });
+
+  return app;
+}
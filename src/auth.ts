@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { errorBody, ValidationError } from './errors';
+import { logger } from './logger';
+import { RateLimit, TokenBucketLimiter } from './rateLimit';
+import { ApiKeyStore } from './store/apiKeyStore';
+import { ApiKey, ApiScope } from './types';
+
+export const API_SCOPES: ApiScope[] = ['identify:write', 'contacts:read', 'admin'];
+
+export interface AuthOptions {
+  // When false every request is let through, for local development
+  enabled: boolean;
+  // Used for keys without their own limit
+  defaultRateLimit: RateLimit;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimit = { perMinute: 600, burst: 100 };
+
+const isPositiveInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+// Anything but a positive integer falls back to the default; a limit of 0
+// would never refill
+function positiveFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name] || fallback);
+  return isPositiveInteger(value) ? value : fallback;
+}
+
+export function authOptionsFromEnv(): AuthOptions {
+  return {
+    enabled: process.env.AUTH_ENABLED !== 'false',
+    defaultRateLimit: {
+      perMinute: positiveFromEnv('RATE_LIMIT_PER_MINUTE', DEFAULT_RATE_LIMIT.perMinute),
+      burst: positiveFromEnv('RATE_LIMIT_BURST', DEFAULT_RATE_LIMIT.burst)
+    }
+  };
+}
+
+// Origins allowed to call the API from a browser. Unset means none, so only
+// same-origin pages such as the admin console work.
+export function corsOriginsFromEnv(): string[] | boolean {
+  const origins = (process.env.CORS_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+  if (origins.includes('*')) {
+    return true;
+  }
+  return origins.length > 0 ? origins : false;
+}
+
+const KEY_PATTERN = /^bik_([0-9a-f]{12})_([0-9a-f]{48})$/;
+
+export const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+// A new key as shown to the caller once, and the fields to store for it.
+// Keys are random, so a plain SHA-256 is enough to make a leaked table useless.
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const prefix = crypto.randomBytes(6).toString('hex');
+  const key = `bik_${prefix}_${crypto.randomBytes(24).toString('hex')}`;
+  return { key, prefix, keyHash: hashKey(key) };
+}
+
+// Create and store a key. The returned key is the only copy of the secret.
+export async function issueApiKey(
+  store: ApiKeyStore,
+  input: Pick<ApiKey, 'name' | 'scopes'> & Partial<Pick<ApiKey, 'tenantId' | 'rateLimitPerMinute' | 'rateLimitBurst'>>
+): Promise<{ apiKey: ApiKey; key: string }> {
+  if (!input.name.trim()) {
+    throw new ValidationError('name is required');
+  }
+  for (const field of ['rateLimitPerMinute', 'rateLimitBurst'] as const) {
+    const value = input[field];
+    if (value !== undefined && value !== null && !isPositiveInteger(value)) {
+      throw new ValidationError(`${field} must be a positive integer`);
+    }
+  }
+  const { key, prefix, keyHash } = generateApiKey();
+  const apiKey = await store.insert({
+    name: input.name.trim(),
+    prefix,
+    keyHash,
+    scopes: input.scopes,
+    tenantId: input.tenantId ?? null,
+    rateLimitPerMinute: input.rateLimitPerMinute ?? null,
+    rateLimitBurst: input.rateLimitBurst ?? null
+  });
+  return { apiKey, key };
+}
+
+export function parseScopes(value: string): ApiScope[] {
+  const scopes = value.split(',').map(s => s.trim()).filter(Boolean);
+  if (scopes.length === 0) {
+    throw new ValidationError(`At least one scope is required (${API_SCOPES.join(', ')})`);
+  }
+  for (const scope of scopes) {
+    if (!API_SCOPES.includes(scope as ApiScope)) {
+      throw new ValidationError(`Unknown scope "${scope}" (expected ${API_SCOPES.join(', ')})`);
+    }
+  }
+  return Array.from(new Set(scopes)) as ApiScope[];
+}
+
+// The key from "Authorization: Bearer <key>" or "X-API-Key: <key>"
+function presentedKey(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (header && /^Bearer\s+/i.test(header)) {
+    return header.replace(/^Bearer\s+/i, '').trim();
+  }
+  const apiKey = req.headers['x-api-key'];
+  return typeof apiKey === 'string' ? apiKey.trim() : null;
+}
+
+// Look up and check a presented key; null if unknown, revoked or wrong
+async function verifyKey(store: ApiKeyStore, key: string): Promise<ApiKey | null> {
+  const match = KEY_PATTERN.exec(key);
+  if (!match) {
+    return null;
+  }
+  const apiKey = await store.findByPrefix(match[1]);
+  if (!apiKey || apiKey.revokedAt) {
+    return null;
+  }
+  const expected = Buffer.from(apiKey.keyHash, 'hex');
+  const actual = Buffer.from(hashKey(key), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? apiKey : null;
+}
+
+const unauthorized = (res: Response, message: string) =>
+  res.status(401).set('WWW-Authenticate', 'Bearer').json(errorBody('unauthorized', message));
+
+// Identify the caller from their API key and apply its rate limit. Requests
+// without a key pass through; requireScope turns them away from protected
+// routes, leaving /health and the console assets open.
+export function createAuthenticator(
+  store: ApiKeyStore,
+  options: AuthOptions = authOptionsFromEnv(),
+  limiter = new TokenBucketLimiter()
+): RequestHandler {
+  // lastUsedAt is written at most once a minute per key
+  const touchedAt = new Map<number, number>();
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!options.enabled) {
+      res.locals.authDisabled = true;
+      return next();
+    }
+
+    const key = presentedKey(req);
+    if (!key) {
+      return next();
+    }
+
+    try {
+      const apiKey = await verifyKey(store, key);
+      if (!apiKey) {
+        return unauthorized(res, 'Invalid or revoked API key');
+      }
+
+      const limit: RateLimit = {
+        perMinute: apiKey.rateLimitPerMinute ?? options.defaultRateLimit.perMinute,
+        burst: apiKey.rateLimitBurst ?? options.defaultRateLimit.burst
+      };
+      const result = limiter.take(String(apiKey.id), limit);
+      res.set('X-RateLimit-Limit', String(limit.perMinute));
+      res.set('X-RateLimit-Remaining', String(result.remaining));
+      if (!result.allowed) {
+        res.set('Retry-After', String(result.retryAfterSeconds));
+        return res.status(429).json(errorBody('rate_limited', 'Rate limit exceeded'));
+      }
+
+      const now = Date.now();
+      if (now - (touchedAt.get(apiKey.id) || 0) >= 60000) {
+        touchedAt.set(apiKey.id, now);
+        store.touch(apiKey.id, new Date(now)).catch(error => logger.error('Error recording API key use', { error }));
+      }
+
+      res.locals.apiKey = apiKey;
+      return next();
+    } catch (error) {
+      logger.error('Error authenticating request', { error });
+      return res.status(500).json(errorBody('internal_error', 'Internal server error'));
+    }
+  };
+}
+
+// Reject the request unless the caller's key has scope (or admin)
+export function requireScope(scope: ApiScope): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (res.locals.authDisabled) {
+      return next();
+    }
+    const apiKey: ApiKey | undefined = res.locals.apiKey;
+    if (!apiKey) {
+      return unauthorized(res, 'API key required');
+    }
+    if (!apiKey.scopes.includes(scope) && !apiKey.scopes.includes('admin')) {
+      return res.status(403).json(errorBody('forbidden', `API key lacks the ${scope} scope`));
+    }
+    return next();
+  };
+}
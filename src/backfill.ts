@@ -0,0 +1,94 @@
+import type { Pool } from 'pg';
+import { Contact } from './types';
+import { normalizeEmail, normalizePhoneNumber, NormalizeOptions, normalizeOptionsFromEnv } from './normalize';
+import { PostgresContactStore } from './store/postgresContactStore';
+import { identifierTypesFromEnv } from './identifiers';
+import { mergeClustersSharing } from './identify';
+
+export interface BackfillResult {
+  scanned: number;
+  updated: number;
+  merged: number;
+  // Merges recorded as proposals because MERGE_REVIEW is on
+  proposed: number;
+}
+
+// Re-canonicalize every contact from its raw values, then merge clusters
+// that now share an identifier under the configured merge policy
+export async function backfillCanonicalIdentifiers(
+  pool: Pool,
+  options: NormalizeOptions = normalizeOptionsFromEnv(),
+  batchSize = 500
+): Promise<BackfillResult> {
+  const result: BackfillResult = { scanned: 0, updated: 0, merged: 0, proposed: 0 };
+
+  // Walk the table in id order so memory stays bounded on large tables
+  let lastId = 0;
+  for (;;) {
+    const batch = await pool.query(`
+      SELECT * FROM contacts WHERE id > $1 ORDER BY id ASC LIMIT $2;
+    `, [lastId, batchSize]);
+    if (batch.rows.length === 0) {
+      break;
+    }
+
+    for (const contact of batch.rows as Contact[]) {
+      result.scanned++;
+      const rawEmail = contact.rawEmail ?? contact.email;
+      const rawPhoneNumber = contact.rawPhoneNumber ?? contact.phoneNumber;
+      const email = normalizeEmail(rawEmail, options);
+      const phoneNumber = normalizePhoneNumber(rawPhoneNumber, options);
+
+      if (
+        email !== contact.email || phoneNumber !== contact.phoneNumber ||
+        rawEmail !== contact.rawEmail || rawPhoneNumber !== contact.rawPhoneNumber
+      ) {
+        await pool.query(`
+          UPDATE contacts
+          SET email = $1, "phoneNumber" = $2, "rawEmail" = $3, "rawPhoneNumber" = $4, "updatedAt" = NOW()
+          WHERE id = $5;
+        `, [email, phoneNumber, rawEmail, rawPhoneNumber, contact.id]);
+        result.updated++;
+      }
+    }
+
+    lastId = batch.rows[batch.rows.length - 1].id;
+  }
+
+  return { ...result, ...await mergeCollidingClusters(pool) };
+}
+
+// Find identifiers held by more than one cluster within a tenant, custom
+// identifier types included, and merge the clusters holding each one the way
+// identify would. Chains of collisions end up in one cluster since each merge
+// is seen by the next. Returns the demotions and the merges proposed instead.
+async function mergeCollidingClusters(pool: Pool): Promise<Pick<BackfillResult, 'merged' | 'proposed'>> {
+  const collisions = await pool.query(`
+    WITH identifiers AS (
+      SELECT "tenantId", 'email' AS type, email AS value, COALESCE("linkedId", id) AS root
+      FROM contacts WHERE email IS NOT NULL AND "deletedAt" IS NULL
+      UNION ALL
+      SELECT "tenantId", 'phoneNumber', "phoneNumber", COALESCE("linkedId", id)
+      FROM contacts WHERE "phoneNumber" IS NOT NULL AND "deletedAt" IS NULL
+      UNION ALL
+      SELECT "tenantId", custom.key, custom.value, COALESCE("linkedId", id)
+      FROM contacts, jsonb_each_text(identifiers) AS custom WHERE "deletedAt" IS NULL
+    )
+    SELECT "tenantId", type, value FROM identifiers
+    GROUP BY "tenantId", type, value HAVING COUNT(DISTINCT root) > 1
+    ORDER BY MIN(root) ASC;
+  `);
+
+  const store = new PostgresContactStore(pool);
+  const types = identifierTypesFromEnv();
+  const result = { merged: 0, proposed: 0 };
+  for (const { tenantId, type, value } of collisions.rows as { tenantId: string; type: string; value: string }[]) {
+    const { mergedPrimaryContactIds, proposed } = await store.forTenant(tenantId).transaction(tx =>
+      mergeClustersSharing(tx, { type, value }, { source: 'backfill' }, types)
+    );
+    result.merged += mergedPrimaryContactIds.length;
+    result.proposed += proposed ? 1 : 0;
+  }
+
+  return result;
+}
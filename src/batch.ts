@@ -0,0 +1,112 @@
+import { ErrorBody, errorBody, ValidationError } from './errors';
+import { ClusterCache } from './clusterCache';
+import {
+  IdentifyOutcome,
+  identifyContact,
+  identifyInTransaction,
+  parseContactRequest,
+  updateClusterCache
+} from './identify';
+import { logger } from './logger';
+import { recordIdentifyOutcome } from './metrics';
+import { withRetry } from './retry';
+import { ContactStore } from './store/contactStore';
+import { IdentifyResponse } from './types';
+
+// atomic: every item commits together or none do.
+// independent: each item commits on its own; failed items do not affect the rest.
+export type BatchMode = 'atomic' | 'independent';
+
+export type BatchItemResult =
+  | { ok: true; response: IdentifyResponse }
+  | ({ ok: false } & ErrorBody);
+
+export interface BatchResult {
+  mode: BatchMode;
+  // Items whose changes were committed
+  committed: number;
+  // One entry per item, in request order
+  results: BatchItemResult[];
+}
+
+export const DEFAULT_BATCH_MAX_ITEMS = 500;
+
+// Anything but a positive integer falls back to the default rather than lifting the cap
+export function batchMaxItemsFromEnv(): number {
+  const max = Number(process.env.IDENTIFY_BATCH_MAX_ITEMS || DEFAULT_BATCH_MAX_ITEMS);
+  return Number.isInteger(max) && max > 0 ? max : DEFAULT_BATCH_MAX_ITEMS;
+}
+
+// Error reported for a failed item. Validation errors are the caller's to
+// fix; anything else is logged and reported generically.
+function itemError(error: unknown): ErrorBody {
+  if (error instanceof ValidationError) {
+    return errorBody(error.code, error.message, error.details);
+  }
+  logger.error('Error in batch identify item', { error });
+  return errorBody('internal_error', 'Internal server error');
+}
+
+// Identify every item in order, so later items see the merges made by earlier
+// ones. The whole batch runs on one database connection.
+export async function identifyBatch(
+  store: ContactStore,
+  items: unknown[],
+  mode: BatchMode,
+  cache: ClusterCache | null = null
+): Promise<BatchResult> {
+  return store.withSession(session =>
+    mode === 'atomic' ? identifyAtomic(session, items, cache) : identifyIndependent(session, items, cache)
+  );
+}
+
+async function identifyIndependent(session: ContactStore, items: unknown[], cache: ClusterCache | null): Promise<BatchResult> {
+  const results: BatchItemResult[] = [];
+  for (const item of items) {
+    try {
+      results.push({ ok: true, response: await identifyContact(session, parseContactRequest(item), cache) });
+    } catch (error) {
+      results.push({ ok: false, ...itemError(error) });
+    }
+  }
+  return { mode: 'independent', committed: results.filter(r => r.ok).length, results };
+}
+
+// Items are never answered from the cache, since they must all run in the
+// one transaction
+async function identifyAtomic(session: ContactStore, items: unknown[], cache: ClusterCache | null): Promise<BatchResult> {
+  // Index of the item being processed when the transaction failed, or -1 if
+  // it failed outside any item (on commit, say)
+  let failedIndex = -1;
+
+  try {
+    // A lock conflict aborts the whole transaction, so the whole batch is retried
+    const outcomes = await withRetry(() => session.transaction(async (tx) => {
+      const processed: IdentifyOutcome[] = [];
+      for (let i = 0; i < items.length; i++) {
+        failedIndex = i;
+        processed.push(await identifyInTransaction(tx, parseContactRequest(items[i])));
+      }
+      failedIndex = -1;
+      return processed;
+    }));
+    // Counted, and cached clusters invalidated, only once the whole batch has committed
+    outcomes.forEach(recordIdentifyOutcome);
+    if (cache) {
+      await updateClusterCache(cache, session.tenantId, outcomes);
+    }
+    return { mode: 'atomic', committed: outcomes.length, results: outcomes.map(({ response }) => ({ ok: true, response })) };
+  } catch (error) {
+    const failure = itemError(error);
+    return {
+      mode: 'atomic',
+      committed: 0,
+      results: items.map((_, i) => ({
+        ok: false,
+        ...(failedIndex < 0 || i === failedIndex
+          ? failure
+          : errorBody('batch_aborted', `Not committed: item ${failedIndex} failed`))
+      }))
+    };
+  }
+}
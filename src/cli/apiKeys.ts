@@ -0,0 +1,106 @@
+import dotenv from 'dotenv';
+import { createPool } from '../db';
+import { API_SCOPES, issueApiKey, parseScopes } from '../auth';
+import { ValidationError } from '../errors';
+import { PostgresApiKeyStore } from '../store/postgresApiKeyStore';
+import { parseTenantId } from '../tenant';
+
+// Load environment variables
+dotenv.config();
+
+const usage = `Usage:
+  npm run api-keys -- issue --name NAME --scopes SCOPES [--tenant ID] [--rate-limit N] [--burst N]
+  npm run api-keys -- revoke ID
+  npm run api-keys -- list
+
+SCOPES is a comma-separated list of ${API_SCOPES.join(', ')}. admin grants
+every scope. --tenant binds the key to one tenant. Without it, an admin key
+picks the tenant per request with X-Tenant-Id and any other key only reaches
+the default tenant. --rate-limit is requests per minute and --burst the requests
+allowed at once; both default to RATE_LIMIT_PER_MINUTE and RATE_LIMIT_BURST.
+The key is printed once by "issue" and cannot be recovered afterwards.`;
+
+function fail(): never {
+  console.error(usage);
+  process.exit(1);
+}
+
+function parsePositive(value: string | undefined): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n <= 0) {
+    fail();
+  }
+  return n;
+}
+
+async function main() {
+  const [command, ...argv] = process.argv.slice(2);
+  const pool = createPool();
+  const store = new PostgresApiKeyStore(pool);
+
+  try {
+    switch (command) {
+      case 'issue': {
+        let name = '';
+        let scopes = '';
+        let tenantId: string | null = null;
+        let rateLimitPerMinute: number | undefined;
+        let rateLimitBurst: number | undefined;
+        for (let i = 0; i < argv.length; i++) {
+          switch (argv[i]) {
+            case '--name': name = argv[++i] || ''; break;
+            case '--scopes': scopes = argv[++i] || ''; break;
+            case '--tenant': tenantId = parseTenantId(argv[++i]); break;
+            case '--rate-limit': rateLimitPerMinute = parsePositive(argv[++i]); break;
+            case '--burst': rateLimitBurst = parsePositive(argv[++i]); break;
+            default: fail();
+          }
+        }
+        const { apiKey, key } = await issueApiKey(store, {
+          name,
+          scopes: parseScopes(scopes),
+          tenantId,
+          rateLimitPerMinute,
+          rateLimitBurst
+        });
+        const tenant = apiKey.tenantId ? ` for tenant ${apiKey.tenantId}` : '';
+        console.log(`Issued key #${apiKey.id} "${apiKey.name}"${tenant} with scopes ${apiKey.scopes.join(', ')}.`);
+        console.log('Store it now; it will not be shown again:');
+        console.log(key);
+        break;
+      }
+      case 'revoke': {
+        const id = parsePositive(argv[0]);
+        if (await store.revoke(id)) {
+          console.log(`Revoked key #${id}.`);
+        } else {
+          console.error(`No active key #${id}.`);
+          process.exitCode = 1;
+        }
+        break;
+      }
+      case 'list': {
+        for (const key of await store.list()) {
+          const status = key.revokedAt ? `revoked ${key.revokedAt.toISOString()}` : 'active';
+          const lastUsed = key.lastUsedAt ? key.lastUsedAt.toISOString() : 'never';
+          const tenant = key.tenantId || 'any tenant';
+          console.log(`#${key.id}\tbik_${key.prefix}_…\t${key.name}\t${tenant}\t${key.scopes.join(',')}\t${status}\tlast used ${lastUsed}`);
+        }
+        break;
+      }
+      default:
+        fail();
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      console.error(error.message);
+    } else {
+      console.error('API key command failed:', error);
+    }
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
@@ -0,0 +1,23 @@
+import dotenv from 'dotenv';
+import { createPool } from '../db';
+import { backfillCanonicalIdentifiers } from '../backfill';
+
+// Load environment variables
+dotenv.config();
+
+// Re-canonicalize existing contacts and merge clusters that now collide.
+// Uses the same EMAIL_PROVIDER_RULES / PHONE_DEFAULT_REGION as the server.
+async function main() {
+  const pool = createPool();
+  try {
+    const result = await backfillCanonicalIdentifiers(pool);
+    console.log(`Scanned ${result.scanned} contact(s), updated ${result.updated}, merged ${result.merged} primary contact(s), proposed ${result.proposed} merge(s) for review.`);
+  } catch (error) {
+    console.error('Backfill failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
@@ -0,0 +1,88 @@
+import dotenv from 'dotenv';
+import { createPool } from '../db';
+import { checkConsistency, ConsistencyOptions, DEFAULT_CONSISTENCY_OPTIONS } from '../consistency';
+import { PostgresContactStore } from '../store/postgresContactStore';
+import { parseTenantId } from '../tenant';
+
+// Load environment variables
+dotenv.config();
+
+const usage = `Usage: npm run consistency -- [--fix] [--tenant ID] [--page-size N] [--batch-size N]
+
+Scans the contacts of one tenant, or of every tenant, for broken links
+(linked primaries, unlinked secondaries, dangling links, secondary chains,
+cycles) and for identifiers shared by separate clusters, and prints each
+issue with the contact ids involved. --fix then consolidates every affected
+cluster under its oldest primary, --batch-size clusters per transaction, and
+prints each link it changed. Changes are recorded in contact_events with
+source "repair". Exits with 2 if issues were found and not fixed.`;
+
+interface ConsistencyArgs extends ConsistencyOptions {
+  tenantId: string | null;
+}
+
+function parseArgs(argv: string[]): ConsistencyArgs {
+  const args: ConsistencyArgs = { ...DEFAULT_CONSISTENCY_OPTIONS, tenantId: null };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--fix': args.fix = true; break;
+      case '--tenant': args.tenantId = argv[++i]; break;
+      case '--page-size': args.pageSize = parseInt(argv[++i], 10); break;
+      case '--batch-size': args.batchSize = parseInt(argv[++i], 10); break;
+      default:
+        console.error(usage);
+        process.exit(1);
+    }
+  }
+  if (!(args.pageSize > 0) || !(args.batchSize > 0)) {
+    console.error(usage);
+    process.exit(1);
+  }
+  try {
+    args.tenantId = args.tenantId === null ? null : parseTenantId(args.tenantId);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+  return args;
+}
+
+const describeLink = ({ linkPrecedence, linkedId }: { linkPrecedence: string; linkedId: number | null }) =>
+  linkedId === null ? linkPrecedence : `${linkPrecedence} of ${linkedId}`;
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const pool = createPool();
+  const store = new PostgresContactStore(pool);
+
+  try {
+    const tenantIds = args.tenantId ? [args.tenantId] : (await store.listTenants()).map(t => t.tenantId);
+    let unfixed = 0;
+    for (const tenantId of tenantIds) {
+      const report = await checkConsistency(store.forTenant(tenantId), args);
+      for (const issue of report.issues) {
+        console.log(`[${tenantId}] ${issue.kind}: ${issue.message} (contacts ${issue.contactIds.join(', ')})`);
+      }
+      for (const cluster of report.repaired) {
+        for (const change of cluster.changes) {
+          console.log(`[${tenantId}] repaired: contact ${change.contactId} ${describeLink(change.before)} -> ${describeLink(change.after)}`);
+        }
+      }
+      console.log(`[${tenantId}] Scanned ${report.scanned} contact(s), found ${report.issues.length} issue(s)` +
+        (args.fix ? `, repaired ${report.repaired.length} cluster(s).` : '.'));
+      if (!args.fix) {
+        unfixed += report.issues.length;
+      }
+    }
+    if (unfixed > 0) {
+      process.exitCode = 2;
+    }
+  } catch (error) {
+    console.error('Consistency check failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
@@ -0,0 +1,76 @@
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { createPool } from '../db';
+import { ExportFormat, exportWatermark, writeExport } from '../export';
+import { PostgresContactStore } from '../store/postgresContactStore';
+import { DEFAULT_TENANT, parseTenantId } from '../tenant';
+
+// Load environment variables
+dotenv.config();
+
+const usage = `Usage: npm run export -- [--format ndjson|csv] [--since ISO_DATE] [--out FILE] [--tenant ID]
+
+Writes one consolidated cluster per line (the shape of an /identify
+response's "contact") of one tenant (default: ${DEFAULT_TENANT}) to FILE, or
+to stdout. --since exports only clusters changed after that time, followed
+by one record for each cluster merged away or deleted since then. The
+watermark to pass as --since next time is printed to stderr when the export
+finishes.`;
+
+interface ExportArgs {
+  format: ExportFormat;
+  since?: Date;
+  out: string | null;
+  tenantId: string;
+}
+
+function parseArgs(argv: string[]): ExportArgs {
+  const args: ExportArgs = { format: 'ndjson', out: null, tenantId: DEFAULT_TENANT };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--format': args.format = argv[++i] as ExportFormat; break;
+      case '--since': args.since = new Date(argv[++i]); break;
+      case '--out': args.out = argv[++i]; break;
+      case '--tenant': args.tenantId = argv[++i]; break;
+      default:
+        console.error(usage);
+        process.exit(1);
+    }
+  }
+  if ((args.format !== 'ndjson' && args.format !== 'csv') || (args.since && isNaN(args.since.getTime()))) {
+    console.error(usage);
+    process.exit(1);
+  }
+  try {
+    args.tenantId = parseTenantId(args.tenantId);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const pool = createPool();
+  const out = args.out ? fs.createWriteStream(args.out) : process.stdout;
+
+  try {
+    const store = new PostgresContactStore(pool).forTenant(args.tenantId);
+    // Taken before reading anything; see exportWatermark
+    const watermark = await exportWatermark(store);
+    const written = await writeExport(store, out, { format: args.format, changedSince: args.since });
+    if (args.out) {
+      await new Promise(resolve => (out as fs.WriteStream).end(resolve));
+    }
+    console.error(`Exported ${written.clusters} cluster(s) and ${written.removed} removed cluster(s). ` +
+      `Next watermark: ${watermark.toISOString()}`);
+  } catch (error) {
+    console.error('Export failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
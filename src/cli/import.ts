@@ -0,0 +1,132 @@
+import dotenv from 'dotenv';
+import { createPool } from '../db';
+import { ImportFormat, ImportOptions, ImportStats, formatFromPath, importFile } from '../importer';
+import { ContactStore } from '../store/contactStore';
+import { PostgresContactStore } from '../store/postgresContactStore';
+import { InMemoryContactStore } from '../store/memoryContactStore';
+import { DEFAULT_TENANT, parseTenantId } from '../tenant';
+import { identifierType } from '../identifiers';
+
+// Load environment variables
+dotenv.config();
+
+const usage = `Usage: npm run import -- <file> [options]
+
+Streams a CSV (with a header row) or NDJSON file through the same rules as
+POST /identify, in file order.
+
+  --format csv|ndjson   Input format (default: from the file extension)
+  --email-field NAME    Column or key holding the email (default: email)
+  --phone-field NAME    Column or key holding the phone number (default: phoneNumber)
+  --identifier TYPE=NAME
+                        Column or key holding another registered identifier
+                        type; repeat for each type, e.g. loyaltyId=loyalty_no
+                        NDJSON keys may be dotted paths, e.g. customer.email
+  --dry-run             Process the whole file in one transaction, roll it
+                        back and report what would have changed; rejects
+                        are counted, not written
+  --chunk-size N        Records committed per transaction (default: 500)
+  --checkpoint PATH     Progress file used to resume (default: <file>.checkpoint)
+  --no-checkpoint       Do not save or resume progress
+  --rejects PATH        Invalid records as NDJSON (default: <file>.rejects.ndjson)
+  --tenant ID           Tenant to import into (default: ${DEFAULT_TENANT})
+  --memory              Use the in-memory store instead of the database
+
+A run that stops part way resumes from its checkpoint when started again with
+the same file. Delete the checkpoint to start over.`;
+
+function parseArgs(argv: string[]): { path: string; options: ImportOptions; tenantId: string; memory: boolean } {
+  let path: string | null = null;
+  let tenantId = DEFAULT_TENANT;
+  let format: ImportFormat | null = null;
+  let checkpointPath: string | null | undefined;
+  let rejectsPath: string | undefined;
+  let memory = false;
+  const identifierFields: Record<string, string> = {};
+  const options = { emailField: 'email', phoneField: 'phoneNumber', identifierFields, dryRun: false, chunkSize: 500 };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--format': format = argv[++i] as ImportFormat; break;
+      case '--email-field': options.emailField = argv[++i]; break;
+      case '--phone-field': options.phoneField = argv[++i]; break;
+      case '--identifier': {
+        const [type, field] = (argv[++i] || '').split('=');
+        if (!type || !field) {
+          console.log(usage);
+          process.exit(1);
+        }
+        identifierFields[type] = field;
+        break;
+      }
+      case '--dry-run': options.dryRun = true; break;
+      case '--chunk-size': options.chunkSize = parseInt(argv[++i], 10); break;
+      case '--checkpoint': checkpointPath = argv[++i]; break;
+      case '--no-checkpoint': checkpointPath = null; break;
+      case '--rejects': rejectsPath = argv[++i]; break;
+      case '--tenant': tenantId = argv[++i]; break;
+      case '--memory': memory = true; break;
+      default:
+        if (argv[i].startsWith('--') || path !== null) {
+          console.log(usage);
+          process.exit(1);
+        }
+        path = argv[i];
+    }
+  }
+
+  format = format || (path ? formatFromPath(path) : null);
+  try {
+    tenantId = parseTenantId(tenantId);
+    Object.keys(identifierFields).forEach(type => identifierType(type));
+  } catch (error) {
+    console.log((error as Error).message);
+    process.exit(1);
+  }
+  if (!path || (format !== 'csv' && format !== 'ndjson') || !(options.chunkSize > 0)) {
+    console.log(usage);
+    process.exit(1);
+  }
+
+  return {
+    path,
+    tenantId,
+    memory,
+    options: {
+      ...options,
+      format,
+      checkpointPath: checkpointPath === undefined ? `${path}.checkpoint` : checkpointPath,
+      rejectsPath: rejectsPath || `${path}.rejects.ndjson`
+    }
+  };
+}
+
+function summary(stats: ImportStats): string {
+  return `${stats.read} read, ${stats.imported} imported, ${stats.rejected} rejected; ` +
+    `${stats.primariesCreated} new primaries, ${stats.secondariesCreated} new secondaries, ` +
+    `${stats.primariesMerged} primaries merged`;
+}
+
+async function main() {
+  const { path, options, tenantId, memory } = parseArgs(process.argv.slice(2));
+  const pool = memory ? null : createPool();
+  const store: ContactStore = (pool ? new PostgresContactStore(pool) : new InMemoryContactStore()).forTenant(tenantId);
+
+  try {
+    const stats = await importFile(store, path, options, progress => console.log(`... ${summary(progress)}`));
+    console.log(`${options.dryRun ? 'Dry run (nothing committed)' : 'Import complete'}: ${summary(stats)}`);
+    if (stats.rejected > 0 && !options.dryRun) {
+      console.log(`Rejected records written to ${options.rejectsPath}`);
+    }
+  } catch (error) {
+    console.error('Import failed:', error);
+    if (!options.dryRun && options.checkpointPath) {
+      console.error(`Run the same command again to resume from ${options.checkpointPath}`);
+    }
+    process.exitCode = 1;
+  } finally {
+    await pool?.end();
+  }
+}
+
+main();
@@ -0,0 +1,52 @@
+import dotenv from 'dotenv';
+import { createPool } from '../db';
+import { Migrator } from '../migrator';
+
+// Load environment variables
+dotenv.config();
+
+const usage = `Usage: npm run migrate -- <command>
+
+Commands:
+  up [version]     Apply pending migrations (up to version, if given)
+  down [steps]     Roll back the last applied migration(s) (default: 1)
+  status           List migrations and whether they are applied`;
+
+async function main() {
+  const [command = 'up', arg] = process.argv.slice(2);
+  const pool = createPool();
+  const migrator = new Migrator(pool);
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await migrator.migrate(arg ? parseInt(arg, 10) : undefined);
+        console.log(applied.length ? `Applied ${applied.length} migration(s).` : 'Schema is up to date.');
+        break;
+      }
+      case 'down': {
+        const reverted = await migrator.rollback(arg ? parseInt(arg, 10) : 1);
+        console.log(reverted.length ? `Rolled back ${reverted.length} migration(s).` : 'Nothing to roll back.');
+        break;
+      }
+      case 'status': {
+        const status = await migrator.status();
+        for (const m of status) {
+          const state = m.appliedAt ? `applied ${m.appliedAt.toISOString()}` : 'pending';
+          console.log(`${String(m.version).padStart(3, '0')} ${m.name.padEnd(30)} ${state}`);
+        }
+        break;
+      }
+      default:
+        console.log(usage);
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
@@ -0,0 +1,31 @@
+import dotenv from 'dotenv';
+import { createPool } from '../db';
+import { PostgresContactStore } from '../store/postgresContactStore';
+import { purgeDeletedContacts, retentionDaysFromEnv } from '../purge';
+
+// Load environment variables
+dotenv.config();
+
+// Hard-delete contacts soft-deleted longer ago than the retention period.
+// Usage: npm run purge -- [retentionDays]   (default: CONTACT_RETENTION_DAYS or 30)
+async function main() {
+  const arg = process.argv[2];
+  const retentionDays = arg ? parseInt(arg, 10) : retentionDaysFromEnv();
+  if (isNaN(retentionDays) || retentionDays < 0) {
+    console.error('retentionDays must be a non-negative number');
+    process.exit(1);
+  }
+
+  const pool = createPool();
+  try {
+    const purged = await purgeDeletedContacts(new PostgresContactStore(pool), retentionDays);
+    console.log(`Purged ${purged} contact(s) deleted more than ${retentionDays} day(s) ago.`);
+  } catch (error) {
+    console.error('Purge failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
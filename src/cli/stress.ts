@@ -0,0 +1,165 @@
+import dotenv from 'dotenv';
+import { createPool } from '../db';
+import { identifyContact } from '../identify';
+import { ClusterCache, clusterCacheOptionsFromEnv, MemoryClusterCache } from '../clusterCache';
+import { normalizeEmail, normalizePhoneNumber } from '../normalize';
+import { Contact, IdentifyResponse } from '../types';
+import { ContactStore } from '../store/contactStore';
+import { PostgresContactStore } from '../store/postgresContactStore';
+import { InMemoryContactStore } from '../store/memoryContactStore';
+
+// Load environment variables
+dotenv.config();
+
+const usage = `Usage: npm run stress -- [--requests N] [--concurrency N] [--identifiers N] [--memory] [--cache]
+
+Fires overlapping /identify calls in parallel against the configured database
+(or the in-memory store with --memory) and checks that every resulting
+cluster has exactly one primary. --cache answers repeat requests from a
+cluster cache, as the server does with CLUSTER_CACHE_ENABLED=true. Exits
+non-zero on any violation.`;
+
+interface StressOptions {
+  requests: number;
+  concurrency: number;
+  identifiers: number;
+  memory: boolean;
+  cache: boolean;
+}
+
+function parseArgs(argv: string[]): StressOptions {
+  const options: StressOptions = { requests: 500, concurrency: 25, identifiers: 20, memory: false, cache: false };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--requests': options.requests = parseInt(argv[++i], 10); break;
+      case '--concurrency': options.concurrency = parseInt(argv[++i], 10); break;
+      case '--identifiers': options.identifiers = parseInt(argv[++i], 10); break;
+      case '--memory': options.memory = true; break;
+      case '--cache': options.cache = true; break;
+      default:
+        console.log(usage);
+        process.exit(1);
+    }
+  }
+  return options;
+}
+
+// Tag identifiers with the run so repeated runs never see each other's rows
+const run = Date.now().toString(36);
+const emailFor = (n: number) => `user${n}@stress-${run}.test`;
+const phoneFor = (n: number) => `+1 555 ${run}-${n}`;
+const pick = (max: number) => Math.floor(Math.random() * max);
+
+// Group contacts into clusters by shared identifiers and links, and report
+// every cluster that does not have exactly one primary
+function findViolations(contacts: Contact[], responses: IdentifyResponse[]): string[] {
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    while (parent.has(key) && parent.get(key) !== key) {
+      key = parent.get(key)!;
+    }
+    return key;
+  };
+  const union = (a: string, b: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent.set(rootA, rootB);
+  };
+
+  for (const c of contacts) {
+    const node = `id:${c.id}`;
+    if (c.email) union(node, `email:${c.email}`);
+    if (c.phoneNumber) union(node, `phone:${c.phoneNumber}`);
+    if (c.linkedId !== null) union(node, `id:${c.linkedId}`);
+  }
+
+  const violations: string[] = [];
+  const byId = new Map(contacts.map(c => [c.id, c]));
+  const clusters = new Map<string, Contact[]>();
+  for (const c of contacts) {
+    const root = find(`id:${c.id}`);
+    clusters.set(root, [...(clusters.get(root) || []), c]);
+  }
+
+  for (const members of Array.from(clusters.values())) {
+    const primaries = members.filter(c => c.linkPrecedence === 'primary');
+    if (primaries.length !== 1) {
+      violations.push(`cluster ${members.map(c => c.id).join(',')} has ${primaries.length} primaries`);
+      continue;
+    }
+    for (const c of members) {
+      if (c.linkPrecedence === 'secondary' && c.linkedId !== primaries[0].id) {
+        violations.push(`secondary ${c.id} links to ${c.linkedId}, not primary ${primaries[0].id}`);
+      }
+    }
+  }
+
+  // Everything a response reported together must still be one cluster
+  for (const response of responses) {
+    const ids = [response.contact.primaryContactId, ...response.contact.secondaryContactIds];
+    const roots = new Set(ids.filter(id => byId.has(id)).map(id => find(`id:${id}`)));
+    if (roots.size > 1) {
+      violations.push(`response for primary ${response.contact.primaryContactId} spans ${roots.size} clusters`);
+    }
+  }
+
+  return violations;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const pool = options.memory ? null : createPool();
+  const store: ContactStore = pool ? new PostgresContactStore(pool) : new InMemoryContactStore();
+  const cache: ClusterCache | null = options.cache ? new MemoryClusterCache(clusterCacheOptionsFromEnv()) : null;
+
+  const responses: IdentifyResponse[] = [];
+  let failures = 0;
+  let next = 0;
+  const started = Date.now();
+
+  // Each worker issues requests back to back; requests draw from a small
+  // identifier pool so they constantly overlap and merge
+  const worker = async () => {
+    while (next < options.requests) {
+      next++;
+      try {
+        responses.push(await identifyContact(store, {
+          email: emailFor(pick(options.identifiers)),
+          phoneNumber: phoneFor(pick(options.identifiers))
+        }, cache));
+      } catch (error) {
+        failures++;
+        console.error('Request failed:', error);
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: options.concurrency }, worker));
+    const elapsed = Date.now() - started;
+
+    const emails = Array.from({ length: options.identifiers }, (_, n) => normalizeEmail(emailFor(n)));
+    const phones = Array.from({ length: options.identifiers }, (_, n) => normalizePhoneNumber(phoneFor(n)));
+    const contacts = pool
+      ? (await pool.query(`
+          SELECT * FROM contacts WHERE email = ANY($1) OR "phoneNumber" = ANY($2);
+        `, [emails, phones])).rows as Contact[]
+      : (store as InMemoryContactStore).all();
+
+    const violations = findViolations(contacts, responses);
+    console.log(`${options.requests} requests (${failures} failed) in ${elapsed}ms, ${contacts.length} contacts written`);
+
+    if (violations.length > 0 || failures > 0) {
+      violations.forEach(v => console.error(`VIOLATION: ${v}`));
+      process.exitCode = 1;
+    } else {
+      console.log('OK: every cluster has exactly one primary');
+    }
+  } finally {
+    if (pool) {
+      await pool.end();
+    }
+  }
+}
+
+main();
@@ -0,0 +1,82 @@
+import http from 'http';
+import dotenv from 'dotenv';
+import { verifySignature } from '../webhooks';
+
+// Load environment variables
+dotenv.config();
+
+const usage = `Usage: npm run webhook-receiver -- [--port N] [--secret S] [--fail-rate R]
+
+Listens for webhook deliveries and prints each one with the result of the
+signature check. Register http://localhost:<port>/ as a subscriber with the
+same secret (or WEBHOOK_RECEIVER_SECRET). --fail-rate answers that fraction
+of requests (0-1) with a 500 to exercise retries and dead-lettering.`;
+
+interface ReceiverOptions {
+  port: number;
+  secret: string | null;
+  failRate: number;
+}
+
+function parseArgs(argv: string[]): ReceiverOptions {
+  const options: ReceiverOptions = {
+    port: 4000,
+    secret: process.env.WEBHOOK_RECEIVER_SECRET || null,
+    failRate: 0
+  };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--port': options.port = parseInt(argv[++i], 10); break;
+      case '--secret': options.secret = argv[++i]; break;
+      case '--fail-rate': options.failRate = parseFloat(argv[++i]); break;
+      default:
+        console.log(usage);
+        process.exit(1);
+    }
+  }
+  return options;
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf8');
+      const header = (name: string) => String(req.headers[name] || '');
+
+      let signature = 'not checked (no secret)';
+      if (options.secret) {
+        const valid = verifySignature(
+          options.secret,
+          parseInt(header('webhook-timestamp'), 10),
+          body,
+          header('webhook-signature')
+        );
+        signature = valid ? 'valid' : 'INVALID';
+      }
+
+      const fail = Math.random() < options.failRate;
+      console.log(`${new Date().toISOString()} ${header('webhook-event')} delivery=${header('webhook-id')} signature=${signature}${fail ? ' -> 500' : ''}`);
+      try {
+        console.log(JSON.stringify(JSON.parse(body), null, 2));
+      } catch {
+        console.log(body);
+      }
+
+      if (signature === 'INVALID') {
+        res.writeHead(401).end();
+      } else {
+        res.writeHead(fail ? 500 : 204).end();
+      }
+    });
+  });
+
+  server.listen(options.port, () => {
+    console.log(`Webhook receiver listening on http://localhost:${options.port}/`);
+  });
+}
+
+main();
@@ -0,0 +1,207 @@
+import {
+  Contact,
+  ContactEventInput,
+  ContactEventSource,
+  ContactEventType,
+  Identifier,
+  IdentifyResponse,
+  MergeBlock,
+  OutboxEventInput,
+  OutboxEventType
+} from './types';
+import { ContactStore } from './store/contactStore';
+import { identifiersOf } from './identifiers';
+
+// Helpers shared by identify, lookups and admin operations for working with
+// clusters: a primary contact and every contact linked to it.
+
+// What triggered a change, recorded on every event it causes
+export interface AuditContext {
+  source: ContactEventSource;
+  requestEmail?: string | null;
+  requestPhoneNumber?: string | null;
+  requestIdentifiers?: Record<string, string> | null;
+}
+
+type LinkState = Pick<Contact, 'linkedId' | 'linkPrecedence'>;
+
+// Build a contact_events entry for a change to one contact. before is null
+// for a contact that did not exist yet.
+export function contactEvent(
+  contactId: number,
+  type: ContactEventType,
+  before: LinkState | null,
+  after: LinkState,
+  audit: AuditContext
+): ContactEventInput {
+  return {
+    contactId,
+    type,
+    source: audit.source,
+    requestEmail: audit.requestEmail ?? null,
+    requestPhoneNumber: audit.requestPhoneNumber ?? null,
+    requestIdentifiers: audit.requestIdentifiers ?? null,
+    previousLinkedId: before ? before.linkedId : null,
+    previousLinkPrecedence: before ? before.linkPrecedence : null,
+    linkedId: after.linkedId,
+    linkPrecedence: after.linkPrecedence
+  };
+}
+
+// Build a webhook outbox entry announcing a change to a cluster. The payload
+// carries the consolidated view of the cluster as of the change.
+export function clusterOutboxEvent(
+  type: OutboxEventType,
+  primary: Contact,
+  secondaries: Contact[],
+  details: Record<string, unknown>,
+  audit: AuditContext
+): OutboxEventInput {
+  return {
+    type,
+    contactIds: [primary.id, ...secondaries.map(c => c.id)],
+    payload: { ...details, source: audit.source, ...buildResponse(primary, secondaries) }
+  };
+}
+
+export const identifierKey = (identifier: Identifier) => `${identifier.type}:${identifier.value}`;
+
+// Distinct identifiers held by a set of contacts
+export function contactIdentifiers(contacts: Contact[]): Identifier[] {
+  const identifiers = new Map<string, Identifier>();
+  for (const contact of contacts) {
+    for (const identifier of identifiersOf(contact)) {
+      identifiers.set(identifierKey(identifier), identifier);
+    }
+  }
+  return Array.from(identifiers.values());
+}
+
+// Split contacts into clusters connected by linkedId. Each cluster keeps the
+// input order, and clusters are ordered by their primary, oldest first.
+export function groupClusters(contacts: Contact[]): Contact[][] {
+  const parent = new Map<number, number>();
+  const find = (id: number): number => {
+    while (parent.has(id) && parent.get(id) !== id) {
+      id = parent.get(id)!;
+    }
+    return id;
+  };
+  const ids = new Set(contacts.map(c => c.id));
+  for (const contact of contacts) {
+    if (contact.linkedId !== null && ids.has(contact.linkedId)) {
+      const a = find(contact.id);
+      const b = find(contact.linkedId);
+      if (a !== b) parent.set(a, b);
+    }
+  }
+
+  const clusters = new Map<number, Contact[]>();
+  for (const contact of contacts) {
+    const root = find(contact.id);
+    clusters.set(root, [...(clusters.get(root) || []), contact]);
+  }
+
+  const age = (cluster: Contact[]) => {
+    const primary = choosePrimary(cluster);
+    return [new Date(primary.createdAt).getTime(), primary.id];
+  };
+  return Array.from(clusters.values()).sort((a, b) => {
+    const [ageA, idA] = age(a);
+    const [ageB, idB] = age(b);
+    return ageA - ageB || idA - idB;
+  });
+}
+
+// Whether any identifier in one set is blocked from merging with one in the other
+export function isMergeBlocked(a: Identifier[], b: Identifier[], blocks: MergeBlock[]): boolean {
+  const keysA = new Set(a.map(identifierKey));
+  const keysB = new Set(b.map(identifierKey));
+  return blocks.some(block => {
+    const first = identifierKey(block.first);
+    const second = identifierKey(block.second);
+    return (keysA.has(first) && keysB.has(second)) || (keysA.has(second) && keysB.has(first));
+  });
+}
+
+// The contact that should lead a cluster: its oldest primary, or its oldest
+// member if no primary is left. Expects contacts sorted oldest first.
+export function choosePrimary(cluster: Contact[]): Contact {
+  return cluster.find(c => c.linkPrecedence === 'primary') || cluster[0];
+}
+
+// Make the chosen primary the only primary of the cluster and point every
+// other member straight at it, demoting other primaries and flattening
+// secondary-of-secondary chains. Only rows that are out of place are written,
+// and each write is recorded in contact_events. Demoting another primary is a
+// merge and is also announced through the webhook outbox. promotedAs names
+// the event for a secondary that has to become the primary.
+export async function consolidateCluster(
+  tx: ContactStore,
+  cluster: Contact[],
+  audit: AuditContext,
+  promotedAs: ContactEventType = 'promoted'
+): Promise<{ primary: Contact; secondaries: Contact[]; mergedPrimaryContactIds: number[] }> {
+  const primary = choosePrimary(cluster);
+  const events: ContactEventInput[] = [];
+
+  if (primary.linkPrecedence !== 'primary' || primary.linkedId !== null) {
+    await tx.promote(primary.id);
+    events.push(contactEvent(primary.id, promotedAs, primary, { linkedId: null, linkPrecedence: 'primary' }, audit));
+    primary.linkPrecedence = 'primary';
+    primary.linkedId = null;
+  }
+
+  const secondaries = cluster.filter(c => c.id !== primary.id);
+  for (const contact of secondaries) {
+    if (contact.linkPrecedence !== 'secondary' || contact.linkedId !== primary.id) {
+      // Convert other primaries to secondary and link them to the oldest primary
+      await tx.demote(contact.id, primary.id);
+      const type = contact.linkPrecedence === 'primary' ? 'demoted' : 'relinked';
+      events.push(contactEvent(contact.id, type, contact, { linkedId: primary.id, linkPrecedence: 'secondary' }, audit));
+      contact.linkPrecedence = 'secondary';
+      contact.linkedId = primary.id;
+    }
+  }
+
+  await tx.recordEvents(events);
+
+  const mergedPrimaryContactIds = events.filter(e => e.type === 'demoted').map(e => e.contactId);
+  if (mergedPrimaryContactIds.length > 0) {
+    await tx.appendOutbox([
+      clusterOutboxEvent('contact.merged', primary, secondaries, { mergedPrimaryContactIds }, audit)
+    ]);
+  }
+  return { primary, secondaries, mergedPrimaryContactIds };
+}
+
+// Consolidated view of a cluster without writing anything
+export function describeCluster(cluster: Contact[]): IdentifyResponse {
+  const primary = choosePrimary(cluster);
+  return buildResponse(primary, cluster.filter(c => c.id !== primary.id));
+}
+
+// Format the consolidated view of a primary and its secondaries
+export function buildResponse(primaryContact: Contact, secondaryContacts: Contact[]): IdentifyResponse {
+  // Collect the unique values of each identifier type. The primary comes
+  // first, so its values lead each list.
+  const identifiers: Record<string, string[]> = {};
+  for (const contact of [primaryContact, ...secondaryContacts]) {
+    for (const { type, value } of identifiersOf(contact)) {
+      const values = identifiers[type] || (identifiers[type] = []);
+      if (!values.includes(value)) {
+        values.push(value);
+      }
+    }
+  }
+
+  return {
+    contact: {
+      primaryContactId: primaryContact.id,
+      emails: (identifiers.email || []).slice(),
+      phoneNumbers: (identifiers.phoneNumber || []).slice(),
+      secondaryContactIds: secondaryContacts.map((c: Contact) => c.id),
+      identifiers
+    }
+  };
+}
@@ -0,0 +1,211 @@
+import { Contact } from './types';
+
+export interface ClusterCacheOptions {
+  enabled: boolean;
+  // How long an identifier may resolve from the cache, in milliseconds
+  ttlMs: number;
+  // Clusters kept; the least recently used are dropped first
+  maxEntries: number;
+}
+
+export const DEFAULT_CLUSTER_CACHE_OPTIONS: ClusterCacheOptions = { enabled: false, ttlMs: 30000, maxEntries: 10000 };
+
+// Anything but a positive integer falls back to the default; a NaN TTL would
+// never expire an entry
+function positiveFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name] || fallback);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+// The cache is opt-in: only this process's writes invalidate it, so it is only
+// safe when this process is the only writer (no other instances, importer,
+// backfill or purge runs)
+export function clusterCacheOptionsFromEnv(): ClusterCacheOptions {
+  return {
+    enabled: process.env.CLUSTER_CACHE_ENABLED === 'true',
+    ttlMs: positiveFromEnv('CLUSTER_CACHE_TTL_MS', DEFAULT_CLUSTER_CACHE_OPTIONS.ttlMs),
+    maxEntries: positiveFromEnv('CLUSTER_CACHE_MAX_ENTRIES', DEFAULT_CLUSTER_CACHE_OPTIONS.maxEntries)
+  };
+}
+
+// A cluster as identify resolved it
+export interface CachedCluster {
+  primary: Contact;
+  secondaries: Contact[];
+}
+
+export interface ClusterCacheStats {
+  hits: number;
+  misses: number;
+  // Clusters currently cached
+  entries: number;
+  // Clusters dropped to stay within maxEntries
+  evictions: number;
+  // Clusters dropped because identify or an admin changed them
+  invalidations: number;
+}
+
+// Resolved clusters by identifier key (see identifierKey), per tenant. Every
+// method is async so a shared backend can stand in for the in-process one.
+export interface ClusterCache {
+  // Token to pass to set, taken before the cluster is read from the store
+  generation(tenantId: string): Promise<number>;
+  // The cluster every key resolves to, or null unless all of them resolve to the same one
+  get(tenantId: string, keys: string[]): Promise<CachedCluster | null>;
+  // Resolve keys to cluster, unless the tenant's clusters were invalidated since generation was taken
+  set(tenantId: string, keys: string[], cluster: CachedCluster, generation: number): Promise<void>;
+  // Drop the clusters led by any of primaryContactIds
+  invalidate(tenantId: string, primaryContactIds: number[]): Promise<void>;
+  // Drop every cluster of the tenant
+  clear(tenantId: string): Promise<void>;
+  stats(): Promise<ClusterCacheStats>;
+}
+
+interface Entry {
+  tenantId: string;
+  cluster: CachedCluster;
+  // Index keys resolving to this entry
+  keys: Set<string>;
+}
+
+interface IndexedKey {
+  entry: string;
+  expiresAt: number;
+}
+
+// The cluster cache of one server process. Instances do not see each other's
+// writes, so a change made elsewhere shows up once the TTL runs out.
+export class MemoryClusterCache implements ClusterCache {
+  // By tenant and primary id, least recently used first
+  private readonly entries = new Map<string, Entry>();
+  // By tenant and identifier key
+  private readonly index = new Map<string, IndexedKey>();
+  private readonly generations = new Map<string, number>();
+  private readonly counts = { hits: 0, misses: 0, evictions: 0, invalidations: 0 };
+
+  constructor(
+    private readonly options: Pick<ClusterCacheOptions, 'ttlMs' | 'maxEntries'>,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async generation(tenantId: string): Promise<number> {
+    return this.generations.get(tenantId) ?? 0;
+  }
+
+  async get(tenantId: string, keys: string[]): Promise<CachedCluster | null> {
+    const now = this.now();
+    let found: string | null = null;
+    for (const key of keys) {
+      const indexed = this.index.get(indexKey(tenantId, key));
+      if (indexed && indexed.expiresAt <= now) {
+        this.expire(indexKey(tenantId, key), indexed);
+      }
+      if (!indexed || indexed.expiresAt <= now || (found !== null && indexed.entry !== found)) {
+        this.counts.misses++;
+        return null;
+      }
+      found = indexed.entry;
+    }
+
+    const entry = found === null ? undefined : this.entries.get(found);
+    if (!entry) {
+      this.counts.misses++;
+      return null;
+    }
+    // Move to the back of the eviction order
+    this.entries.delete(found!);
+    this.entries.set(found!, entry);
+    this.counts.hits++;
+    return { primary: entry.cluster.primary, secondaries: [...entry.cluster.secondaries] };
+  }
+
+  async set(tenantId: string, keys: string[], cluster: CachedCluster, generation: number): Promise<void> {
+    if (generation !== (await this.generation(tenantId)) || this.options.maxEntries <= 0) {
+      return;
+    }
+
+    const id = entryKey(tenantId, cluster.primary.id);
+    const entry = this.entries.get(id) || { tenantId, cluster, keys: new Set<string>() };
+    // The newer read of the cluster replaces the older one
+    entry.cluster = { primary: cluster.primary, secondaries: [...cluster.secondaries] };
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+
+    const expiresAt = this.now() + this.options.ttlMs;
+    for (const key of keys.map(k => indexKey(tenantId, k))) {
+      const previous = this.index.get(key);
+      if (previous && previous.entry !== id) {
+        this.entries.get(previous.entry)?.keys.delete(key);
+      }
+      entry.keys.add(key);
+      this.index.set(key, { entry: id, expiresAt });
+    }
+
+    while (this.entries.size > this.options.maxEntries) {
+      this.remove(this.entries.keys().next().value!);
+      this.counts.evictions++;
+    }
+  }
+
+  async invalidate(tenantId: string, primaryContactIds: number[]): Promise<void> {
+    this.bump(tenantId);
+    for (const primaryId of primaryContactIds) {
+      if (this.remove(entryKey(tenantId, primaryId))) {
+        this.counts.invalidations++;
+      }
+    }
+  }
+
+  async clear(tenantId: string): Promise<void> {
+    this.bump(tenantId);
+    for (const [id, entry] of Array.from(this.entries)) {
+      if (entry.tenantId === tenantId) {
+        this.remove(id);
+        this.counts.invalidations++;
+      }
+    }
+  }
+
+  async stats(): Promise<ClusterCacheStats> {
+    return { ...this.counts, entries: this.entries.size };
+  }
+
+  // Sets started before this drop what they read
+  private bump(tenantId: string) {
+    this.generations.set(tenantId, (this.generations.get(tenantId) ?? 0) + 1);
+  }
+
+  // Drop an expired key, and its cluster once no key resolves to it
+  private expire(key: string, indexed: IndexedKey) {
+    this.index.delete(key);
+    const entry = this.entries.get(indexed.entry);
+    entry?.keys.delete(key);
+    if (entry && entry.keys.size === 0) {
+      this.entries.delete(indexed.entry);
+    }
+  }
+
+  private remove(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return false;
+    }
+    this.entries.delete(id);
+    // A key later resolved to another cluster stays with it
+    entry.keys.forEach(key => {
+      if (this.index.get(key)?.entry === id) {
+        this.index.delete(key);
+      }
+    });
+    return true;
+  }
+}
+
+// Tenant ids cannot contain a space, so neither key can collide across tenants
+const entryKey = (tenantId: string, primaryId: number) => `${tenantId} ${primaryId}`;
+const indexKey = (tenantId: string, key: string) => `${tenantId} ${key}`;
+
+// The configured cache, or null unless CLUSTER_CACHE_ENABLED=true
+export function createClusterCache(options = clusterCacheOptionsFromEnv()): ClusterCache | null {
+  return options.enabled ? new MemoryClusterCache(options) : null;
+}
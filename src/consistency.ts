@@ -0,0 +1,295 @@
+import { Contact, Identifier, MergeBlock } from './types';
+import { ContactStore } from './store/contactStore';
+import { identifiersOf } from './identifiers';
+import { consolidateCluster, identifierKey, isMergeBlocked } from './cluster';
+import { withRetry } from './retry';
+
+// Checks the contacts of one tenant against the invariants identifyContact
+// relies on, and optionally repairs what it finds. A healthy cluster is one
+// primary with a null linkedId and secondaries linked straight to it, and no
+// identifier is held by two clusters unless a merge block keeps them apart.
+
+export type ConsistencyIssueKind =
+  | 'primary_linked'     // a primary with a linkedId
+  | 'secondary_unlinked' // a secondary without a linkedId
+  | 'dangling_link'      // linkedId names no live contact of the tenant
+  | 'secondary_chain'    // a secondary linked to another secondary
+  | 'link_cycle'         // following linkedId leads back to where it started
+  | 'shared_identifier'; // separate clusters hold an identifier and no merge block keeps them apart
+
+export interface ConsistencyIssue {
+  kind: ConsistencyIssueKind;
+  // Rows involved, the offending row first
+  contactIds: number[];
+  message: string;
+  // The identifier held by several clusters, for shared_identifier
+  identifier?: Identifier;
+}
+
+type LinkState = Pick<Contact, 'linkedId' | 'linkPrecedence'>;
+
+export interface LinkChange {
+  contactId: number;
+  before: LinkState;
+  after: LinkState;
+}
+
+// One cluster as a repair left it
+export interface RepairedCluster {
+  primaryContactId: number;
+  contactIds: number[];
+  changes: LinkChange[];
+}
+
+export interface ConsistencyReport {
+  tenantId: string;
+  // Live contacts scanned
+  scanned: number;
+  issues: ConsistencyIssue[];
+  // Clusters a repair rewrote; empty unless fix was set
+  repaired: RepairedCluster[];
+}
+
+export interface ConsistencyOptions {
+  // Repair the clusters with issues, not just report them
+  fix: boolean;
+  // Contacts read per page while scanning
+  pageSize: number;
+  // Clusters repaired per transaction
+  batchSize: number;
+}
+
+export const DEFAULT_CONSISTENCY_OPTIONS: ConsistencyOptions = { fix: false, pageSize: 1000, batchSize: 100 };
+
+// What the scan keeps of each contact
+interface ScannedContact {
+  id: number;
+  linkedId: number | null;
+  linkPrecedence: Contact['linkPrecedence'];
+  identifiers: Identifier[];
+}
+
+// Union-find over contact ids; each set is named by its lowest id
+class Groups {
+  private readonly parent = new Map<number, number>();
+
+  find(id: number): number {
+    let root = id;
+    while (this.parent.has(root) && this.parent.get(root) !== root) {
+      root = this.parent.get(root)!;
+    }
+    this.parent.set(id, root);
+    return root;
+  }
+
+  union(a: number, b: number) {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA < rootB) this.parent.set(rootB, rootA);
+    if (rootB < rootA) this.parent.set(rootA, rootB);
+  }
+}
+
+// Every live contact of the tenant in id order, a page at a time
+async function scan(store: ContactStore, pageSize: number): Promise<ScannedContact[]> {
+  const scanned: ScannedContact[] = [];
+  for (let offset = 0; ; offset += pageSize) {
+    const { contacts } = await store.listContacts({ limit: pageSize, offset });
+    for (const c of contacts) {
+      scanned.push({ id: c.id, linkedId: c.linkedId, linkPrecedence: c.linkPrecedence, identifiers: identifiersOf(c) });
+    }
+    if (contacts.length < pageSize) {
+      return scanned;
+    }
+  }
+}
+
+// Issues with the links of single rows. Links between rows of a cycle are
+// reported with the cycle.
+function linkIssues(contacts: ScannedContact[], byId: Map<number, ScannedContact>, onCycle: Set<number>): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+  for (const c of contacts) {
+    const target = c.linkedId === null ? undefined : byId.get(c.linkedId);
+    if (c.linkPrecedence === 'primary' && c.linkedId !== null) {
+      issues.push({ kind: 'primary_linked', contactIds: [c.id, c.linkedId], message: `Primary ${c.id} links to ${c.linkedId}` });
+    }
+    if (c.linkPrecedence === 'secondary' && c.linkedId === null) {
+      issues.push({ kind: 'secondary_unlinked', contactIds: [c.id], message: `Secondary ${c.id} has no linkedId` });
+    }
+    if (c.linkedId !== null && !target) {
+      issues.push({
+        kind: 'dangling_link',
+        contactIds: [c.id, c.linkedId],
+        message: `Contact ${c.id} links to ${c.linkedId}, which is not a live contact of this tenant`
+      });
+    }
+    if (c.linkPrecedence === 'secondary' && target?.linkPrecedence === 'secondary' && !onCycle.has(c.id)) {
+      issues.push({ kind: 'secondary_chain', contactIds: [c.id, target.id], message: `Secondary ${c.id} links to secondary ${target.id}` });
+    }
+  }
+  return issues;
+}
+
+// Each row has at most one link, so following links from any row either ends
+// or runs into exactly one cycle. Each cycle is reported once, from its lowest id.
+function cycleIssues(contacts: ScannedContact[], byId: Map<number, ScannedContact>): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+  const done = new Set<number>();
+  for (const start of contacts) {
+    const path: number[] = [];
+    const onPath = new Map<number, number>();
+    let current: ScannedContact | undefined = start;
+    while (current && !done.has(current.id) && !onPath.has(current.id)) {
+      onPath.set(current.id, path.length);
+      path.push(current.id);
+      current = current.linkedId === null ? undefined : byId.get(current.linkedId);
+    }
+    if (current && onPath.has(current.id)) {
+      const cycle = path.slice(onPath.get(current.id)!);
+      const lowest = cycle.indexOf(Math.min(...cycle));
+      const ids = [...cycle.slice(lowest), ...cycle.slice(0, lowest)];
+      issues.push({
+        kind: 'link_cycle',
+        contactIds: ids,
+        message: ids.length === 1 ? `Contact ${ids[0]} links to itself` : `Contacts ${ids.join(' -> ')} link in a cycle`
+      });
+    }
+    path.forEach(id => done.add(id));
+  }
+  return issues;
+}
+
+// Identifiers held by more than one linked group. The groups holding one are
+// joined in merges, lowest id first, except a group that a merge block keeps
+// apart from those joined so far, as identify would keep it apart.
+function sharedIdentifierIssues(
+  contacts: ScannedContact[],
+  linked: Groups,
+  merges: Groups,
+  blocks: MergeBlock[]
+): ConsistencyIssue[] {
+  const holders = new Map<string, { identifier: Identifier; contactIds: number[] }>();
+  const groupIdentifiers = new Map<number, Identifier[]>();
+  for (const c of contacts) {
+    const root = linked.find(c.id);
+    const held = groupIdentifiers.get(root) || [];
+    held.push(...c.identifiers);
+    groupIdentifiers.set(root, held);
+    for (const identifier of c.identifiers) {
+      const key = identifierKey(identifier);
+      const entry = holders.get(key) || { identifier, contactIds: [] };
+      entry.contactIds.push(c.id);
+      holders.set(key, entry);
+    }
+  }
+  const merged = new Map<number, Identifier[]>();
+  const identifiersOfMerge = (root: number) => merged.get(merges.find(root)) || groupIdentifiers.get(root)!;
+
+  const issues: ConsistencyIssue[] = [];
+  for (const key of Array.from(holders.keys()).sort()) {
+    const { identifier, contactIds } = holders.get(key)!;
+    const roots = Array.from(new Set(contactIds.map(id => linked.find(id)))).sort((a, b) => a - b);
+    if (roots.length < 2) {
+      continue;
+    }
+
+    const [first, ...rest] = roots;
+    let joined = false;
+    for (const root of rest) {
+      if (merges.find(root) === merges.find(first)) {
+        joined = true;
+      } else if (!isMergeBlocked(identifiersOfMerge(first), identifiersOfMerge(root), blocks)) {
+        const identifiers = [...identifiersOfMerge(first), ...identifiersOfMerge(root)];
+        merges.union(first, root);
+        merged.set(merges.find(first), identifiers);
+        joined = true;
+      }
+    }
+    if (joined) {
+      issues.push({
+        kind: 'shared_identifier',
+        contactIds,
+        identifier,
+        message: `Contacts ${contactIds.join(', ')} hold the same ${identifier.type} but are in separate clusters`
+      });
+    }
+  }
+  return issues;
+}
+
+// Rewrite each set of contacts as one consolidated cluster, a batch of sets
+// per transaction. The sets are re-read under lock, so contacts identify
+// linked to them since the scan are included. The cluster's oldest primary
+// leads it, or its oldest contact if it has no primary, as in identify.
+async function repair(store: ContactStore, sets: number[][], batchSize: number): Promise<RepairedCluster[]> {
+  const repaired: RepairedCluster[] = [];
+  for (let i = 0; i < sets.length; i += batchSize) {
+    const batch = sets.slice(i, i + batchSize);
+    repaired.push(...await withRetry(() => store.transaction(async (tx) => {
+      const done: RepairedCluster[] = [];
+      for (const ids of batch) {
+        await tx.lockContacts(ids);
+        const cluster = await tx.findCluster(ids);
+        if (cluster.length === 0) {
+          continue;
+        }
+
+        const before = new Map(cluster.map(c => [c.id, { linkedId: c.linkedId, linkPrecedence: c.linkPrecedence }]));
+        const { primary } = await consolidateCluster(tx, cluster, { source: 'repair' });
+        const changes = cluster
+          .filter(c => before.get(c.id)!.linkedId !== c.linkedId || before.get(c.id)!.linkPrecedence !== c.linkPrecedence)
+          .map(c => ({ contactId: c.id, before: before.get(c.id)!, after: { linkedId: c.linkedId, linkPrecedence: c.linkPrecedence } }));
+        if (changes.length > 0) {
+          done.push({ primaryContactId: primary.id, contactIds: cluster.map(c => c.id), changes });
+        }
+      }
+      return done;
+    })));
+  }
+  return repaired;
+}
+
+// Scan every live contact of the store's tenant and report each invariant
+// violation. With fix, every cluster involved is then consolidated, and
+// clusters sharing an identifier are merged into the oldest primary. Each
+// change is recorded in contact_events with source "repair".
+export async function checkConsistency(
+  store: ContactStore,
+  options: Partial<ConsistencyOptions> = {}
+): Promise<ConsistencyReport> {
+  const { fix, pageSize, batchSize } = { ...DEFAULT_CONSISTENCY_OPTIONS, ...options };
+  const contacts = await scan(store, pageSize);
+  const byId = new Map(contacts.map(c => [c.id, c]));
+
+  // Rows joined by links, whether or not the links are valid
+  const linked = new Groups();
+  for (const c of contacts) {
+    if (c.linkedId !== null && byId.has(c.linkedId)) {
+      linked.union(c.id, c.linkedId);
+    }
+  }
+
+  const merges = new Groups();
+  const cycles = cycleIssues(contacts, byId);
+  const onCycle = new Set(([] as number[]).concat(...cycles.map(issue => issue.contactIds)));
+  const issues = [
+    ...linkIssues(contacts, byId, onCycle),
+    ...cycles,
+    ...sharedIdentifierIssues(contacts, linked, merges, await store.listMergeBlocks())
+  ].sort((a, b) => a.contactIds[0] - b.contactIds[0]);
+
+  let repaired: RepairedCluster[] = [];
+  if (fix && issues.length > 0) {
+    // One set per cluster to rewrite: linked groups with an issue, joined
+    // with the groups they share identifiers with
+    const sets = new Map<number, number[]>();
+    const involved = new Set(([] as number[]).concat(...issues.map(issue => issue.contactIds)).filter(id => byId.has(id)));
+    for (const id of Array.from(involved)) {
+      const root = merges.find(linked.find(id));
+      sets.set(root, [...(sets.get(root) || []), id]);
+    }
+    repaired = await repair(store, Array.from(sets.keys()).sort((a, b) => a - b).map(root => sets.get(root)!), batchSize);
+  }
+
+  return { tenantId: store.tenantId, scanned: contacts.length, issues, repaired };
+}
@@ -0,0 +1,64 @@
+// Import types from pg
+import type { Pool as PgPool, PoolClient } from 'pg';
+import { logger } from './logger';
+import { currentRequestId } from './requestContext';
+
+// Use require for the actual implementation to avoid TypeScript issues
+const { Pool } = require('pg');
+
+// Tag every query a client runs with the current request id, so slow query
+// logs and pg_stat_activity can be traced back to the request behind them
+function tagQueries(client: PoolClient) {
+  const tagged = client as PoolClient & { requestIdTagged?: boolean };
+  if (tagged.requestIdTagged) {
+    return;
+  }
+  tagged.requestIdTagged = true;
+
+  const query = client.query.bind(client) as (...args: unknown[]) => unknown;
+  (client as { query: unknown }).query = (config: unknown, ...rest: unknown[]) => {
+    const requestId = currentRequestId();
+    if (requestId) {
+      const comment = `/* request_id=${requestId} */ `;
+      if (typeof config === 'string') {
+        config = comment + config;
+      } else if (config && Object.getPrototypeOf(config) === Object.prototype
+        && typeof (config as { text?: unknown }).text === 'string') {
+        // Plain query configs only; cursors and streams keep their own state
+        config = { ...config as object, text: comment + (config as { text: string }).text };
+      }
+    }
+    return query(config, ...rest);
+  };
+}
+
+// Create database connection pool from the environment
+export function createPool(): PgPool {
+  const pool = connect();
+  pool.on('acquire', tagQueries);
+  return pool;
+}
+
+function connect(): PgPool {
+  // Try to use DATABASE_URL if it exists (Render.com provides this)
+  if (process.env.DATABASE_URL) {
+    logger.debug('Using DATABASE_URL for connection');
+    return new Pool({
+      connectionString: process.env.DATABASE_URL,
+      // SSL is required for Render.com PostgreSQL
+      ssl: {
+        rejectUnauthorized: false // Required for Render.com PostgreSQL
+      }
+    });
+  }
+
+  logger.debug('Using individual parameters for connection');
+  // Otherwise use individual connection parameters
+  return new Pool({
+    host: process.env.DB_HOST || 'localhost',
+    port: parseInt(process.env.DB_PORT || '5432'),
+    user: process.env.DB_USERNAME || 'postgres',
+    password: process.env.DB_PASSWORD || 'postgres',
+    database: process.env.DB_NAME || 'bitespeed',
+  });
+}
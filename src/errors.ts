@@ -0,0 +1,72 @@
+// Stable, machine-readable error codes sent with every error response.
+// Clients should match on these; messages may change.
+export const ERROR_CODES = [
+  // The request failed validation; details says which fields and why
+  'invalid_request',
+  // An identify request had no usable email, phone number or other identifier
+  'identifier_required',
+  // The request named an identifier type not registered in IDENTIFIER_TYPES
+  'unknown_identifier_type',
+  'malformed_json',
+  'unsupported_media_type',
+  'payload_too_large',
+  'unauthorized',
+  'forbidden',
+  'rate_limited',
+  'not_found',
+  'conflict',
+  // The contact is the primary of its cluster and cannot be unlinked
+  'primary_contact',
+  // The merge proposal has already been approved or rejected
+  'proposal_resolved',
+  // A merge block keeps the clusters apart
+  'merge_blocked',
+  // Another item of an atomic batch failed, so this one was not committed
+  'batch_aborted',
+  'internal_error'
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+// One failed check, at a JSON pointer into the request body (e.g. /identifiers/loyaltyId)
+export interface ErrorDetail {
+  path: string;
+  message: string;
+}
+
+// Shape of every error response
+export interface ErrorBody {
+  error: string;
+  code: ErrorCode;
+  details?: ErrorDetail[];
+}
+
+export function errorBody(code: ErrorCode, message: string, details?: ErrorDetail[]): ErrorBody {
+  return details && details.length > 0 ? { error: message, code, details } : { error: message, code };
+}
+
+// Raised when a request cannot be processed as submitted; routes turn it into a 400
+export class ValidationError extends Error {
+  constructor(message: string, readonly code: ErrorCode = 'invalid_request', readonly details?: ErrorDetail[]) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+// Raised when a referenced record does not exist; routes turn it into a 404
+export class NotFoundError extends Error {
+  readonly code: ErrorCode = 'not_found';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+// Raised when a request conflicts with the current state of the data; routes turn it into a 409
+export class ConflictError extends Error {
+  constructor(message: string, readonly code: ErrorCode = 'conflict') {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
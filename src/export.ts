@@ -0,0 +1,208 @@
+import { Writable } from 'stream';
+import { describeCluster, groupClusters } from './cluster';
+import { ContactStore } from './store/contactStore';
+import { IdentifyResponse } from './types';
+import { identifierTypesFromEnv, isBuiltInType } from './identifiers';
+
+export type ExportFormat = 'ndjson' | 'csv';
+
+export type ExportedCluster = IdentifyResponse['contact'];
+
+// A cluster an earlier export returned that no longer exists, because its
+// primary was merged into another cluster or deleted
+export interface RemovedCluster {
+  primaryContactId: number;
+  removed: 'merged' | 'deleted';
+  // The primary now leading the contact's cluster, for merged
+  mergedIntoContactId: number | null;
+}
+
+export interface ExportCounts {
+  clusters: number;
+  removed: number;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Only clusters with a row updated after this time, followed by the
+  // clusters removed since then
+  changedSince?: Date;
+  // Primaries read per query; memory use is bounded by this, not the table size
+  pageSize?: number;
+  // Identifier types beyond email and phoneNumber that CSV gives a column
+  // each; defaults to every registered type
+  identifierTypes?: string[];
+}
+
+export const DEFAULT_WATERMARK_OVERLAP_MS = 5 * 60 * 1000;
+
+export function watermarkOverlapMsFromEnv(): number {
+  const overlap = Number(process.env.EXPORT_WATERMARK_OVERLAP_MS || DEFAULT_WATERMARK_OVERLAP_MS);
+  return Number.isInteger(overlap) && overlap >= 0 ? overlap : DEFAULT_WATERMARK_OVERLAP_MS;
+}
+
+// The time to pass as changedSince to the next incremental export, taken
+// before this one reads anything. Rows are stamped with the start time of the
+// transaction that wrote them, from the database clock, so a transaction that
+// started before now and commits after the export read its cluster carries an
+// earlier time. The watermark is read from the same clock and moved back by
+// the overlap, so the next export reads such changes again, provided their
+// transaction ran for less than the overlap. Clusters changed within the
+// overlap are exported twice.
+export async function exportWatermark(store: ContactStore, overlapMs = watermarkOverlapMsFromEnv()): Promise<Date> {
+  const now = await store.currentTime();
+  return new Date(now.getTime() - overlapMs);
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv'
+};
+
+const CSV_COLUMNS = ['primaryContactId', 'emails', 'phoneNumbers', 'secondaryContactIds', 'removed', 'mergedIntoContactId'];
+
+// The registered identifier types beyond email and phoneNumber
+const customIdentifierTypes = () => Array.from(identifierTypesFromEnv().keys()).filter(type => !isBuiltInType(type));
+
+// Quote a CSV field if it needs it
+const csvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// One output line. CSV puts each list in a single field, separated by ";",
+// leaves the removed columns empty and ends with a column per custom
+// identifier type.
+export function formatCluster(cluster: ExportedCluster, format: ExportFormat, identifierTypes: string[] = []): string {
+  if (format === 'ndjson') {
+    return `${JSON.stringify(cluster)}\n`;
+  }
+  return [
+    String(cluster.primaryContactId),
+    cluster.emails.join(';'),
+    cluster.phoneNumbers.join(';'),
+    cluster.secondaryContactIds.join(';'),
+    '',
+    '',
+    ...identifierTypes.map(type => (cluster.identifiers[type] || []).join(';'))
+  ].map(csvField).join(',') + '\n';
+}
+
+// One output line for a removed cluster
+export function formatRemovedCluster(removed: RemovedCluster, format: ExportFormat, identifierTypes: string[] = []): string {
+  if (format === 'ndjson') {
+    return `${JSON.stringify(removed)}\n`;
+  }
+  return [
+    String(removed.primaryContactId),
+    '',
+    '',
+    '',
+    removed.removed,
+    removed.mergedIntoContactId === null ? '' : String(removed.mergedIntoContactId),
+    ...identifierTypes.map(() => '')
+  ].join(',') + '\n';
+}
+
+// Every live cluster, consolidated like an /identify response, in primary id
+// order. Pages are read separately, so a merge that lands mid-export can
+// leave a cluster stale until the next incremental export picks it up.
+export async function* exportClusters(
+  store: ContactStore,
+  changedSince?: Date,
+  pageSize = 500
+): AsyncGenerator<ExportedCluster> {
+  let afterId = 0;
+  for (;;) {
+    const primaries = await store.listPrimaries(afterId, pageSize, changedSince);
+    if (primaries.length === 0) {
+      return;
+    }
+    afterId = primaries[primaries.length - 1].id;
+
+    const members = await store.findCluster(primaries.map(p => p.id));
+    const clusters = groupClusters(members)
+      .map(cluster => describeCluster(cluster).contact)
+      .sort((a, b) => a.primaryContactId - b.primaryContactId);
+    yield* clusters;
+  }
+}
+
+// Clusters whose primary stopped leading them after since, in primary id
+// order. A contact that leads a cluster again is left out; it is exported with
+// its live cluster.
+export async function* exportRemovedClusters(
+  store: ContactStore,
+  since: Date,
+  pageSize = 500
+): AsyncGenerator<RemovedCluster> {
+  let afterId = 0;
+  for (;;) {
+    const ids = await store.listFormerPrimaries(since, afterId, pageSize);
+    if (ids.length === 0) {
+      return;
+    }
+    afterId = ids[ids.length - 1];
+
+    const clusters = groupClusters(await store.findCluster(ids)).map(cluster => ({
+      ids: new Set(cluster.map(c => c.id)),
+      primaryContactId: describeCluster(cluster).contact.primaryContactId
+    }));
+    for (const id of ids) {
+      const cluster = clusters.find(c => c.ids.has(id));
+      if (!cluster) {
+        yield { primaryContactId: id, removed: 'deleted', mergedIntoContactId: null };
+      } else if (cluster.primaryContactId !== id) {
+        yield { primaryContactId: id, removed: 'merged', mergedIntoContactId: cluster.primaryContactId };
+      }
+    }
+  }
+}
+
+// Wait until the stream can take more data, or has been closed
+function drained(out: Writable): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      out.off('drain', done);
+      out.off('close', done);
+      resolve();
+    };
+    out.on('drain', done);
+    out.on('close', done);
+  });
+}
+
+// Write one line, waiting if out is full. Returns false once out is closed.
+async function writeLine(out: Writable, line: string): Promise<boolean> {
+  if (out.destroyed) {
+    return false;
+  }
+  if (!out.write(line)) {
+    await drained(out);
+  }
+  return true;
+}
+
+// Stream the export to out, respecting backpressure: the live clusters, then
+// for an incremental export the removed ones. Stops early if out is closed (a
+// client that disconnects). Returns how many of each were written.
+export async function writeExport(store: ContactStore, out: Writable, options: ExportOptions): Promise<ExportCounts> {
+  const written: ExportCounts = { clusters: 0, removed: 0 };
+  const identifierTypes = options.identifierTypes ?? customIdentifierTypes();
+  if (options.format === 'csv') {
+    out.write([...CSV_COLUMNS, ...identifierTypes].map(csvField).join(',') + '\n');
+  }
+
+  for await (const cluster of exportClusters(store, options.changedSince, options.pageSize)) {
+    if (!(await writeLine(out, formatCluster(cluster, options.format, identifierTypes)))) {
+      return written;
+    }
+    written.clusters++;
+  }
+  if (options.changedSince) {
+    for await (const removed of exportRemovedClusters(store, options.changedSince, options.pageSize)) {
+      if (!(await writeLine(out, formatRemovedCluster(removed, options.format, identifierTypes)))) {
+        return written;
+      }
+      written.removed++;
+    }
+  }
+  return written;
+}
@@ -0,0 +1,60 @@
+import type { Pool } from 'pg';
+import { Migrator } from './migrator';
+import { logger } from './logger';
+
+export interface ReadinessCheck {
+  ok: boolean;
+  // Why the check failed, safe to show to unauthenticated callers
+  error?: string;
+}
+
+export interface Readiness {
+  ready: boolean;
+  checks: {
+    database: ReadinessCheck;
+    migrations: ReadinessCheck & { pending?: string[] };
+  };
+}
+
+export function healthCheckTimeoutFromEnv(): number {
+  return parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '2000', 10);
+}
+
+// Reject with a timeout error if work takes longer than ms
+function withTimeout<T>(work: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([work, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Whether the service can take traffic: the database answers and every
+// migration this build knows about has been applied
+export async function checkReadiness(
+  pool: Pool,
+  migrator = new Migrator(pool),
+  timeoutMs = healthCheckTimeoutFromEnv()
+): Promise<Readiness> {
+  const database: ReadinessCheck = { ok: true };
+  try {
+    await withTimeout(pool.query('SELECT 1'), timeoutMs);
+  } catch (error) {
+    logger.warn('Readiness check: database unreachable', { error });
+    database.ok = false;
+    database.error = 'Database unreachable';
+  }
+
+  let migrations: Readiness['checks']['migrations'] = { ok: false, error: 'Not checked: database unreachable' };
+  if (database.ok) {
+    try {
+      const pending = (await withTimeout(migrator.pending(), timeoutMs)).map(m => `${m.version} ${m.name}`);
+      migrations = pending.length === 0 ? { ok: true } : { ok: false, error: 'Migrations pending', pending };
+    } catch (error) {
+      logger.warn('Readiness check: could not read migration state', { error });
+      migrations = { ok: false, error: 'Could not read migration state' };
+    }
+  }
+
+  return { ready: database.ok && migrations.ok, checks: { database, migrations } };
+}
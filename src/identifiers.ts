@@ -0,0 +1,135 @@
+import { ValidationError } from './errors';
+import { normalizeEmail, normalizePhoneNumber, normalizeOptionsFromEnv, NormalizeOptions } from './normalize';
+import { Contact, ContactInput, Identifier } from './types';
+
+// Registry of the identifier types contacts can be linked on. email and
+// phoneNumber are built in and stored in their own columns; every other type
+// is registered in IDENTIFIER_TYPES and stored in the contact's identifiers map.
+
+// How a submitted value is turned into its canonical form
+export type IdentifierNormalizer = 'email' | 'phone' | 'lowercase' | 'exact';
+
+export interface IdentifierTypeConfig {
+  name: string;
+  normalizer: IdentifierNormalizer;
+  // How much a match on this type counts when a request matches several clusters
+  weight: number;
+}
+
+export const BUILT_IN_IDENTIFIER_TYPES = ['email', 'phoneNumber'];
+
+const NORMALIZERS: IdentifierNormalizer[] = ['email', 'phone', 'lowercase', 'exact'];
+
+const TYPE_NAME = /^[a-zA-Z][a-zA-Z0-9_]{0,62}$/;
+
+export const isBuiltInType = (type: string) => BUILT_IN_IDENTIFIER_TYPES.includes(type);
+
+// Read the registered types from the environment. IDENTIFIER_TYPES is a
+// comma-separated list of name[:normalizer[:weight]], for example
+// "loyaltyId,deviceId:lowercase,socialLogin:exact:3". An email counts twice
+// as much as a phone number, since phones are most often shared by a household.
+export function identifierTypesFromEnv(): Map<string, IdentifierTypeConfig> {
+  const types = new Map<string, IdentifierTypeConfig>([
+    ['email', { name: 'email', normalizer: 'email', weight: 2 }],
+    ['phoneNumber', { name: 'phoneNumber', normalizer: 'phone', weight: 1 }]
+  ]);
+
+  for (const entry of (process.env.IDENTIFIER_TYPES || '').split(',').map(s => s.trim()).filter(Boolean)) {
+    const [name, normalizer = 'exact', weight = '1'] = entry.split(':').map(s => s.trim());
+    if (!TYPE_NAME.test(name)) {
+      throw new Error(`Invalid identifier type name "${name}" in IDENTIFIER_TYPES`);
+    }
+    if (types.has(name)) {
+      throw new Error(`Identifier type ${name} is registered more than once in IDENTIFIER_TYPES`);
+    }
+    if (!NORMALIZERS.includes(normalizer as IdentifierNormalizer)) {
+      throw new Error(`Identifier type ${name} has unknown normalizer "${normalizer}"; use one of ${NORMALIZERS.join(', ')}`);
+    }
+    const parsedWeight = Number(weight);
+    if (!Number.isInteger(parsedWeight) || parsedWeight < 1) {
+      throw new Error(`Identifier type ${name} must have a positive integer weight`);
+    }
+    types.set(name, { name, normalizer: normalizer as IdentifierNormalizer, weight: parsedWeight });
+  }
+  return types;
+}
+
+// Canonical form of one value, or null if nothing usable is left
+export function normalizeIdentifier(
+  config: IdentifierTypeConfig,
+  value: string | number | null | undefined,
+  options: NormalizeOptions = normalizeOptionsFromEnv()
+): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (config.normalizer) {
+    case 'email': return normalizeEmail(String(value), options);
+    case 'phone': return normalizePhoneNumber(value, options);
+    case 'lowercase': return String(value).trim().toLowerCase() || null;
+    case 'exact': return String(value).trim() || null;
+  }
+}
+
+// Look up a registered type, rejecting unknown ones
+export function identifierType(type: string, types = identifierTypesFromEnv()): IdentifierTypeConfig {
+  const config = types.get(type);
+  if (!config) {
+    throw new ValidationError(
+      `Unknown identifier type "${type}"; registered types are ${Array.from(types.keys()).join(', ')}`,
+      'unknown_identifier_type'
+    );
+  }
+  return config;
+}
+
+// Canonical values of the registered types beyond email and phoneNumber,
+// keeping the submitted values alongside. Empty values are dropped.
+export function normalizeIdentifiers(
+  values: Record<string, string | number | null> | null | undefined,
+  types = identifierTypesFromEnv(),
+  options = normalizeOptionsFromEnv()
+): Pick<ContactInput, 'identifiers' | 'rawIdentifiers'> {
+  const identifiers: Record<string, string> = {};
+  const rawIdentifiers: Record<string, string> = {};
+  for (const [type, value] of Object.entries(values || {})) {
+    const canonical = normalizeIdentifier(identifierType(type, types), value, options);
+    if (canonical !== null) {
+      identifiers[type] = canonical;
+      rawIdentifiers[type] = String(value);
+    }
+  }
+  return { identifiers, rawIdentifiers };
+}
+
+// Every identifier a contact row (or a row about to be inserted) holds
+export function identifiersOf(row: Pick<Contact, 'email' | 'phoneNumber' | 'identifiers'>): Identifier[] {
+  const identifiers: Identifier[] = [];
+  if (row.email) identifiers.push({ type: 'email', value: row.email });
+  if (row.phoneNumber) identifiers.push({ type: 'phoneNumber', value: row.phoneNumber });
+  for (const type of Object.keys(row.identifiers || {}).sort()) {
+    identifiers.push({ type, value: row.identifiers[type] });
+  }
+  return identifiers;
+}
+
+// The part of input whose identifiers pass keep, with their raw values
+export function pickIdentifiers(input: ContactInput, keep: (identifier: Identifier) => boolean): ContactInput {
+  const has = (type: string, value: string | null) => value !== null && keep({ type, value });
+  const identifiers: Record<string, string> = {};
+  const rawIdentifiers: Record<string, string> = {};
+  for (const [type, value] of Object.entries(input.identifiers)) {
+    if (has(type, value)) {
+      identifiers[type] = value;
+      rawIdentifiers[type] = input.rawIdentifiers[type];
+    }
+  }
+  return {
+    email: has('email', input.email) ? input.email : null,
+    rawEmail: has('email', input.email) ? input.rawEmail : null,
+    phoneNumber: has('phoneNumber', input.phoneNumber) ? input.phoneNumber : null,
+    rawPhoneNumber: has('phoneNumber', input.phoneNumber) ? input.rawPhoneNumber : null,
+    identifiers,
+    rawIdentifiers
+  };
+}
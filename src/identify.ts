@@ -0,0 +1,499 @@
+import {
+  Contact,
+  ContactInput,
+  ContactRequest,
+  Identifier,
+  IdentifyOutcomeKind,
+  IdentifyResponse,
+  IdentifyV2Response,
+  MergeBlock
+} from './types';
+import { ValidationError } from './errors';
+import { ContactStore } from './store/contactStore';
+import { ClusterCache } from './clusterCache';
+import { logger } from './logger';
+import { recordClusterCacheLookup, recordIdentifyDuration, recordIdentifyOutcome } from './metrics';
+import { ContactRequestSchema, EmailSchema, PhoneNumberSchema } from './schemas';
+import { compileValidator } from './validation';
+import { normalizeContact } from './normalize';
+import {
+  identifiersOf,
+  identifierType,
+  identifierTypesFromEnv,
+  IdentifierTypeConfig,
+  isBuiltInType,
+  normalizeIdentifiers,
+  pickIdentifiers
+} from './identifiers';
+import { withRetry } from './retry';
+import { mergeOrder, mergePolicyFromEnv, MergePolicyOptions } from './mergePolicy';
+import {
+  AuditContext,
+  buildResponse,
+  choosePrimary,
+  clusterOutboxEvent,
+  consolidateCluster,
+  contactEvent,
+  contactIdentifiers,
+  groupClusters,
+  identifierKey,
+  isMergeBlocked
+} from './cluster';
+
+// Canonical identifiers of a validated request, and the audit context its changes are recorded with
+interface PreparedRequest {
+  input: ContactInput;
+  requested: Identifier[];
+  // Requested identifiers the caller has verified
+  verified: Identifier[];
+  audit: AuditContext;
+  types: Map<string, IdentifierTypeConfig>;
+}
+
+// What one identify call changed, for callers that report on it
+export interface IdentifyOutcome {
+  response: IdentifyResponse;
+  // Kind of contact row inserted, if any
+  created: 'primary' | 'secondary' | null;
+  // Id of the inserted row, if any
+  createdContactId: number | null;
+  // Primaries demoted into the request's cluster
+  mergedPrimaryContactIds: number[];
+  // The request's cluster after the call
+  primary: Contact;
+  secondaries: Contact[];
+  // Requested identifiers the cluster already held
+  matchedIdentifiers: Identifier[];
+  // Whether the cluster now holds every requested identifier and no other
+  // matched cluster was kept apart from it, so repeating the request would
+  // resolve to it without writing anything
+  exclusive: boolean;
+}
+
+const checkContactRequest = compileValidator(ContactRequestSchema);
+const checkEmail = compileValidator(EmailSchema, 'email');
+const checkPhoneNumber = compileValidator(PhoneNumberSchema, 'phoneNumber');
+
+// Check an identify request body against its schema. Any field may be omitted
+// or null; whether at least one is usable is checked after normalization.
+// email and phoneNumber may also be given in the identifiers map, and are
+// moved out of it so the result only maps the other registered types.
+export function parseContactRequest(body: unknown, types = identifierTypesFromEnv()): ContactRequest {
+  const request = checkContactRequest(body);
+  (request.verified || []).forEach(type => identifierType(type, types));
+
+  const fields: Record<string, unknown> = { email: request.email, phoneNumber: request.phoneNumber };
+  const extra: Record<string, string | number | null> = {};
+  for (const [type, value] of Object.entries(request.identifiers || {})) {
+    identifierType(type, types);
+    if (isBuiltInType(type)) {
+      if (value !== null) {
+        (type === 'email' ? checkEmail : checkPhoneNumber)(value, `/identifiers/${type}`);
+      }
+      if (fields[type] !== undefined && fields[type] !== null && value !== null && String(fields[type]) !== String(value)) {
+        throw new ValidationError(`${type} and identifiers.${type} must not differ`);
+      }
+      fields[type] = fields[type] ?? value;
+    } else {
+      extra[type] = value;
+    }
+  }
+
+  const { email, phoneNumber } = fields as ContactRequest;
+  return { email, phoneNumber, identifiers: extra, verified: request.verified || [] };
+}
+
+function prepareRequest(request: ContactRequest): PreparedRequest {
+  // Match and store on canonical identifiers; the submitted values are kept as raw
+  const types = identifierTypesFromEnv();
+  const input: ContactInput = {
+    ...normalizeContact(request.email, request.phoneNumber),
+    ...normalizeIdentifiers(request.identifiers, types)
+  };
+
+  const requested = identifiersOf(input);
+  if (requested.length === 0) {
+    throw new ValidationError('Either email, phoneNumber or another identifier is required', 'identifier_required');
+  }
+
+  const verified = requested.filter(identifier => (request.verified || []).includes(identifier.type));
+  const unverifiable = (request.verified || []).find(type => !verified.some(identifier => identifier.type === type));
+  if (unverifiable !== undefined) {
+    throw new ValidationError(`verified lists ${unverifiable}, but the request has no ${unverifiable}`);
+  }
+
+  // Recorded on every contact_events entry this request causes
+  const audit: AuditContext = {
+    source: 'identify',
+    requestEmail: input.email,
+    requestPhoneNumber: input.phoneNumber,
+    requestIdentifiers: Object.keys(input.identifiers).length > 0 ? input.identifiers : null
+  };
+  return { input, requested, verified, audit, types };
+}
+
+// Throw a ValidationError if identifyContact would reject the request, without
+// touching the store
+export function validateContactRequest(request: ContactRequest): void {
+  prepareRequest(request);
+}
+
+// Function to identify and process contacts
+export async function identifyContact(
+  store: ContactStore,
+  request: ContactRequest,
+  cache: ClusterCache | null = null
+): Promise<IdentifyResponse> {
+  return (await identifyWithOutcome(store, request, cache)).response;
+}
+
+// Identify, reporting what the call changed as well as the consolidated view.
+// With a cache, a request whose identifiers all resolve to one cached cluster
+// is answered without a transaction.
+export async function identifyWithOutcome(
+  store: ContactStore,
+  request: ContactRequest,
+  cache: ClusterCache | null = null
+): Promise<IdentifyOutcome> {
+  const started = process.hrtime();
+  const elapsed = () => {
+    const [seconds, nanoseconds] = process.hrtime(started);
+    return seconds + nanoseconds / 1e9;
+  };
+
+  let prepared: PreparedRequest;
+  try {
+    prepared = prepareRequest(request);
+  } catch (error) {
+    recordIdentifyDuration('invalid', elapsed());
+    throw error;
+  }
+
+  try {
+    const cached = cache ? await fromCache(cache, store.tenantId, prepared) : null;
+    if (cached) {
+      recordIdentifyDuration('success', elapsed());
+      recordIdentifyOutcome(cached);
+      return cached;
+    }
+
+    // Taken before reading, so a cluster changed meanwhile is not cached
+    const generation = cache ? await tryCache('generation', () => cache.generation(store.tenantId), null) : null;
+    // Lock conflicts (deadlocks between overlapping requests) are retried with backoff
+    const outcome = await withRetry(() => store.transaction(tx => reconcile(tx, prepared)));
+    if (cache) {
+      await updateClusterCache(cache, store.tenantId, [outcome]);
+      // A cluster this call changed was just invalidated, which moves the
+      // generation on; the next repeat of the request caches it instead
+      if (generation !== null && outcome.exclusive) {
+        await tryCache('set', () => cache.set(store.tenantId, prepared.requested.map(identifierKey), outcome, generation), undefined);
+      }
+    }
+    recordIdentifyDuration('success', elapsed());
+    recordIdentifyOutcome(outcome);
+    return outcome;
+  } catch (error) {
+    recordIdentifyDuration(error instanceof ValidationError ? 'invalid' : 'error', elapsed());
+    logger.error('Error in identifyContact', { error });
+    throw error;
+  }
+}
+
+// The cache only saves work, so a failing backend is logged and skipped
+async function tryCache<T>(operation: string, work: () => Promise<T>, fallback: T): Promise<T> {
+  try {
+    return await work();
+  } catch (error) {
+    logger.warn(`Cluster cache ${operation} failed`, { error });
+    return fallback;
+  }
+}
+
+// A repeat request answered from the cache: every requested identifier
+// resolves to the same cached cluster. Requests that verify identifiers
+// always go to the store, since recording the verification is a write.
+async function fromCache(cache: ClusterCache, tenantId: string, { requested, verified }: PreparedRequest): Promise<IdentifyOutcome | null> {
+  if (verified.length > 0) {
+    return null;
+  }
+  const cluster = await tryCache('get', () => cache.get(tenantId, requested.map(identifierKey)), null);
+  recordClusterCacheLookup(cluster !== null);
+  if (!cluster) {
+    return null;
+  }
+  return {
+    response: buildResponse(cluster.primary, cluster.secondaries),
+    created: null,
+    createdContactId: null,
+    mergedPrimaryContactIds: [],
+    primary: cluster.primary,
+    secondaries: cluster.secondaries,
+    matchedIdentifiers: requested,
+    exclusive: true
+  };
+}
+
+// Drop the cached clusters committed outcomes changed: the cluster a
+// secondary joined, and every cluster of a merge. Call after commit.
+export async function updateClusterCache(cache: ClusterCache, tenantId: string, outcomes: IdentifyOutcome[]): Promise<void> {
+  const changed = ([] as number[]).concat(...outcomes
+    .filter(outcome => outcome.created === 'secondary' || outcome.mergedPrimaryContactIds.length > 0)
+    .map(outcome => [outcome.primary.id, ...outcome.mergedPrimaryContactIds]));
+  if (changed.length > 0) {
+    await tryCache('invalidate', () => cache.invalidate(tenantId, changed), undefined);
+  }
+}
+
+// Identify within a transaction the caller already holds. Nothing is retried
+// here: a lock conflict aborts the caller's transaction, so the caller has to
+// retry the whole of it.
+export async function identifyInTransaction(tx: ContactStore, request: ContactRequest): Promise<IdentifyOutcome> {
+  return reconcile(tx, prepareRequest(request));
+}
+
+async function reconcile(tx: ContactStore, { input, requested, verified, audit, types }: PreparedRequest): Promise<IdentifyOutcome> {
+  const mergeOptions = mergePolicyFromEnv();
+
+  // Requests sharing an identifier run one at a time, so two of them can
+  // never both miss each other and insert separate primaries
+  await tx.lockIdentifiers(requested.map(identifierKey));
+  await tx.markVerified(verified);
+
+  // Find existing contacts that match any requested identifier, plus every
+  // contact linked to them
+  const matched = await lockMatchingClusters(tx, requested);
+
+  // If no matching contacts found, create a new primary contact
+  if (matched.length === 0) {
+    const newContact = await tx.insertPrimary(input);
+    await tx.recordEvents([
+      contactEvent(newContact.id, 'created', null, newContact, audit)
+    ]);
+    await tx.appendOutbox([
+      clusterOutboxEvent('contact.created', newContact, [], { contactId: newContact.id }, audit)
+    ]);
+
+    // Return the response with the newly created contact
+    return {
+      response: buildResponse(newContact, []),
+      created: 'primary',
+      createdContactId: newContact.id,
+      mergedPrimaryContactIds: [],
+      primary: newContact,
+      secondaries: [],
+      matchedIdentifiers: [],
+      exclusive: true
+    };
+  }
+
+  // Decide which matched clusters merge, honouring merge blocks and review mode
+  const { merged, separate, blocks } = await resolveMerge(tx, matched, requested, types, mergeOptions);
+
+  // Consolidate the cluster under the primary the merge policy picks, demoting any other primaries
+  const {
+    primary: primaryContact,
+    secondaries: secondaryContacts,
+    mergedPrimaryContactIds
+  } = await consolidateCluster(tx, merged, audit);
+
+  // Check if we need to create a new secondary contact
+  // We create a new secondary contact if the request has new information (any identifier)
+  // that's not already present in the primary or existing secondaries. A request that
+  // only repeats known identifiers (including single-field requests) inserts nothing.
+  // Identifiers held by a cluster kept apart, or blocked against this
+  // cluster, are never added since that would bridge the two.
+  const known = new Set(contactIdentifiers(merged).map(identifierKey));
+  const elsewhere = new Set(contactIdentifiers(separate).map(identifierKey));
+  const isNew = (identifier: Identifier) =>
+    !known.has(identifierKey(identifier)) &&
+    !elsewhere.has(identifierKey(identifier)) &&
+    !isMergeBlocked([identifier], contactIdentifiers(merged), blocks);
+
+  const fresh = new Set(requested.filter(isNew).map(identifierKey));
+  const matchedIdentifiers = requested.filter(identifier => known.has(identifierKey(identifier)));
+
+  // Create a new secondary contact if we have new information
+  const created = fresh.size > 0 ? 'secondary' : null;
+  let createdContactId: number | null = null;
+  if (created) {
+    // Identifiers the cluster already has are not duplicated
+    const newSecondary = await tx.insertSecondary(
+      pickIdentifiers(input, identifier => fresh.has(identifierKey(identifier))),
+      primaryContact.id
+    );
+    await tx.recordEvents([
+      contactEvent(newSecondary.id, 'secondary_created', null, newSecondary, audit)
+    ]);
+
+    secondaryContacts.push(newSecondary);
+    createdContactId = newSecondary.id;
+    await tx.appendOutbox([
+      clusterOutboxEvent('contact.secondary_created', primaryContact, secondaryContacts, { contactId: newSecondary.id }, audit)
+    ]);
+  }
+
+  return {
+    response: buildResponse(primaryContact, secondaryContacts),
+    created,
+    createdContactId,
+    mergedPrimaryContactIds,
+    primary: primaryContact,
+    secondaries: secondaryContacts,
+    matchedIdentifiers,
+    exclusive: separate.length === 0 &&
+      requested.every(identifier => known.has(identifierKey(identifier)) || fresh.has(identifierKey(identifier)))
+  };
+}
+
+// What the call did to the request's cluster. A merge is reported even when
+// the call also added a secondary.
+export function outcomeKind(outcome: IdentifyOutcome): IdentifyOutcomeKind {
+  if (outcome.created === 'primary') return 'created';
+  if (outcome.mergedPrimaryContactIds.length > 0) return 'merged';
+  return outcome.created === 'secondary' ? 'extended' : 'matched';
+}
+
+// Format an outcome as a /v2/identify response
+export function buildV2Response(outcome: IdentifyOutcome): IdentifyV2Response {
+  const contacts = [outcome.primary, ...outcome.secondaries];
+  return {
+    outcome: outcomeKind(outcome),
+    primaryContactId: outcome.primary.id,
+    contacts: contacts.map(contact => {
+      const identifiers: Record<string, string> = {};
+      identifiersOf(contact).forEach(({ type, value }) => { identifiers[type] = value; });
+      return {
+        id: contact.id,
+        linkPrecedence: contact.linkPrecedence,
+        linkedId: contact.linkedId,
+        createdAt: new Date(contact.createdAt).toISOString(),
+        identifiers
+      };
+    }),
+    identifiers: outcome.response.contact.identifiers,
+    matchedIdentifiers: outcome.matchedIdentifiers,
+    demotedPrimaryContactIds: outcome.mergedPrimaryContactIds,
+    createdContactId: outcome.createdContactId
+  };
+}
+
+// Merge the clusters that share an identifier the way an identify request
+// for it would: merge blocks, the merge policy and review mode all apply.
+// Used by the backfill once re-canonicalized values collide. Returns the
+// demoted primaries and whether a merge was proposed for review instead.
+export async function mergeClustersSharing(
+  tx: ContactStore,
+  identifier: Identifier,
+  audit: AuditContext,
+  types = identifierTypesFromEnv()
+): Promise<{ mergedPrimaryContactIds: number[]; proposed: boolean }> {
+  const options = mergePolicyFromEnv();
+  await tx.lockIdentifiers([identifierKey(identifier)]);
+
+  const matched = await lockMatchingClusters(tx, [identifier]);
+  if (groupClusters(matched).length < 2) {
+    return { mergedPrimaryContactIds: [], proposed: false };
+  }
+
+  const { merged, proposed } = await resolveMerge(tx, matched, [identifier], types, options);
+  const { mergedPrimaryContactIds } = await consolidateCluster(tx, merged, audit);
+  return { mergedPrimaryContactIds, proposed };
+}
+
+// Decide which matched clusters merge and order their members for
+// consolidateCluster. Admin merge blocks can keep clusters apart even when
+// the request links them. In review mode, merging separate clusters waits for
+// an admin; until then the request stays with its own cluster and the others
+// are kept apart.
+async function resolveMerge(
+  tx: ContactStore,
+  matched: Contact[],
+  requested: Identifier[],
+  types: Map<string, IdentifierTypeConfig>,
+  { policy, review }: MergePolicyOptions
+): Promise<{ merged: Contact[]; separate: Contact[]; blocks: MergeBlock[]; proposed: boolean }> {
+  const blocks = await tx.findMergeBlocks([...contactIdentifiers(matched), ...requested]);
+  const selection = selectClusters(groupClusters(matched), requested, blocks, types);
+  let clusters = selection.merged;
+  const separate = selection.separate;
+
+  const proposed = review && clusters.length > 1;
+  if (proposed) {
+    await proposeMerge(tx, clusters, requested);
+    separate.push(...([] as Contact[]).concat(...clusters.slice(1)));
+    clusters = clusters.slice(0, 1);
+  }
+  return { merged: await mergeOrder(tx, clusters, policy), separate, blocks, proposed };
+}
+
+// Pick the cluster the request belongs to and every other matched cluster
+// that merges into it, unless a merge block separates them. The request belongs to
+// the cluster holding most of its identifiers, each counted by its type's
+// weight. Clusters arrive oldest first, so ties go to the oldest. The
+// request's cluster comes first in merged.
+function selectClusters(
+  clusters: Contact[][],
+  requested: Identifier[],
+  blocks: MergeBlock[],
+  types: Map<string, IdentifierTypeConfig>
+): { merged: Contact[][]; separate: Contact[] } {
+  const score = (cluster: Contact[]) => {
+    const keys = new Set(contactIdentifiers(cluster).map(identifierKey));
+    return requested
+      .filter(identifier => keys.has(identifierKey(identifier)))
+      .reduce((total, identifier) => total + (types.get(identifier.type)?.weight ?? 1), 0);
+  };
+
+  const target = clusters.reduce((best, cluster) => score(cluster) > score(best) ? cluster : best);
+  const merged = [target];
+  const separate: Contact[] = [];
+
+  for (const cluster of clusters) {
+    if (cluster === target) {
+      continue;
+    }
+    if (blocks.length > 0 && isMergeBlocked(contactIdentifiers(cluster), contactIdentifiers(([] as Contact[]).concat(...merged)), blocks)) {
+      separate.push(...cluster);
+    } else {
+      merged.push(cluster);
+    }
+  }
+  return { merged, separate };
+}
+
+// Record a proposal to merge the clusters, the request's own first, unless
+// the same merge is already waiting for review or was rejected
+async function proposeMerge(tx: ContactStore, clusters: Contact[][], identifiers: Identifier[]): Promise<void> {
+  const primaryIds = clusters.map(cluster => choosePrimary(cluster).id);
+  const key = (ids: number[]) => [...ids].sort((a, b) => a - b).join(',');
+  const existing = await tx.findMergeProposals(primaryIds);
+  if (!existing.some(p => p.status !== 'approved' && key(p.primaryContactIds) === key(primaryIds))) {
+    await tx.insertMergeProposal(primaryIds, identifiers);
+  }
+}
+
+// Find matching contacts, resolve the full clusters they belong to and lock
+// each cluster's primary. A concurrent merge can move a match to another
+// primary between the read and the lock, so re-read until every current
+// primary is locked. Returns every member of the matched clusters.
+async function lockMatchingClusters(tx: ContactStore, identifiers: Identifier[]): Promise<Contact[]> {
+  const locked = new Set<number>();
+
+  for (;;) {
+    const matches = await tx.findByIdentifiers(identifiers);
+    if (matches.length === 0) {
+      return [];
+    }
+
+    const cluster = await tx.findCluster(matches.map(c => c.id));
+    const primaryIds = cluster.filter(c => c.linkPrecedence === 'primary').map(c => c.id);
+    // A cluster whose links are broken may have no primary; lock its oldest member instead
+    const unlocked = (primaryIds.length > 0 ? primaryIds : [cluster[0].id]).filter(id => !locked.has(id));
+    if (unlocked.length === 0) {
+      return cluster;
+    }
+
+    await tx.lockContacts(unlocked);
+    unlocked.forEach(id => locked.add(id));
+  }
+}
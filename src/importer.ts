@@ -0,0 +1,353 @@
+import fs from 'fs';
+import { resolve } from 'path';
+import readline from 'readline';
+import { ValidationError } from './errors';
+import { identifyInTransaction, parseContactRequest, validateContactRequest } from './identify';
+import { withRetry } from './retry';
+import { ContactStore } from './store/contactStore';
+import { ContactRequest } from './types';
+import { DEFAULT_TENANT } from './tenant';
+
+export type ImportFormat = 'csv' | 'ndjson';
+
+export interface ImportOptions {
+  format: ImportFormat;
+  // CSV column or NDJSON key (dotted paths reach into nested objects) for each identifier
+  emailField: string;
+  phoneField: string;
+  // Other registered identifier types, by type
+  identifierFields: Record<string, string>;
+  // Identify the whole file in a transaction that is rolled back, and only
+  // report what would have happened
+  dryRun: boolean;
+  // Records committed per transaction, and between progress reports
+  chunkSize: number;
+  // Progress is saved here after every committed chunk; null disables resuming
+  checkpointPath: string | null;
+  // Invalid records are appended here as NDJSON; a dry run only counts them
+  rejectsPath: string;
+}
+
+export interface ImportStats {
+  // Records consumed from the file, valid or not
+  read: number;
+  imported: number;
+  rejected: number;
+  primariesCreated: number;
+  secondariesCreated: number;
+  // Primaries demoted because a record linked their cluster to another
+  primariesMerged: number;
+}
+
+interface Checkpoint {
+  file: string;
+  // Missing in checkpoints written before tenants existed
+  tenantId?: string;
+  stats: ImportStats;
+  updatedAt: string;
+}
+
+// One record from the input file, or the reason it could not be read
+type SourceRecord = { value: unknown } | { error: string; raw: string };
+
+interface Reject {
+  record: number;
+  reason: string;
+  raw: unknown;
+}
+
+const emptyStats = (): ImportStats => ({
+  read: 0,
+  imported: 0,
+  rejected: 0,
+  primariesCreated: 0,
+  secondariesCreated: 0,
+  primariesMerged: 0
+});
+
+// Split CSV text into rows of fields (RFC 4180: quoted fields may contain
+// commas, doubled quotes and line breaks). Reads the file in chunks so memory
+// use does not grow with the file.
+async function* readCsvRows(path: string): AsyncGenerator<string[]> {
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // The previous chunk ended on a quote inside a quoted field
+  let pendingQuote = false;
+
+  for await (const chunk of fs.createReadStream(path, { encoding: 'utf8' })) {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          if (i + 1 === chunk.length) {
+            pendingQuote = true;
+          } else if (chunk[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n') {
+        row.push(field.endsWith('\r') ? field.slice(0, -1) : field);
+        yield row;
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field.endsWith('\r') ? field.slice(0, -1) : field);
+    yield row;
+  }
+}
+
+// Records from a CSV file with a header row, as objects keyed by column name
+async function* readCsv(path: string): AsyncGenerator<SourceRecord> {
+  let header: string[] | null = null;
+  for await (const row of readCsvRows(path)) {
+    if (row.length === 1 && row[0] === '') {
+      continue;
+    }
+    if (!header) {
+      header = row.map(name => name.trim());
+      continue;
+    }
+    if (row.length !== header.length) {
+      yield { error: `Expected ${header.length} columns, got ${row.length}`, raw: row.join(',') };
+      continue;
+    }
+    const value: Record<string, string> = {};
+    header.forEach((name, i) => { value[name] = row[i]; });
+    yield { value };
+  }
+}
+
+// Records from a file with one JSON object per line; blank lines are skipped
+async function* readNdjson(path: string): AsyncGenerator<SourceRecord> {
+  const lines = readline.createInterface({ input: fs.createReadStream(path, { encoding: 'utf8' }), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (line.trim() === '') {
+      continue;
+    }
+    try {
+      yield { value: JSON.parse(line) };
+    } catch {
+      yield { error: 'Invalid JSON', raw: line };
+    }
+  }
+}
+
+export function formatFromPath(path: string): ImportFormat | null {
+  if (/\.csv$/i.test(path)) return 'csv';
+  if (/\.(ndjson|jsonl)$/i.test(path)) return 'ndjson';
+  return null;
+}
+
+// Follow a dotted path such as "customer.email" into a record
+function fieldValue(record: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+    record
+  );
+}
+
+// Pull the mapped fields out of a record. Blank CSV cells count as missing.
+function toContactRequest(record: unknown, options: ImportOptions): ContactRequest {
+  const pick = (path: string) => {
+    const value = fieldValue(record, path);
+    return value === undefined || value === '' ? null : value;
+  };
+  const identifiers: Record<string, unknown> = {};
+  for (const [type, path] of Object.entries(options.identifierFields)) {
+    identifiers[type] = pick(path);
+  }
+  const request = parseContactRequest({
+    email: pick(options.emailField),
+    phoneNumber: pick(options.phoneField),
+    identifiers
+  });
+  validateContactRequest(request);
+  return request;
+}
+
+function loadCheckpoint(options: ImportOptions, path: string, tenantId: string): ImportStats | null {
+  if (!options.checkpointPath || !fs.existsSync(options.checkpointPath)) {
+    return null;
+  }
+  const checkpoint: Checkpoint = JSON.parse(fs.readFileSync(options.checkpointPath, 'utf8'));
+  if (checkpoint.file !== resolve(path)) {
+    throw new ValidationError(`Checkpoint ${options.checkpointPath} belongs to ${checkpoint.file}, not ${path}`);
+  }
+  const checkpointTenant = checkpoint.tenantId ?? DEFAULT_TENANT;
+  if (checkpointTenant !== tenantId) {
+    throw new ValidationError(`Checkpoint ${options.checkpointPath} belongs to tenant ${checkpointTenant}, not ${tenantId}`);
+  }
+  return checkpoint.stats;
+}
+
+// Write to a temporary file first so a crash never leaves a half-written checkpoint
+function saveCheckpoint(checkpointPath: string, path: string, tenantId: string, stats: ImportStats) {
+  const checkpoint: Checkpoint = { file: resolve(path), tenantId, stats, updatedAt: new Date().toISOString() };
+  fs.writeFileSync(`${checkpointPath}.tmp`, JSON.stringify(checkpoint));
+  fs.renameSync(`${checkpointPath}.tmp`, checkpointPath);
+}
+
+// Run every record in a file through the identify rules, in file order.
+//
+// Records are committed in chunks, and after each chunk the position is saved
+// to the checkpoint so a rerun resumes after the last committed chunk. A
+// crash between a commit and its checkpoint replays that chunk on resume,
+// which is harmless: identifying the same record twice changes nothing.
+//
+// A dry run identifies the whole file in one preview transaction that is
+// rolled back, so every record sees the effect of all earlier ones and the
+// counts match a real import. It skips the identifier locks, but the
+// clusters it touches stay row-locked until it finishes.
+export async function importFile(
+  store: ContactStore,
+  path: string,
+  options: ImportOptions,
+  onProgress?: (stats: ImportStats) => void
+): Promise<ImportStats> {
+  if (options.dryRun) {
+    // A conflict aborts the preview, so the file is read again from the start
+    return withRetry(() => store.preview(tx =>
+      readChunks(tx, path, options, emptyStats(), requests => identifyAll(tx, requests), onProgress)
+    ));
+  }
+
+  const resumed = loadCheckpoint(options, path, store.tenantId);
+  if (!resumed) {
+    fs.writeFileSync(options.rejectsPath, '');
+  }
+
+  const stats = await store.withSession(session =>
+    readChunks(session, path, options, resumed || emptyStats(), requests => applyChunk(session, requests), onProgress)
+  );
+
+  // A finished import has nothing to resume
+  if (options.checkpointPath && fs.existsSync(options.checkpointPath)) {
+    fs.unlinkSync(options.checkpointPath);
+  }
+  return stats;
+}
+
+// Read the file in chunks of options.chunkSize records, skipping those stats
+// already counts, and hand each chunk's valid requests to apply. Outside a
+// dry run, rejects and the checkpoint are written after every chunk.
+async function readChunks(
+  store: ContactStore,
+  path: string,
+  options: ImportOptions,
+  stats: ImportStats,
+  apply: (requests: ContactRequest[]) => Promise<ImportStats>,
+  onProgress?: (stats: ImportStats) => void
+): Promise<ImportStats> {
+  const source = options.format === 'csv' ? readCsv(path) : readNdjson(path);
+  let position = 0;
+  let chunk: ContactRequest[] = [];
+  let rejects: Reject[] = [];
+
+  const flush = async () => {
+    addStats(stats, chunk.length > 0 ? await apply(chunk) : emptyStats());
+    stats.rejected += rejects.length;
+    stats.read = position;
+    if (!options.dryRun) {
+      appendRejects(options.rejectsPath, rejects);
+      if (options.checkpointPath) {
+        saveCheckpoint(options.checkpointPath, path, store.tenantId, stats);
+      }
+    }
+    onProgress?.(stats);
+    chunk = [];
+    rejects = [];
+  };
+
+  for await (const record of source) {
+    position++;
+    // Skip what an earlier run already committed
+    if (position <= stats.read) {
+      continue;
+    }
+
+    const parsed = parseRecord(record, position, options);
+    if ('reason' in parsed) {
+      rejects.push(parsed);
+    } else {
+      chunk.push(parsed.request);
+    }
+    if (chunk.length + rejects.length >= options.chunkSize) {
+      await flush();
+    }
+  }
+  await flush();
+  return stats;
+}
+
+function parseRecord(record: SourceRecord, position: number, options: ImportOptions): { request: ContactRequest } | Reject {
+  if ('error' in record) {
+    return { record: position, reason: record.error, raw: record.raw };
+  }
+  try {
+    return { request: toContactRequest(record.value, options) };
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return { record: position, reason: error.message, raw: record.value };
+    }
+    throw error;
+  }
+}
+
+function appendRejects(rejectsPath: string, rejects: Reject[]) {
+  if (rejects.length > 0) {
+    fs.appendFileSync(rejectsPath, rejects.map(r => JSON.stringify(r)).join('\n') + '\n');
+  }
+}
+
+function addStats(stats: ImportStats, applied: ImportStats) {
+  stats.imported += applied.imported;
+  stats.primariesCreated += applied.primariesCreated;
+  stats.secondariesCreated += applied.secondariesCreated;
+  stats.primariesMerged += applied.primariesMerged;
+}
+
+// Identify each request in order within tx and count what changed
+async function identifyAll(tx: ContactStore, requests: ContactRequest[]): Promise<ImportStats> {
+  const applied = emptyStats();
+  for (const request of requests) {
+    const outcome = await identifyInTransaction(tx, request);
+    applied.imported++;
+    if (outcome.created === 'primary') applied.primariesCreated++;
+    if (outcome.created === 'secondary') applied.secondariesCreated++;
+    applied.primariesMerged += outcome.mergedPrimaryContactIds.length;
+  }
+  return applied;
+}
+
+// Commit one chunk. A lock conflict aborts the transaction, so the whole
+// chunk is retried; counts come from the attempt that committed.
+async function applyChunk(session: ContactStore, requests: ContactRequest[]): Promise<ImportStats> {
+  return withRetry(() => session.transaction(tx => identifyAll(tx, requests)));
+}
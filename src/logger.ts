@@ -0,0 +1,221 @@
+import crypto from 'crypto';
+import { currentRequestId } from './requestContext';
+
+// Structured logger. Every entry is one line with a time, a level, a message,
+// the current request id and any extra fields. Emails, phone numbers and
+// other identifiers are redacted before anything is written.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// json for log aggregation, pretty for reading in a terminal
+export type LogFormat = 'json' | 'pretty';
+
+// How a personal value is written: partly masked, replaced by a short hash
+// (so entries about the same customer can still be matched), removed, or
+// left as is
+export type RedactMode = 'mask' | 'hash' | 'remove' | 'off';
+
+export interface RedactionRules {
+  emails: RedactMode;
+  phones: RedactMode;
+  // Values of identifier types other than email and phone number
+  identifiers: RedactMode;
+  // Fields whose values are always removed, matched case-insensitively
+  keys: string[];
+}
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: LogFormat;
+  redaction: RedactionRules;
+}
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const FORMATS: LogFormat[] = ['json', 'pretty'];
+const REDACT_MODES: RedactMode[] = ['mask', 'hash', 'remove', 'off'];
+
+const oneOf = <T extends string>(value: string | undefined, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? value as T : fallback;
+
+// Read logger settings from the environment. Unknown values fall back to the defaults.
+export function loggerOptionsFromEnv(): LoggerOptions {
+  return {
+    level: oneOf(process.env.LOG_LEVEL, Object.keys(LEVELS) as LogLevel[], 'info'),
+    format: oneOf(process.env.LOG_FORMAT, FORMATS, 'json'),
+    redaction: {
+      emails: oneOf(process.env.LOG_REDACT_EMAILS, REDACT_MODES, 'mask'),
+      phones: oneOf(process.env.LOG_REDACT_PHONES, REDACT_MODES, 'mask'),
+      identifiers: oneOf(process.env.LOG_REDACT_IDENTIFIERS, REDACT_MODES, 'mask'),
+      keys: (process.env.LOG_REDACT_KEYS || 'authorization,x-api-key,secret,password,token')
+        .split(',').map(k => k.trim().toLowerCase()).filter(Boolean)
+    }
+  };
+}
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+// 8 to 15 digits, optionally separated by spaces, dots, dashes or brackets
+const PHONE_PATTERN = /(?<![\w-])\+?\(?\d(?:[\s().-]{0,2}\d){7,14}(?![\w-])/g;
+
+const EMAIL_KEYS = ['email', 'emails', 'rawEmail', 'requestEmail'];
+const PHONE_KEYS = ['phoneNumber', 'phoneNumbers', 'rawPhoneNumber', 'requestPhoneNumber'];
+// Maps or lists of typed identifiers; values inside are identifiers unless their key says otherwise
+const IDENTIFIER_KEYS = ['identifiers', 'rawIdentifiers', 'requestIdentifiers', 'first', 'second'];
+
+const MAX_DEPTH = 8;
+
+type ValueKind = 'email' | 'phone' | 'identifier';
+
+function redactOne(value: string, kind: ValueKind, rules: RedactionRules): string {
+  const mode = kind === 'email' ? rules.emails : kind === 'phone' ? rules.phones : rules.identifiers;
+  switch (mode) {
+    case 'off':
+      return value;
+    case 'remove':
+      return `[${kind}]`;
+    case 'hash':
+      return `${kind}:${crypto.createHash('sha256').update(value).digest('hex').slice(0, 12)}`;
+    case 'mask': {
+      if (kind === 'email') {
+        const at = value.lastIndexOf('@');
+        return at > 0 ? `${value[0]}***${value.slice(at)}` : '***';
+      }
+      if (kind === 'phone') {
+        return `***${value.replace(/\D/g, '').slice(-4)}`;
+      }
+      return value.length > 4 ? `${value.slice(0, 2)}***` : '***';
+    }
+  }
+}
+
+// Mask emails and phone numbers found anywhere in free text
+function redactText(text: string, rules: RedactionRules): string {
+  return text
+    .replace(EMAIL_PATTERN, match => redactOne(match, 'email', rules))
+    .replace(PHONE_PATTERN, match => redactOne(match, 'phone', rules));
+}
+
+// Copy of value safe to log. Field names decide how a value is treated:
+// known email and phone fields are redacted whatever their content, values
+// inside identifier maps are treated as identifiers, and anything else is
+// scanned for emails and phone numbers.
+export function redact(value: unknown, rules: RedactionRules, key = '', inIdentifiers = false, depth = 0): unknown {
+  if (rules.keys.includes(key.toLowerCase())) {
+    return '[redacted]';
+  }
+  if (value === null || value === undefined || typeof value === 'boolean') {
+    return value;
+  }
+
+  const kind: ValueKind | null = EMAIL_KEYS.includes(key) || (inIdentifiers && key === 'email') ? 'email'
+    : PHONE_KEYS.includes(key) || (inIdentifiers && key === 'phoneNumber') ? 'phone'
+    : inIdentifiers && key !== 'type' ? 'identifier'
+    : null;
+
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'bigint') {
+    if (kind) {
+      return redactOne(String(value), kind, rules);
+    }
+    return typeof value === 'string' ? redactText(value, rules) : value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[truncated]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, rules, key, inIdentifiers, depth + 1));
+  }
+  if (value instanceof Error) {
+    const { code } = value as Error & { code?: unknown };
+    return {
+      name: value.name,
+      message: redactText(value.message, rules),
+      ...(code !== undefined ? { code } : {}),
+      stack: value.stack ? redactText(value.stack, rules) : undefined
+    };
+  }
+  if (typeof value === 'object') {
+    const nested = inIdentifiers || IDENTIFIER_KEYS.includes(key);
+    const result: Record<string, unknown> = {};
+    for (const [name, item] of Object.entries(value as Record<string, unknown>)) {
+      // A { type, value } identifier says what kind its value is
+      const itemKey = name === 'value' && typeof (value as { type?: unknown }).type === 'string'
+        ? String((value as { type: string }).type)
+        : name;
+      result[name] = redact(item, rules, itemKey, nested, depth + 1);
+    }
+    return result;
+  }
+  return String(value);
+}
+
+function formatPretty(entry: LogFields): string {
+  const { time, level, msg, requestId, ...fields } = entry;
+  const extra = Object.entries(fields)
+    .map(([name, value]) => `${name}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(' ');
+  return [time, String(level).toUpperCase().padEnd(5), requestId ? `[${requestId}]` : null, msg, extra || null]
+    .filter(part => part !== null)
+    .join(' ');
+}
+
+export class Logger {
+  private options: LoggerOptions | null;
+
+  constructor(private readonly fields: LogFields = {}, options?: LoggerOptions) {
+    this.options = options || null;
+  }
+
+  // Settings are read on first use, after dotenv has loaded the environment
+  private settings(): LoggerOptions {
+    if (!this.options) {
+      this.options = loggerOptionsFromEnv();
+    }
+    return this.options;
+  }
+
+  // Logger that adds the given fields to every entry
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...fields }, this.options || undefined);
+  }
+
+  debug(message: string, fields?: LogFields) {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields) {
+    const options = this.settings();
+    if (LEVELS[level] < LEVELS[options.level]) {
+      return;
+    }
+
+    const requestId = currentRequestId();
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      msg: redactText(message, options.redaction),
+      ...(requestId ? { requestId } : {}),
+      ...(redact({ ...this.fields, ...fields }, options.redaction) as LogFields)
+    };
+    const line = options.format === 'pretty' ? formatPretty(entry) : JSON.stringify(entry);
+    (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+  }
+}
+
+// Shared logger for the whole service
+export const logger = new Logger();
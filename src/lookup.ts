@@ -0,0 +1,77 @@
+import { Contact, ContactEvent, ContactRequest, IdentifyResponse } from './types';
+import { ContactStore } from './store/contactStore';
+import { normalizeContact } from './normalize';
+import { identifiersOf, normalizeIdentifiers } from './identifiers';
+import { ValidationError } from './errors';
+import { describeCluster } from './cluster';
+
+// Read-only cluster resolution. Nothing here writes: clusters with several
+// primaries or broken links are shown as identifyContact would consolidate
+// them, without consolidating them in the table.
+
+// The consolidated cluster containing the given contact, or null if it does not exist
+export async function findClusterById(store: ContactStore, id: number): Promise<IdentifyResponse | null> {
+  const cluster = await store.findCluster([id]);
+  if (cluster.length === 0) {
+    return null;
+  }
+
+  return describeCluster(cluster);
+}
+
+// Like findClusterById, plus every row of the cluster (oldest first) for
+// screens that show individual contacts
+export async function findClusterDetail(
+  store: ContactStore,
+  id: number
+): Promise<(IdentifyResponse & { contacts: Contact[] }) | null> {
+  const cluster = await store.findCluster([id]);
+  if (cluster.length === 0) {
+    return null;
+  }
+
+  return { ...describeCluster(cluster), contacts: cluster };
+}
+
+// Every cluster that contains any of the request's identifiers, in order of
+// their oldest matching contact
+export async function findClustersByIdentifiers(store: ContactStore, request: ContactRequest): Promise<IdentifyResponse[]> {
+  const identifiers = identifiersOf({
+    ...normalizeContact(request.email, request.phoneNumber),
+    ...normalizeIdentifiers(request.identifiers)
+  });
+  if (identifiers.length === 0) {
+    throw new ValidationError('Either email, phoneNumber or another identifier is required');
+  }
+
+  const matches = await store.findByIdentifiers(identifiers);
+  const seen = new Set<number>();
+  const responses: IdentifyResponse[] = [];
+
+  // Matches are oldest first, so clusters come out ordered by their oldest member
+  for (const match of matches) {
+    if (seen.has(match.id)) {
+      continue;
+    }
+
+    const cluster = await store.findCluster([match.id]);
+    cluster.forEach(c => seen.add(c.id));
+    responses.push(describeCluster(cluster));
+  }
+
+  return responses;
+}
+
+// Ordered timeline of every event that touched the contact's cluster, or null
+// if the id is not a contact of the store's tenant. A deleted contact still
+// returns its own history.
+export async function findClusterHistory(store: ContactStore, id: number): Promise<ContactEvent[] | null> {
+  const cluster = await store.findCluster([id]);
+  if (cluster.length > 0) {
+    return store.findEvents(cluster.map(c => c.id));
+  }
+
+  // Only a deleted contact of this tenant has events of its own here
+  const events = await store.findEvents([id]);
+  return events.some(e => e.contactId === id) ? events : null;
+}
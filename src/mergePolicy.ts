@@ -0,0 +1,51 @@
+import { Contact } from './types';
+import { ContactStore } from './store/contactStore';
+import { choosePrimary, contactIdentifiers, identifierKey } from './cluster';
+
+// Which primary leads when separate clusters merge:
+// - oldest: the oldest primary
+// - largest: the primary of the cluster with the most contacts
+// - verified: the primary of the cluster with the most verified identifiers
+export type MergePolicy = 'oldest' | 'largest' | 'verified';
+
+export const MERGE_POLICIES: MergePolicy[] = ['oldest', 'largest', 'verified'];
+
+export interface MergePolicyOptions {
+  policy: MergePolicy;
+  // Propose merges of separate clusters for an admin to approve instead of
+  // merging them on the spot
+  review: boolean;
+}
+
+// Read the merge policy from the environment
+export function mergePolicyFromEnv(): MergePolicyOptions {
+  const policy = (process.env.MERGE_POLICY || 'oldest') as MergePolicy;
+  if (!MERGE_POLICIES.includes(policy)) {
+    throw new Error(`MERGE_POLICY must be one of ${MERGE_POLICIES.join(', ')}`);
+  }
+  return { policy, review: process.env.MERGE_REVIEW === 'true' };
+}
+
+const byAge = (a: Contact, b: Contact) =>
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id - b.id;
+
+// Every member of the clusters about to merge, ready for consolidateCluster:
+// the primary the policy picks comes first and everyone else follows oldest
+// first. Ties go to the oldest cluster.
+export async function mergeOrder(tx: ContactStore, clusters: Contact[][], policy: MergePolicy): Promise<Contact[]> {
+  const members = ([] as Contact[]).concat(...clusters).sort(byAge);
+  if (clusters.length < 2 || policy === 'oldest') {
+    return members;
+  }
+
+  let score = (cluster: Contact[]) => cluster.length;
+  if (policy === 'verified') {
+    const verified = new Set((await tx.findVerified(contactIdentifiers(members))).map(identifierKey));
+    score = cluster => contactIdentifiers(cluster).filter(i => verified.has(identifierKey(i))).length;
+  }
+
+  const oldestFirst = [...clusters].sort((a, b) => byAge(choosePrimary(a), choosePrimary(b)));
+  const winner = oldestFirst.reduce((best, cluster) => score(cluster) > score(best) ? cluster : best);
+  const lead = choosePrimary(winner);
+  return [lead, ...members.filter(c => c !== lead)];
+}
@@ -0,0 +1,112 @@
+import type { Pool } from 'pg';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import type { ClusterCache } from './clusterCache';
+import type { IdentifyOutcome } from './identify';
+
+// Prometheus metrics served on /metrics. Labels never carry identifiers or
+// tenant ids, so the output holds no customer data.
+
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry });
+
+// success, invalid (rejected with a 400) or error
+export type IdentifyResult = 'success' | 'invalid' | 'error';
+
+const identifyDuration = new Histogram({
+  name: 'identify_duration_seconds',
+  help: 'Time to identify one request, including retries',
+  labelNames: ['result'],
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [registry]
+});
+
+const newPrimaries = new Counter({
+  name: 'identify_new_primaries_total',
+  help: 'Primary contacts created by identify',
+  registers: [registry]
+});
+
+const newSecondaries = new Counter({
+  name: 'identify_new_secondaries_total',
+  help: 'Secondary contacts created by identify',
+  registers: [registry]
+});
+
+const consolidations = new Counter({
+  name: 'identify_primary_consolidations_total',
+  help: 'Primaries demoted to secondaries when identify merged clusters',
+  registers: [registry]
+});
+
+const clusterSize = new Histogram({
+  name: 'identify_cluster_size',
+  help: 'Contacts in the cluster returned by identify',
+  buckets: [1, 2, 3, 5, 10, 25, 50, 100, 250],
+  registers: [registry]
+});
+
+const clusterCacheLookups = new Counter({
+  name: 'cluster_cache_lookups_total',
+  help: 'Identify requests looked up in the cluster cache, by whether the cache answered them',
+  labelNames: ['result'],
+  registers: [registry]
+});
+
+const httpRequests = new Counter({
+  name: 'http_requests_total',
+  help: 'HTTP responses sent, by route and status code',
+  labelNames: ['method', 'route', 'status'],
+  registers: [registry]
+});
+
+// Record a committed identify
+export function recordIdentifyOutcome(outcome: IdentifyOutcome) {
+  if (outcome.created === 'primary') {
+    newPrimaries.inc();
+  } else if (outcome.created === 'secondary') {
+    newSecondaries.inc();
+  }
+  consolidations.inc(outcome.mergedPrimaryContactIds.length);
+  clusterSize.observe(1 + outcome.response.contact.secondaryContactIds.length);
+}
+
+export function recordIdentifyDuration(result: IdentifyResult, seconds: number) {
+  identifyDuration.observe({ result }, seconds);
+}
+
+export function recordClusterCacheLookup(hit: boolean) {
+  clusterCacheLookups.inc({ result: hit ? 'hit' : 'miss' });
+}
+
+// route is the matched route pattern, e.g. /contacts/:id, never the raw path
+export function recordHttpResponse(method: string, route: string, status: number) {
+  httpRequests.inc({ method, route, status: String(status) });
+}
+
+// Expose the pool's connection counts, read at scrape time
+export function registerPoolMetrics(pool: Pool) {
+  const gauge = (name: string, help: string, read: () => number) => new Gauge({
+    name,
+    help,
+    registers: [registry],
+    collect() {
+      this.set(read());
+    }
+  });
+  gauge('db_pool_connections_total', 'Connections open in the database pool', () => pool.totalCount);
+  gauge('db_pool_connections_idle', 'Open connections not checked out', () => pool.idleCount);
+  gauge('db_pool_requests_waiting', 'Callers waiting for a connection', () => pool.waitingCount);
+}
+
+// Expose the cluster cache's size, read at scrape time
+export function registerClusterCacheMetrics(cache: ClusterCache) {
+  new Gauge({
+    name: 'cluster_cache_entries',
+    help: 'Clusters held in the cluster cache',
+    registers: [registry],
+    async collect() {
+      this.set((await cache.stats()).entries);
+    }
+  });
+}
@@ -0,0 +1,25 @@
+import { Migration } from './types';
+
+// Baseline table. IF NOT EXISTS lets databases created by the old
+// initializeDb adopt the migration history without changes.
+const migration: Migration = {
+  version: 1,
+  name: 'create_contacts',
+  up: `
+    CREATE TABLE IF NOT EXISTS contacts (
+      id SERIAL PRIMARY KEY,
+      "phoneNumber" VARCHAR,
+      email VARCHAR,
+      "linkedId" INTEGER REFERENCES contacts(id),
+      "linkPrecedence" VARCHAR NOT NULL DEFAULT 'primary',
+      "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+      "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+      "deletedAt" TIMESTAMP
+    );
+  `,
+  down: `
+    DROP TABLE contacts;
+  `
+};
+
+export default migration;
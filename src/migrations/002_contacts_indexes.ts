@@ -0,0 +1,23 @@
+import { Migration } from './types';
+
+// Lookup indexes for identifyContact and a guard on linkPrecedence values
+const migration: Migration = {
+  version: 2,
+  name: 'contacts_indexes',
+  up: `
+    CREATE INDEX IF NOT EXISTS contacts_email_idx ON contacts (email);
+    CREATE INDEX IF NOT EXISTS contacts_phone_number_idx ON contacts ("phoneNumber");
+    CREATE INDEX IF NOT EXISTS contacts_linked_id_idx ON contacts ("linkedId");
+    ALTER TABLE contacts
+      ADD CONSTRAINT contacts_link_precedence_check
+      CHECK ("linkPrecedence" IN ('primary', 'secondary'));
+  `,
+  down: `
+    ALTER TABLE contacts DROP CONSTRAINT IF EXISTS contacts_link_precedence_check;
+    DROP INDEX IF EXISTS contacts_linked_id_idx;
+    DROP INDEX IF EXISTS contacts_phone_number_idx;
+    DROP INDEX IF EXISTS contacts_email_idx;
+  `
+};
+
+export default migration;
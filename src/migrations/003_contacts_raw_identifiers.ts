@@ -0,0 +1,19 @@
+import { Migration } from './types';
+
+// Keep submitted values next to the canonical email / phoneNumber. Existing
+// rows start with raw = current value; run the backfill to canonicalize them.
+const migration: Migration = {
+  version: 3,
+  name: 'contacts_raw_identifiers',
+  up: `
+    ALTER TABLE contacts ADD COLUMN "rawEmail" VARCHAR;
+    ALTER TABLE contacts ADD COLUMN "rawPhoneNumber" VARCHAR;
+    UPDATE contacts SET "rawEmail" = email, "rawPhoneNumber" = "phoneNumber";
+  `,
+  down: `
+    ALTER TABLE contacts DROP COLUMN "rawPhoneNumber";
+    ALTER TABLE contacts DROP COLUMN "rawEmail";
+  `
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+import { Migration } from './types';
+
+// Identifier pairs that admins have blocked from sharing a cluster
+const migration: Migration = {
+  version: 4,
+  name: 'merge_blocks',
+  up: `
+    CREATE TABLE merge_blocks (
+      id SERIAL PRIMARY KEY,
+      "firstType" VARCHAR NOT NULL CHECK ("firstType" IN ('email', 'phoneNumber')),
+      "firstValue" VARCHAR NOT NULL,
+      "secondType" VARCHAR NOT NULL CHECK ("secondType" IN ('email', 'phoneNumber')),
+      "secondValue" VARCHAR NOT NULL,
+      "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+      UNIQUE ("firstType", "firstValue", "secondType", "secondValue")
+    );
+    CREATE INDEX merge_blocks_second_idx ON merge_blocks ("secondType", "secondValue");
+  `,
+  down: `
+    DROP TABLE merge_blocks;
+  `
+};
+
+export default migration;
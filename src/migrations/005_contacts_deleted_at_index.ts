@@ -0,0 +1,15 @@
+import { Migration } from './types';
+
+// Lets the purge job find soft-deleted rows without scanning live ones
+const migration: Migration = {
+  version: 5,
+  name: 'contacts_deleted_at_index',
+  up: `
+    CREATE INDEX contacts_deleted_at_idx ON contacts ("deletedAt") WHERE "deletedAt" IS NOT NULL;
+  `,
+  down: `
+    DROP INDEX contacts_deleted_at_idx;
+  `
+};
+
+export default migration;
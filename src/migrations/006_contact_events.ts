@@ -0,0 +1,31 @@
+import { Migration } from './types';
+
+// Append-only audit log of every change to a contact's links. No foreign key
+// on contactId so history outlives hard-deleted contacts until they are purged.
+const migration: Migration = {
+  version: 6,
+  name: 'contact_events',
+  up: `
+    CREATE TABLE contact_events (
+      id SERIAL PRIMARY KEY,
+      "contactId" INTEGER NOT NULL,
+      type VARCHAR NOT NULL,
+      source VARCHAR NOT NULL,
+      "requestEmail" VARCHAR,
+      "requestPhoneNumber" VARCHAR,
+      "previousLinkedId" INTEGER,
+      "previousLinkPrecedence" VARCHAR,
+      "linkedId" INTEGER,
+      "linkPrecedence" VARCHAR,
+      "createdAt" TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+    CREATE INDEX contact_events_contact_id_idx ON contact_events ("contactId");
+    CREATE INDEX contact_events_linked_id_idx ON contact_events ("linkedId");
+    CREATE INDEX contact_events_previous_linked_id_idx ON contact_events ("previousLinkedId");
+  `,
+  down: `
+    DROP TABLE contact_events;
+  `
+};
+
+export default migration;
@@ -0,0 +1,54 @@
+import { Migration } from './types';
+
+// Transactional outbox of identity events and their webhook deliveries.
+// Outbox rows have no foreign key to contacts so they outlive a purge.
+const migration: Migration = {
+  version: 7,
+  name: 'webhooks',
+  up: `
+    CREATE TABLE outbox_events (
+      id SERIAL PRIMARY KEY,
+      type VARCHAR NOT NULL,
+      "contactIds" INTEGER[] NOT NULL DEFAULT '{}',
+      payload JSONB NOT NULL,
+      "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+      "dispatchedAt" TIMESTAMP
+    );
+    CREATE INDEX outbox_events_undispatched_idx ON outbox_events (id) WHERE "dispatchedAt" IS NULL;
+    CREATE INDEX outbox_events_contact_ids_idx ON outbox_events USING GIN ("contactIds");
+
+    CREATE TABLE webhook_subscribers (
+      id SERIAL PRIMARY KEY,
+      url VARCHAR NOT NULL,
+      secret VARCHAR NOT NULL,
+      "eventTypes" VARCHAR[] NOT NULL DEFAULT '{}',
+      active BOOLEAN NOT NULL DEFAULT TRUE,
+      "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+      "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE TABLE webhook_deliveries (
+      id SERIAL PRIMARY KEY,
+      "eventId" INTEGER NOT NULL REFERENCES outbox_events(id) ON DELETE CASCADE,
+      "subscriberId" INTEGER NOT NULL REFERENCES webhook_subscribers(id) ON DELETE CASCADE,
+      status VARCHAR NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'dead')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      "nextAttemptAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+      "lastStatusCode" INTEGER,
+      "lastError" VARCHAR,
+      "deliveredAt" TIMESTAMP,
+      "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+      "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+      UNIQUE ("eventId", "subscriberId")
+    );
+    CREATE INDEX webhook_deliveries_due_idx ON webhook_deliveries ("nextAttemptAt") WHERE status = 'pending';
+    CREATE INDEX webhook_deliveries_subscriber_idx ON webhook_deliveries ("subscriberId", status);
+  `,
+  down: `
+    DROP TABLE webhook_deliveries;
+    DROP TABLE webhook_subscribers;
+    DROP TABLE outbox_events;
+  `
+};
+
+export default migration;
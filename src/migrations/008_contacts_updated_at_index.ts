@@ -0,0 +1,15 @@
+import { Migration } from './types';
+
+// Incremental exports look up rows changed since a watermark
+const migration: Migration = {
+  version: 8,
+  name: 'contacts_updated_at_index',
+  up: `
+    CREATE INDEX contacts_updated_at_idx ON contacts ("updatedAt");
+  `,
+  down: `
+    DROP INDEX contacts_updated_at_idx;
+  `
+};
+
+export default migration;
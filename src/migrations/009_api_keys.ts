@@ -0,0 +1,26 @@
+import { Migration } from './types';
+
+// API keys for authenticating callers. Only a hash of each key is stored.
+const migration: Migration = {
+  version: 9,
+  name: 'api_keys',
+  up: `
+    CREATE TABLE api_keys (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR NOT NULL,
+      prefix VARCHAR NOT NULL UNIQUE,
+      "keyHash" VARCHAR NOT NULL,
+      scopes VARCHAR[] NOT NULL DEFAULT '{}',
+      "rateLimitPerMinute" INTEGER,
+      "rateLimitBurst" INTEGER,
+      "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+      "lastUsedAt" TIMESTAMP,
+      "revokedAt" TIMESTAMP
+    );
+  `,
+  down: `
+    DROP TABLE api_keys;
+  `
+};
+
+export default migration;
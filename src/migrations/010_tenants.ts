@@ -0,0 +1,61 @@
+import { Migration } from './types';
+
+// Tenant dimension for running several brands that must never share
+// customers. Existing rows join the default tenant. Lookup indexes and the
+// merge block pair constraint lead with the tenant so each one is per tenant.
+const migration: Migration = {
+  version: 10,
+  name: 'tenants',
+  up: `
+    ALTER TABLE contacts ADD COLUMN "tenantId" VARCHAR NOT NULL DEFAULT 'default';
+    DROP INDEX contacts_email_idx;
+    DROP INDEX contacts_phone_number_idx;
+    DROP INDEX contacts_updated_at_idx;
+    CREATE INDEX contacts_tenant_email_idx ON contacts ("tenantId", email);
+    CREATE INDEX contacts_tenant_phone_number_idx ON contacts ("tenantId", "phoneNumber");
+    CREATE INDEX contacts_tenant_updated_at_idx ON contacts ("tenantId", "updatedAt");
+    CREATE INDEX contacts_tenant_primaries_idx ON contacts ("tenantId", id)
+      WHERE "linkPrecedence" = 'primary' AND "deletedAt" IS NULL;
+
+    ALTER TABLE merge_blocks ADD COLUMN "tenantId" VARCHAR NOT NULL DEFAULT 'default';
+    ALTER TABLE merge_blocks DROP CONSTRAINT "merge_blocks_firstType_firstValue_secondType_secondValue_key";
+    ALTER TABLE merge_blocks ADD CONSTRAINT merge_blocks_tenant_pair_key
+      UNIQUE ("tenantId", "firstType", "firstValue", "secondType", "secondValue");
+    DROP INDEX merge_blocks_second_idx;
+    CREATE INDEX merge_blocks_tenant_second_idx ON merge_blocks ("tenantId", "secondType", "secondValue");
+
+    ALTER TABLE outbox_events ADD COLUMN "tenantId" VARCHAR NOT NULL DEFAULT 'default';
+    CREATE INDEX outbox_events_tenant_idx ON outbox_events ("tenantId");
+
+    ALTER TABLE webhook_subscribers ADD COLUMN "tenantId" VARCHAR NOT NULL DEFAULT 'default';
+    CREATE INDEX webhook_subscribers_tenant_idx ON webhook_subscribers ("tenantId");
+
+    ALTER TABLE api_keys ADD COLUMN "tenantId" VARCHAR;
+  `,
+  down: `
+    ALTER TABLE api_keys DROP COLUMN "tenantId";
+
+    DROP INDEX webhook_subscribers_tenant_idx;
+    ALTER TABLE webhook_subscribers DROP COLUMN "tenantId";
+
+    DROP INDEX outbox_events_tenant_idx;
+    ALTER TABLE outbox_events DROP COLUMN "tenantId";
+
+    DROP INDEX merge_blocks_tenant_second_idx;
+    ALTER TABLE merge_blocks DROP CONSTRAINT merge_blocks_tenant_pair_key;
+    ALTER TABLE merge_blocks DROP COLUMN "tenantId";
+    ALTER TABLE merge_blocks ADD UNIQUE ("firstType", "firstValue", "secondType", "secondValue");
+    CREATE INDEX merge_blocks_second_idx ON merge_blocks ("secondType", "secondValue");
+
+    DROP INDEX contacts_tenant_primaries_idx;
+    DROP INDEX contacts_tenant_updated_at_idx;
+    DROP INDEX contacts_tenant_phone_number_idx;
+    DROP INDEX contacts_tenant_email_idx;
+    ALTER TABLE contacts DROP COLUMN "tenantId";
+    CREATE INDEX contacts_email_idx ON contacts (email);
+    CREATE INDEX contacts_phone_number_idx ON contacts ("phoneNumber");
+    CREATE INDEX contacts_updated_at_idx ON contacts ("updatedAt");
+  `
+};
+
+export default migration;
@@ -0,0 +1,32 @@
+import { Migration } from './types';
+
+// Identifier types beyond email and phoneNumber, registered in configuration.
+// Each contact keeps its values in a JSON map keyed by type, matched through
+// a containment index. Merge blocks may name any type, so their type checks go.
+const migration: Migration = {
+  version: 11,
+  name: 'contact_identifiers',
+  up: `
+    ALTER TABLE contacts ADD COLUMN identifiers JSONB NOT NULL DEFAULT '{}';
+    ALTER TABLE contacts ADD COLUMN "rawIdentifiers" JSONB NOT NULL DEFAULT '{}';
+    CREATE INDEX contacts_identifiers_idx ON contacts USING GIN (identifiers jsonb_path_ops);
+
+    ALTER TABLE contact_events ADD COLUMN "requestIdentifiers" JSONB;
+
+    ALTER TABLE merge_blocks DROP CONSTRAINT "merge_blocks_firstType_check";
+    ALTER TABLE merge_blocks DROP CONSTRAINT "merge_blocks_secondType_check";
+  `,
+  // Fails while merge blocks name other types; delete those first
+  down: `
+    ALTER TABLE merge_blocks ADD CONSTRAINT "merge_blocks_secondType_check" CHECK ("secondType" IN ('email', 'phoneNumber'));
+    ALTER TABLE merge_blocks ADD CONSTRAINT "merge_blocks_firstType_check" CHECK ("firstType" IN ('email', 'phoneNumber'));
+
+    ALTER TABLE contact_events DROP COLUMN "requestIdentifiers";
+
+    DROP INDEX contacts_identifiers_idx;
+    ALTER TABLE contacts DROP COLUMN "rawIdentifiers";
+    ALTER TABLE contacts DROP COLUMN identifiers;
+  `
+};
+
+export default migration;
@@ -0,0 +1,36 @@
+import { Migration } from './types';
+
+// Merge proposals waiting for an admin when merges need review, and the
+// identifier values callers have verified, which the verified merge policy
+// prefers
+const migration: Migration = {
+  version: 12,
+  name: 'merge_review',
+  up: `
+    CREATE TABLE merge_proposals (
+      id SERIAL PRIMARY KEY,
+      "tenantId" VARCHAR NOT NULL DEFAULT 'default',
+      "primaryContactIds" INTEGER[] NOT NULL,
+      identifiers JSONB NOT NULL,
+      status VARCHAR NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+      "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+      "resolvedAt" TIMESTAMP
+    );
+    CREATE INDEX merge_proposals_tenant_status_idx ON merge_proposals ("tenantId", status);
+    CREATE INDEX merge_proposals_primary_contact_ids_idx ON merge_proposals USING GIN ("primaryContactIds");
+
+    CREATE TABLE verified_identifiers (
+      "tenantId" VARCHAR NOT NULL,
+      type VARCHAR NOT NULL,
+      value VARCHAR NOT NULL,
+      "verifiedAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+      PRIMARY KEY ("tenantId", type, value)
+    );
+  `,
+  down: `
+    DROP TABLE verified_identifiers;
+    DROP TABLE merge_proposals;
+  `
+};
+
+export default migration;
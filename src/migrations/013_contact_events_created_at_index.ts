@@ -0,0 +1,15 @@
+import { Migration } from './types';
+
+// Incremental exports look up primaries demoted or deleted since a watermark
+const migration: Migration = {
+  version: 13,
+  name: 'contact_events_created_at_index',
+  up: `
+    CREATE INDEX contact_events_created_at_idx ON contact_events ("createdAt");
+  `,
+  down: `
+    DROP INDEX contact_events_created_at_idx;
+  `
+};
+
+export default migration;
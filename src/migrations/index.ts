@@ -0,0 +1,33 @@
+import { Migration } from './types';
+import createContacts from './001_create_contacts';
+import contactsIndexes from './002_contacts_indexes';
+import contactsRawIdentifiers from './003_contacts_raw_identifiers';
+import mergeBlocks from './004_merge_blocks';
+import contactsDeletedAtIndex from './005_contacts_deleted_at_index';
+import contactEvents from './006_contact_events';
+import webhooks from './007_webhooks';
+import contactsUpdatedAtIndex from './008_contacts_updated_at_index';
+import apiKeys from './009_api_keys';
+import tenants from './010_tenants';
+import contactIdentifiers from './011_contact_identifiers';
+import mergeReview from './012_merge_review';
+import contactEventsCreatedAtIndex from './013_contact_events_created_at_index';
+
+export { Migration };
+
+// Every known migration, in version order. Add new files here.
+export const migrations: Migration[] = [
+  createContacts,
+  contactsIndexes,
+  contactsRawIdentifiers,
+  mergeBlocks,
+  contactsDeletedAtIndex,
+  contactEvents,
+  webhooks,
+  contactsUpdatedAtIndex,
+  apiKeys,
+  tenants,
+  contactIdentifiers,
+  mergeReview,
+  contactEventsCreatedAtIndex
+];
@@ -0,0 +1,8 @@
+// A numbered schema change. Versions must be unique and increasing; up and
+// down are run inside a transaction together with the tracking-table update.
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
@@ -0,0 +1,131 @@
+import type { Pool, PoolClient } from 'pg';
+import { Migration, migrations as allMigrations } from './migrations';
+import { logger } from './logger';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: Date | null;
+}
+
+// Arbitrary key for the session advisory lock that keeps two migrators
+// (e.g. two app instances booting) from running at the same time
+const MIGRATION_LOCK_KEY = 4242001;
+
+// Applies and rolls back numbered migrations, tracking applied versions
+// in the schema_migrations table
+export class Migrator {
+  constructor(
+    private readonly pool: Pool,
+    private readonly migrations: Migration[] = allMigrations
+  ) {
+    const versions = migrations.map(m => m.version);
+    versions.forEach((version, i) => {
+      if (i > 0 && version <= versions[i - 1]) {
+        throw new Error(`Migrations must have unique, increasing versions (found ${version} after ${versions[i - 1]})`);
+      }
+    });
+  }
+
+  // Every known migration with the time it was applied, if it was
+  async status(): Promise<MigrationStatus[]> {
+    const applied = await this.withClient(client => this.appliedVersions(client));
+    return this.migrations.map(m => ({
+      version: m.version,
+      name: m.name,
+      appliedAt: applied.get(m.version) || null
+    }));
+  }
+
+  async pending(): Promise<Migration[]> {
+    const applied = await this.withClient(client => this.appliedVersions(client));
+    return this.migrations.filter(m => !applied.has(m.version));
+  }
+
+  // Apply pending migrations up to and including target (default: all)
+  async migrate(target?: number): Promise<Migration[]> {
+    return this.withLock(async (client) => {
+      const applied = await this.appliedVersions(client);
+      const toApply = this.migrations.filter(m =>
+        !applied.has(m.version) && (target === undefined || m.version <= target)
+      );
+
+      for (const migration of toApply) {
+        logger.info(`Applying migration ${migration.version} ${migration.name}`);
+        await this.inTransaction(client, async () => {
+          await client.query(migration.up);
+          await client.query(
+            'INSERT INTO schema_migrations (version, name) VALUES ($1, $2);',
+            [migration.version, migration.name]
+          );
+        });
+      }
+
+      return toApply;
+    });
+  }
+
+  // Roll back the most recently applied migrations, newest first
+  async rollback(steps = 1): Promise<Migration[]> {
+    return this.withLock(async (client) => {
+      const applied = await this.appliedVersions(client);
+      const toRevert = this.migrations
+        .filter(m => applied.has(m.version))
+        .reverse()
+        .slice(0, steps);
+
+      for (const migration of toRevert) {
+        logger.info(`Rolling back migration ${migration.version} ${migration.name}`);
+        await this.inTransaction(client, async () => {
+          await client.query(migration.down);
+          await client.query('DELETE FROM schema_migrations WHERE version = $1;', [migration.version]);
+        });
+      }
+
+      return toRevert;
+    });
+  }
+
+  private async appliedVersions(client: PoolClient): Promise<Map<number, Date>> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR NOT NULL,
+        "appliedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    const result = await client.query('SELECT version, "appliedAt" FROM schema_migrations;');
+    return new Map(result.rows.map((row: { version: number; appliedAt: Date }) => [row.version, row.appliedAt]));
+  }
+
+  private async inTransaction(client: PoolClient, work: () => Promise<void>): Promise<void> {
+    try {
+      await client.query('BEGIN');
+      await work();
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private async withLock<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    return this.withClient(async (client) => {
+      await client.query('SELECT pg_advisory_lock($1);', [MIGRATION_LOCK_KEY]);
+      try {
+        return await work(client);
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1);', [MIGRATION_LOCK_KEY]);
+      }
+    });
+  }
+
+  private async withClient<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      return await work(client);
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { parsePhoneNumberFromString, CountryCode } from 'libphonenumber-js';
+import { ContactInput } from './types';
+
+export interface NormalizeOptions {
+  // Apply provider-specific rules such as Gmail dots and plus-tags
+  providerRules: boolean;
+  // Region used to parse phone numbers written without a country code
+  defaultRegion?: CountryCode;
+}
+
+interface ProviderRule {
+  canonicalDomain: string;
+  ignoreDots: boolean;
+  plusTags: boolean;
+}
+
+// Mailbox providers whose addresses have known aliasing rules
+const PROVIDER_RULES: Record<string, ProviderRule> = {
+  'gmail.com': { canonicalDomain: 'gmail.com', ignoreDots: true, plusTags: true },
+  'googlemail.com': { canonicalDomain: 'gmail.com', ignoreDots: true, plusTags: true },
+  'outlook.com': { canonicalDomain: 'outlook.com', ignoreDots: false, plusTags: true },
+  'hotmail.com': { canonicalDomain: 'hotmail.com', ignoreDots: false, plusTags: true },
+  'live.com': { canonicalDomain: 'live.com', ignoreDots: false, plusTags: true },
+  'icloud.com': { canonicalDomain: 'icloud.com', ignoreDots: false, plusTags: true },
+  'fastmail.com': { canonicalDomain: 'fastmail.com', ignoreDots: false, plusTags: true }
+};
+
+// Read normalization settings from the environment. Provider rules are opt-in:
+// turning them on merges customers whose addresses differ only by dots or tags.
+export function normalizeOptionsFromEnv(): NormalizeOptions {
+  return {
+    providerRules: process.env.EMAIL_PROVIDER_RULES === 'true',
+    defaultRegion: (process.env.PHONE_DEFAULT_REGION || 'IN').toUpperCase() as CountryCode
+  };
+}
+
+// Lowercase and trim an email, then apply provider aliasing rules
+export function normalizeEmail(email: string | null | undefined, options = normalizeOptionsFromEnv()): string | null {
+  if (email === null || email === undefined) {
+    return null;
+  }
+
+  const trimmed = String(email).trim().toLowerCase();
+  if (!trimmed) {
+    return null;
+  }
+
+  const at = trimmed.lastIndexOf('@');
+  if (at <= 0 || !options.providerRules) {
+    return trimmed;
+  }
+
+  let local = trimmed.slice(0, at);
+  const domain = trimmed.slice(at + 1);
+  const rule = PROVIDER_RULES[domain];
+  if (!rule) {
+    return trimmed;
+  }
+
+  if (rule.plusTags && local.includes('+')) {
+    local = local.slice(0, local.indexOf('+'));
+  }
+  if (rule.ignoreDots) {
+    local = local.replace(/\./g, '');
+  }
+
+  return `${local}@${rule.canonicalDomain}`;
+}
+
+// Parse a phone number to E.164. Numbers that cannot be parsed fall back to
+// their digits (keeping a leading '+') so formatting noise still matches.
+export function normalizePhoneNumber(phoneNumber: string | number | null | undefined, options = normalizeOptionsFromEnv()): string | null {
+  if (phoneNumber === null || phoneNumber === undefined) {
+    return null;
+  }
+
+  const trimmed = String(phoneNumber).trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const parsed = parsePhoneNumberFromString(trimmed, options.defaultRegion);
+  if (parsed && parsed.isValid()) {
+    return parsed.number;
+  }
+
+  const digits = trimmed.replace(/\D/g, '');
+  if (!digits) {
+    return null;
+  }
+  return trimmed.startsWith('+') ? `+${digits}` : digits;
+}
+
+// Canonical email and phone number for a request, keeping the submitted values alongside
+export function normalizeContact(
+  email: string | null | undefined,
+  phoneNumber: string | number | null | undefined,
+  options = normalizeOptionsFromEnv()
+): Omit<ContactInput, 'identifiers' | 'rawIdentifiers'> {
+  const canonicalEmail = normalizeEmail(email, options);
+  const canonicalPhone = normalizePhoneNumber(phoneNumber, options);
+  return {
+    email: canonicalEmail,
+    phoneNumber: canonicalPhone,
+    rawEmail: canonicalEmail === null ? null : String(email),
+    rawPhoneNumber: canonicalPhone === null ? null : String(phoneNumber)
+  };
+}
@@ -0,0 +1,242 @@
+import { TSchema } from '@sinclair/typebox';
+import { ApiScope } from './types';
+import {
+  ContactRequestSchema,
+  ErrorResponseSchema,
+  IdentifyBatchRequestSchema,
+  IdentifyBatchResponseSchema,
+  IdentifyResponseSchema,
+  IdentifyV2ResponseSchema
+} from './schemas';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './routes/contacts';
+
+// The OpenAPI document served at /openapi.json. Request and response bodies
+// come from the schemas requests are validated against, so the document
+// cannot drift from what the API accepts. Every route is listed in ENDPOINTS,
+// which /debug also reports.
+
+interface QueryParameter {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>;
+  style?: 'deepObject';
+}
+
+export interface EndpointDoc {
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  // Express-style path, e.g. /contacts/:id
+  path: string;
+  summary: string;
+  tag: string;
+  // Scope the API key needs; null for open endpoints
+  scope: ApiScope | null;
+  // Whether the endpoint acts on the caller's tenant (X-Tenant-Id)
+  tenantScoped?: boolean;
+  query?: QueryParameter[];
+  body?: string;
+  // Success status, 200 unless given
+  status?: 201 | 204;
+  // Component schema of the success response, where one is published
+  response?: string;
+  // Error statuses beyond the ones every authenticated endpoint can return
+  errors?: number[];
+}
+
+const date = (name: string, description: string): QueryParameter =>
+  ({ name, description, schema: { type: 'string', format: 'date-time' } });
+
+export const ENDPOINTS: EndpointDoc[] = [
+  { method: 'GET', path: '/', summary: 'Admin console', tag: 'Console', scope: null },
+  { method: 'GET', path: '/docs', summary: 'Browsable API documentation', tag: 'Console', scope: null },
+  { method: 'GET', path: '/openapi.json', summary: 'This OpenAPI document', tag: 'Console', scope: null },
+  { method: 'GET', path: '/health/live', summary: 'Liveness probe; /health is an alias', tag: 'Operations', scope: null },
+  { method: 'GET', path: '/health/ready', summary: 'Readiness probe: database reachable and schema current', tag: 'Operations', scope: null },
+  { method: 'GET', path: '/metrics', summary: 'Prometheus metrics', tag: 'Operations', scope: null },
+  { method: 'GET', path: '/debug', summary: 'Debug information and the endpoint list', tag: 'Operations', scope: 'admin' },
+  {
+    method: 'POST', path: '/identify', summary: 'Identify a contact, creating or merging contacts as needed', tag: 'Identify',
+    scope: 'identify:write', tenantScoped: true, body: 'ContactRequest', response: 'IdentifyResponse', errors: [400, 413, 415]
+  },
+  {
+    method: 'POST', path: '/v2/identify', tag: 'Identify', scope: 'identify:write', tenantScoped: true,
+    summary: 'Identify a contact, reporting the outcome, the identifiers that matched and every contact of the cluster',
+    body: 'ContactRequest', response: 'IdentifyV2Response', errors: [400, 413, 415]
+  },
+  {
+    method: 'POST', path: '/identify/batch', summary: 'Identify many contacts in one request', tag: 'Identify',
+    scope: 'identify:write', tenantScoped: true, body: 'IdentifyBatchRequest', response: 'IdentifyBatchResponse', errors: [400, 413, 415]
+  },
+  {
+    method: 'GET', path: '/contacts', tag: 'Contacts', scope: 'contacts:read', tenantScoped: true, errors: [400],
+    summary: 'Resolve clusters by email, phoneNumber or identifiers[type]; without those, list contacts page by page',
+    query: [
+      { name: 'email', description: 'Resolve the cluster holding this email', schema: { type: 'string' } },
+      { name: 'phoneNumber', description: 'Resolve the cluster holding this phone number', schema: { type: 'string' } },
+      { name: 'identifiers', description: 'Resolve by other identifier types, as identifiers[type]=value', schema: { type: 'object', additionalProperties: { type: 'string' } }, style: 'deepObject' },
+      { name: 'linkPrecedence', description: 'List only primaries or only secondaries', schema: { type: 'string', enum: ['primary', 'secondary'] } },
+      date('createdFrom', 'List contacts created at or after'),
+      date('createdTo', 'List contacts created at or before'),
+      date('updatedFrom', 'List contacts updated at or after'),
+      date('updatedTo', 'List contacts updated at or before'),
+      { name: 'limit', description: 'Page size', schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE } },
+      { name: 'offset', description: 'Contacts to skip', schema: { type: 'integer', minimum: 0, default: 0 } }
+    ]
+  },
+  {
+    method: 'GET', path: '/contacts/:id', summary: 'Consolidated cluster for a contact', tag: 'Contacts',
+    scope: 'contacts:read', tenantScoped: true, errors: [400, 404],
+    query: [{ name: 'expand', description: 'contacts adds every row of the cluster', schema: { type: 'string', enum: ['contacts'] } }]
+  },
+  { method: 'GET', path: '/contacts/:id/history', summary: "Merge history of a contact's cluster", tag: 'Contacts', scope: 'contacts:read', tenantScoped: true, errors: [400, 404] },
+  {
+    method: 'GET', path: '/export', summary: 'Stream every cluster as NDJSON or CSV', tag: 'Contacts',
+    scope: 'contacts:read', tenantScoped: true, errors: [400],
+    query: [
+      { name: 'format', description: 'Output format. CSV ends with one column per registered identifier type', schema: { type: 'string', enum: ['ndjson', 'csv'], default: 'ndjson' } },
+      date('since', 'Only clusters changed since, followed by those removed since')
+    ]
+  },
+  { method: 'DELETE', path: '/contacts/:id', summary: 'Soft-delete a contact', tag: 'Contacts', scope: 'admin', tenantScoped: true, errors: [400, 404] },
+  { method: 'POST', path: '/contacts/:id/erase', summary: 'Erase a whole cluster', tag: 'Contacts', scope: 'admin', tenantScoped: true, errors: [400, 404] },
+  { method: 'POST', path: '/admin/contacts/:id/unlink', summary: 'Detach a secondary into its own primary', tag: 'Admin', scope: 'admin', tenantScoped: true, errors: [400, 404, 409] },
+  { method: 'POST', path: '/admin/clusters/split', summary: 'Move contacts to a new cluster', tag: 'Admin', scope: 'admin', tenantScoped: true, errors: [400, 404, 409] },
+  { method: 'GET', path: '/admin/merge-blocks', summary: 'List merge blocks', tag: 'Admin', scope: 'admin', tenantScoped: true },
+  { method: 'POST', path: '/admin/merge-blocks', summary: 'Block two identifiers from merging', tag: 'Admin', scope: 'admin', tenantScoped: true, status: 201, errors: [400] },
+  { method: 'DELETE', path: '/admin/merge-blocks/:id', summary: 'Remove a merge block', tag: 'Admin', scope: 'admin', tenantScoped: true, status: 204, errors: [400, 404] },
+  {
+    method: 'GET', path: '/admin/merge-proposals', summary: 'List merge proposals', tag: 'Admin', scope: 'admin', tenantScoped: true, errors: [400],
+    query: [{ name: 'status', description: 'Only proposals with this status', schema: { type: 'string', enum: ['pending', 'approved', 'rejected'] } }]
+  },
+  { method: 'POST', path: '/admin/merge-proposals/:id/approve', summary: 'Approve a merge proposal and merge its clusters', tag: 'Admin', scope: 'admin', tenantScoped: true, errors: [400, 404, 409] },
+  { method: 'POST', path: '/admin/merge-proposals/:id/reject', summary: 'Reject a merge proposal', tag: 'Admin', scope: 'admin', tenantScoped: true, errors: [400, 404, 409] },
+  { method: 'GET', path: '/admin/consistency', summary: 'Report contacts that break the cluster invariants', tag: 'Admin', scope: 'admin', tenantScoped: true },
+  { method: 'POST', path: '/admin/consistency/repair', summary: 'Repair the clusters the consistency check reports', tag: 'Admin', scope: 'admin', tenantScoped: true },
+  { method: 'GET', path: '/admin/webhooks/subscribers', summary: 'List webhook subscribers', tag: 'Webhooks', scope: 'admin', tenantScoped: true },
+  { method: 'POST', path: '/admin/webhooks/subscribers', summary: 'Register a webhook subscriber', tag: 'Webhooks', scope: 'admin', tenantScoped: true, status: 201, errors: [400] },
+  { method: 'GET', path: '/admin/webhooks/subscribers/:id', summary: 'Get a webhook subscriber', tag: 'Webhooks', scope: 'admin', tenantScoped: true, errors: [400, 404] },
+  { method: 'PATCH', path: '/admin/webhooks/subscribers/:id', summary: 'Update a webhook subscriber', tag: 'Webhooks', scope: 'admin', tenantScoped: true, errors: [400, 404] },
+  { method: 'DELETE', path: '/admin/webhooks/subscribers/:id', summary: 'Remove a webhook subscriber', tag: 'Webhooks', scope: 'admin', tenantScoped: true, status: 204, errors: [400, 404] },
+  { method: 'POST', path: '/admin/webhooks/subscribers/:id/ping', summary: 'Send a test webhook', tag: 'Webhooks', scope: 'admin', tenantScoped: true, errors: [400, 404] },
+  { method: 'GET', path: '/admin/webhooks/deliveries', summary: 'List webhook deliveries', tag: 'Webhooks', scope: 'admin', tenantScoped: true, errors: [400] },
+  { method: 'POST', path: '/admin/webhooks/deliveries/replay', summary: 'Resend delivered or dead deliveries', tag: 'Webhooks', scope: 'admin', tenantScoped: true, errors: [400] },
+  { method: 'GET', path: '/admin/tenants', summary: 'List tenants with contact counts', tag: 'Tenants', scope: 'admin' },
+  { method: 'GET', path: '/admin/tenants/:tenantId/export', summary: "Stream one tenant's clusters", tag: 'Tenants', scope: 'admin', errors: [400] },
+  { method: 'DELETE', path: '/admin/tenants/:tenantId', summary: 'Wipe all data for one tenant', tag: 'Tenants', scope: 'admin', errors: [400] }
+];
+
+const COMPONENT_SCHEMAS: Record<string, TSchema> = {
+  ContactRequest: ContactRequestSchema,
+  IdentifyResponse: IdentifyResponseSchema,
+  IdentifyV2Response: IdentifyV2ResponseSchema,
+  IdentifyBatchRequest: IdentifyBatchRequestSchema,
+  IdentifyBatchResponse: IdentifyBatchResponseSchema,
+  ErrorResponse: ErrorResponseSchema
+};
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'The request is invalid',
+  401: 'Missing, unknown or revoked API key',
+  403: 'The API key lacks the scope or the tenant',
+  404: 'Not found',
+  409: 'Conflicts with the current state of the data',
+  413: 'The body is too large',
+  415: 'The body is not JSON',
+  429: 'Rate limit exceeded; see Retry-After',
+  500: 'Internal server error'
+};
+
+// Copy of a schema without the validator-only errorMessage keyword
+function publicSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(publicSchema);
+  }
+  if (schema === null || typeof schema !== 'object') {
+    return schema;
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key !== 'errorMessage') {
+      result[key] = publicSchema(value);
+    }
+  }
+  return result;
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+function operation(endpoint: EndpointDoc) {
+  const pathParameters = (endpoint.path.match(/:\w+/g) || []).map(param => ({
+    name: param.slice(1),
+    in: 'path',
+    required: true,
+    schema: param === ':id' ? { type: 'integer', minimum: 1 } : { type: 'string' }
+  }));
+  const parameters = [
+    ...pathParameters,
+    ...(endpoint.query || []).map(({ style, ...param }) => ({ ...param, in: 'query', ...(style ? { style, explode: true } : {}) })),
+    ...(endpoint.tenantScoped ? [{ $ref: '#/components/parameters/TenantId' }] : [])
+  ];
+
+  const statuses = endpoint.scope ? [...(endpoint.errors || []), 401, 403, 429, 500] : endpoint.errors || [];
+  const success = endpoint.status || 200;
+  const responses: Record<string, unknown> = {
+    [success]: endpoint.response
+      ? { description: 'OK', content: { 'application/json': { schema: ref(endpoint.response) } } }
+      : { description: success === 204 ? 'No content' : success === 201 ? 'Created' : 'OK' }
+  };
+  for (const status of Array.from(new Set(statuses)).sort()) {
+    responses[status] = { description: ERROR_DESCRIPTIONS[status], content: { 'application/json': { schema: ref('ErrorResponse') } } };
+  }
+
+  return {
+    summary: endpoint.summary,
+    tags: [endpoint.tag],
+    ...(endpoint.scope ? {
+      description: `Requires an API key with the ${endpoint.scope} scope${endpoint.scope === 'admin' ? '' : ' (or admin)'}.`,
+      security: [{ bearerAuth: [] }, { apiKeyHeader: [] }]
+    } : { security: [] }),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(endpoint.body ? { requestBody: { required: true, content: { 'application/json': { schema: ref(endpoint.body) } } } } : {}),
+    responses
+  };
+}
+
+export function buildOpenApiDocument(version = process.env.npm_package_version || '1.0.0') {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const endpoint of ENDPOINTS) {
+    const path = endpoint.path.replace(/:(\w+)/g, '{$1}');
+    paths[path] = { ...paths[path], [endpoint.method.toLowerCase()]: operation(endpoint) };
+  }
+
+  const schemas: Record<string, unknown> = {};
+  for (const [name, schema] of Object.entries(COMPONENT_SCHEMAS)) {
+    schemas[name] = publicSchema(schema);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Bitespeed Identity API',
+      version,
+      description: 'Links the emails, phone numbers and other identifiers a customer uses into one contact cluster. ' +
+        'Every error response has the ErrorResponse shape; match on its code, not its message.'
+    },
+    tags: Array.from(new Set(ENDPOINTS.map(e => e.tag))).map(name => ({ name })),
+    paths,
+    components: {
+      schemas,
+      parameters: {
+        TenantId: {
+          name: 'X-Tenant-Id',
+          in: 'header',
+          description: "Tenant to act on with an admin key that is not bound to one; defaults to the default tenant. Other unbound keys may only name the default tenant",
+          schema: { type: 'string', pattern: '^[a-z0-9][a-z0-9_-]{0,62}$' }
+        }
+      },
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Authorization: Bearer bik_<prefix>_<secret>' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      }
+    }
+  };
+}
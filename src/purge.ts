@@ -0,0 +1,42 @@
+import { ContactStore } from './store/contactStore';
+import { logger } from './logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function retentionDaysFromEnv(): number {
+  return parseInt(process.env.CONTACT_RETENTION_DAYS || '30', 10);
+}
+
+// Hard-delete contacts soft-deleted more than retentionDays ago, in batches
+// so no single transaction grows with the backlog. Returns the number removed.
+export async function purgeDeletedContacts(
+  store: ContactStore,
+  retentionDays = retentionDaysFromEnv(),
+  batchSize = 1000
+): Promise<number> {
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+  let purged = 0;
+
+  for (;;) {
+    const removed = await store.purgeDeleted(cutoff, batchSize);
+    purged += removed;
+    if (removed < batchSize) {
+      return purged;
+    }
+  }
+}
+
+// Run the purge every intervalHours inside the server process
+export function schedulePurge(store: ContactStore, intervalHours: number): NodeJS.Timeout {
+  const timer = setInterval(async () => {
+    try {
+      const purged = await purgeDeletedContacts(store);
+      logger.info(`Purged ${purged} deleted contact(s)`, { purged });
+    } catch (error) {
+      logger.error('Error purging deleted contacts', { error });
+    }
+  }, intervalHours * 60 * 60 * 1000);
+  // Never keep the process alive just for the purge
+  timer.unref();
+  return timer;
+}
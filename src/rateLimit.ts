@@ -0,0 +1,45 @@
+export interface RateLimit {
+  // Sustained rate
+  perMinute: number;
+  // Requests allowed at once before the rate applies
+  burst: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the next request would be allowed; 0 when allowed
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Token buckets kept in process memory, one per key. Each server instance
+// counts separately, so the effective limit scales with the instance count.
+export class TokenBucketLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  take(key: string, limit: RateLimit): RateLimitResult {
+    const now = this.now();
+    const refillPerMs = limit.perMinute / 60000;
+    const bucket = this.buckets.get(key) || { tokens: limit.burst, updatedAt: now };
+
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+    }
+    // A limit that never refills has no real wait; send a finite one so
+    // Retry-After stays a valid header
+    const waitMs = refillPerMs > 0 ? (1 - bucket.tokens) / refillPerMs : 60000;
+    return { allowed: false, remaining: 0, retryAfterSeconds: Math.max(1, Math.ceil(waitMs / 1000)) };
+  }
+}
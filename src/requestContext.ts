@@ -0,0 +1,40 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+
+// Per-request state that follows the request through every await, so the
+// logger and the database layer can tag their output without it being passed
+// down explicitly.
+
+interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Caller-supplied ids are kept only if they are short and plain enough to
+// put in a header, a log line and an SQL comment
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+// Id of the request being handled, if any
+export function currentRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+// Run work with the given request id as the current one
+export function withRequestId<T>(requestId: string, work: () => T): T {
+  return storage.run({ requestId }, work);
+}
+
+// Take the caller's X-Request-Id or make one up, echo it in the response and
+// make it current for the rest of the request. Mount after the body parser,
+// which would otherwise lose the context.
+export function requestId(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const id = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  res.locals.requestId = id;
+  res.setHeader(REQUEST_ID_HEADER, id);
+  withRequestId(id, () => next());
+}
@@ -0,0 +1,53 @@
+import { logger } from './logger';
+
+export interface RetryOptions {
+  // Total attempts including the first one
+  attempts: number;
+  // Delay before the first retry; doubles on each further attempt
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// PostgreSQL error codes for transactions that lost a race and can simply be
+// run again: serialization_failure and deadlock_detected
+const RETRYABLE_CODES = ['40001', '40P01'];
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = { attempts: 5, baseDelayMs: 20, maxDelayMs: 1000 };
+
+// Anything but a positive integer falls back to the default; NaN attempts
+// would retry forever
+function positiveFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name] || fallback);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+export function retryOptionsFromEnv(): RetryOptions {
+  return {
+    attempts: positiveFromEnv('IDENTIFY_MAX_ATTEMPTS', DEFAULT_RETRY_OPTIONS.attempts),
+    baseDelayMs: positiveFromEnv('IDENTIFY_RETRY_BASE_MS', DEFAULT_RETRY_OPTIONS.baseDelayMs),
+    maxDelayMs: positiveFromEnv('IDENTIFY_RETRY_MAX_MS', DEFAULT_RETRY_OPTIONS.maxDelayMs)
+  };
+}
+
+export function isRetryableError(error: unknown): boolean {
+  const code = (error as { code?: string } | null)?.code;
+  return code !== undefined && RETRYABLE_CODES.includes(code);
+}
+
+// Run work, retrying conflicts with exponential backoff and full jitter
+export async function withRetry<T>(work: () => Promise<T>, options = retryOptionsFromEnv()): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await work();
+    } catch (error) {
+      if (attempt >= options.attempts || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+      const delay = Math.floor(Math.random() * ceiling);
+      logger.warn('Transaction conflict, retrying', { attempt, attempts: options.attempts, delayMs: delay });
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
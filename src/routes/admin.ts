@@ -0,0 +1,170 @@
+import { Router, Request, Response } from 'express';
+import { requireScope } from '../auth';
+import { tenantStore } from '../tenant';
+import { ContactStore } from '../store/contactStore';
+import { ClusterCache } from '../clusterCache';
+import {
+  approveMergeProposal,
+  blockMerge,
+  deleteContact,
+  eraseCluster,
+  parseIdentifier,
+  rejectMergeProposal,
+  splitCluster,
+  unlinkContact
+} from '../admin';
+import { checkConsistency } from '../consistency';
+import { MergeProposalStatus } from '../types';
+import { NotFoundError, ValidationError } from '../errors';
+import { parseId } from './contacts';
+import { handleError } from './handleError';
+
+// Admin endpoints that change clusters: undoing bad merges and deletion
+export function createAdminRouter(store: ContactStore, cache: ClusterCache | null = null): Router {
+  const router = Router();
+
+  // Admin changes to clusters are rare, so each one drops every cached
+  // cluster of the tenant rather than working out which clusters it touched.
+  // Merge blocks only decide later merges, which are never cache hits.
+  const forgetClusters = async (res: Response) => {
+    if (cache) {
+      await cache.clear(res.locals.tenantId);
+    }
+  };
+
+  // Detach one secondary into its own primary
+  router.post('/admin/contacts/:id/unlink', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const result = await unlinkContact(tenantStore(store, res), parseId(req.params.id), { block: req.body?.block === true });
+      await forgetClusters(res);
+      return res.status(200).json(result);
+    } catch (error) {
+      return handleError(res, error, 'Error unlinking contact');
+    }
+  });
+
+  // Move a set of contacts from one cluster to a new cluster
+  router.post('/admin/clusters/split', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const contactIds = req.body?.contactIds;
+      if (!Array.isArray(contactIds) || !contactIds.every(id => Number.isInteger(id) && id > 0)) {
+        throw new ValidationError('contactIds must be an array of contact ids');
+      }
+
+      const result = await splitCluster(tenantStore(store, res), contactIds, { block: req.body.block === true });
+      await forgetClusters(res);
+      return res.status(200).json(result);
+    } catch (error) {
+      return handleError(res, error, 'Error splitting cluster');
+    }
+  });
+
+  // Soft-delete one contact, promoting a new primary if needed
+  router.delete('/contacts/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const result = await deleteContact(tenantStore(store, res), parseId(req.params.id));
+      await forgetClusters(res);
+      return res.status(200).json(result);
+    } catch (error) {
+      return handleError(res, error, 'Error deleting contact');
+    }
+  });
+
+  // Scrub and delete the whole cluster for a privacy request
+  router.post('/contacts/:id/erase', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const result = await eraseCluster(tenantStore(store, res), parseId(req.params.id));
+      await forgetClusters(res);
+      return res.status(200).json(result);
+    } catch (error) {
+      return handleError(res, error, 'Error erasing cluster');
+    }
+  });
+
+  router.get('/admin/merge-blocks', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      return res.status(200).json({ blocks: await tenantStore(store, res).listMergeBlocks() });
+    } catch (error) {
+      return handleError(res, error, 'Error listing merge blocks');
+    }
+  });
+
+  // Keep two identifiers from being merged by later /identify calls
+  router.post('/admin/merge-blocks', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const first = parseIdentifier(req.body?.first, 'first');
+      const second = parseIdentifier(req.body?.second, 'second');
+      return res.status(201).json(await blockMerge(tenantStore(store, res), first, second));
+    } catch (error) {
+      return handleError(res, error, 'Error creating merge block');
+    }
+  });
+
+  router.delete('/admin/merge-blocks/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      if (!(await tenantStore(store, res).deleteMergeBlock(id))) {
+        throw new NotFoundError(`Merge block ${id} not found`);
+      }
+      return res.status(204).send();
+    } catch (error) {
+      return handleError(res, error, 'Error deleting merge block');
+    }
+  });
+
+  // Merges waiting for review, optionally filtered by ?status=
+  router.get('/admin/merge-proposals', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const status = req.query.status;
+      if (status !== undefined && status !== 'pending' && status !== 'approved' && status !== 'rejected') {
+        throw new ValidationError('status must be "pending", "approved" or "rejected"');
+      }
+      const proposals = await tenantStore(store, res).listMergeProposals(status as MergeProposalStatus | undefined);
+      return res.status(200).json({ proposals });
+    } catch (error) {
+      return handleError(res, error, 'Error listing merge proposals');
+    }
+  });
+
+  router.post('/admin/merge-proposals/:id/approve', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const result = await approveMergeProposal(tenantStore(store, res), parseId(req.params.id));
+      await forgetClusters(res);
+      return res.status(200).json(result);
+    } catch (error) {
+      return handleError(res, error, 'Error approving merge proposal');
+    }
+  });
+
+  router.post('/admin/merge-proposals/:id/reject', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      return res.status(200).json({ proposal: await rejectMergeProposal(tenantStore(store, res), parseId(req.params.id)) });
+    } catch (error) {
+      return handleError(res, error, 'Error rejecting merge proposal');
+    }
+  });
+
+  // Report contacts that break the cluster invariants, without changing anything
+  router.get('/admin/consistency', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      return res.status(200).json(await checkConsistency(tenantStore(store, res)));
+    } catch (error) {
+      return handleError(res, error, 'Error checking consistency');
+    }
+  });
+
+  // Same check, then consolidate every cluster it found broken
+  router.post('/admin/consistency/repair', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const report = await checkConsistency(tenantStore(store, res), { fix: true });
+      if (report.repaired.length > 0) {
+        await forgetClusters(res);
+      }
+      return res.status(200).json(report);
+    } catch (error) {
+      return handleError(res, error, 'Error repairing consistency');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,128 @@
+import { Router, Request, Response } from 'express';
+import { requireScope } from '../auth';
+import { tenantStore } from '../tenant';
+import { ContactStore, ContactListFilter } from '../store/contactStore';
+import { findClusterById, findClusterDetail, findClusterHistory, findClustersByIdentifiers } from '../lookup';
+import { NotFoundError, ValidationError } from '../errors';
+import { handleError } from './handleError';
+import { parseContactRequest } from '../identify';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+// Parse an optional query parameter as a date
+function parseDate(query: Request['query'], name: string): Date | undefined {
+  const value = query[name];
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`${name} must be an ISO 8601 date`);
+  }
+  return date;
+}
+
+// Parse an optional query parameter as an integer within bounds
+export function parseInteger(query: Request['query'], name: string, fallback: number, min: number, max: number): number {
+  const value = query[name];
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new ValidationError(`${name} must be an integer between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+// Parse a route parameter as a positive integer id
+export function parseId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new ValidationError('id must be a positive integer');
+  }
+  return id;
+}
+
+function parseListFilter(query: Request['query']): ContactListFilter {
+  const linkPrecedence = query.linkPrecedence;
+  if (linkPrecedence !== undefined && linkPrecedence !== 'primary' && linkPrecedence !== 'secondary') {
+    throw new ValidationError('linkPrecedence must be "primary" or "secondary"');
+  }
+
+  return {
+    linkPrecedence,
+    createdFrom: parseDate(query, 'createdFrom'),
+    createdTo: parseDate(query, 'createdTo'),
+    updatedFrom: parseDate(query, 'updatedFrom'),
+    updatedTo: parseDate(query, 'updatedTo'),
+    limit: parseInteger(query, 'limit', DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE),
+    offset: parseInteger(query, 'offset', 0, 0, Number.MAX_SAFE_INTEGER)
+  };
+}
+
+// Read-only contact lookups. None of these routes write to the table.
+export function createContactsRouter(store: ContactStore): Router {
+  const router = Router();
+
+  // Resolve clusters by identifier, or list contacts page by page
+  router.get('/contacts', requireScope('contacts:read'), async (req: Request, res: Response) => {
+    try {
+      const { email, phoneNumber, identifiers } = req.query;
+
+      // Other types are given as identifiers[type]=value
+      if (email !== undefined || phoneNumber !== undefined || identifiers !== undefined) {
+        const clusters = await findClustersByIdentifiers(tenantStore(store, res), parseContactRequest({
+          email: email === undefined ? null : String(email),
+          phoneNumber: phoneNumber === undefined ? null : String(phoneNumber),
+          identifiers
+        }));
+        return res.status(200).json({ clusters: clusters.map(c => c.contact) });
+      }
+
+      const filter = parseListFilter(req.query);
+      const page = await tenantStore(store, res).listContacts(filter);
+      return res.status(200).json({
+        contacts: page.contacts,
+        total: page.total,
+        limit: filter.limit,
+        offset: filter.offset
+      });
+    } catch (error) {
+      return handleError(res, error, 'Error listing contacts');
+    }
+  });
+
+  // Consolidated cluster for any member id; ?expand=contacts adds the rows
+  router.get('/contacts/:id', requireScope('contacts:read'), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      const result = req.query.expand === 'contacts'
+        ? await findClusterDetail(tenantStore(store, res), id)
+        : await findClusterById(tenantStore(store, res), id);
+      if (!result) {
+        throw new NotFoundError(`Contact ${id} not found`);
+      }
+      return res.status(200).json(result);
+    } catch (error) {
+      return handleError(res, error, 'Error looking up contact');
+    }
+  });
+
+  // Merge history of the cluster a contact belongs to, oldest first
+  router.get('/contacts/:id/history', requireScope('contacts:read'), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      const events = await findClusterHistory(tenantStore(store, res), id);
+      if (!events) {
+        throw new NotFoundError(`Contact ${id} not found`);
+      }
+      return res.status(200).json({ events });
+    } catch (error) {
+      return handleError(res, error, 'Error loading contact history');
+    }
+  });
+
+  return router;
+}
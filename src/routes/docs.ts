@@ -0,0 +1,20 @@
+import path from 'path';
+import { Router, Request, Response } from 'express';
+import { buildOpenApiDocument } from '../openapi';
+
+// The OpenAPI document and the page that renders it. Both are open, like the
+// admin console they sit next to.
+export function createDocsRouter(publicDir: string): Router {
+  const router = Router();
+  const document = buildOpenApiDocument();
+
+  router.get('/openapi.json', (req: Request, res: Response) => {
+    res.status(200).json(document);
+  });
+
+  router.get('/docs', (req: Request, res: Response) => {
+    res.sendFile(path.join(publicDir, 'docs.html'));
+  });
+
+  return router;
+}
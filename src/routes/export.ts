@@ -0,0 +1,56 @@
+import { Router, Request, Response } from 'express';
+import { requireScope } from '../auth';
+import { tenantStore } from '../tenant';
+import { ContactStore } from '../store/contactStore';
+import { EXPORT_CONTENT_TYPES, ExportFormat, exportWatermark, writeExport } from '../export';
+import { ValidationError } from '../errors';
+import { logger } from '../logger';
+import { handleError } from './handleError';
+
+// Stream store's clusters as the response, in the format and since window
+// the query asks for
+export async function sendExport(store: ContactStore, req: Request, res: Response) {
+  let format: ExportFormat;
+  let changedSince: Date | undefined;
+  let watermark: Date;
+  try {
+    format = (req.query.format ?? 'ndjson') as ExportFormat;
+    if (format !== 'ndjson' && format !== 'csv') {
+      throw new ValidationError('format must be "ndjson" or "csv"');
+    }
+    if (req.query.since !== undefined) {
+      changedSince = new Date(String(req.query.since));
+      if (isNaN(changedSince.getTime())) {
+        throw new ValidationError('since must be an ISO 8601 date');
+      }
+    }
+    // Taken before reading anything; see exportWatermark
+    watermark = await exportWatermark(store);
+  } catch (error) {
+    return handleError(res, error, 'Error starting export');
+  }
+
+  res.status(200);
+  res.setHeader('Content-Type', `${EXPORT_CONTENT_TYPES[format]}; charset=utf-8`);
+  res.setHeader('X-Export-Watermark', watermark.toISOString());
+
+  try {
+    await writeExport(store, res, { format, changedSince });
+    res.end();
+  } catch (error) {
+    // Headers are already sent; cut the response short so the client sees a failure
+    logger.error('Error streaming export', { error });
+    res.destroy(error as Error);
+  }
+}
+
+// Streaming snapshot of every consolidated cluster for analytics
+export function createExportRouter(store: ContactStore): Router {
+  const router = Router();
+
+  router.get('/export', requireScope('contacts:read'), async (req: Request, res: Response) => {
+    await sendExport(tenantStore(store, res), req, res);
+  });
+
+  return router;
+}
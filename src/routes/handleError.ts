@@ -0,0 +1,19 @@
+import { Response } from 'express';
+import { ConflictError, errorBody, NotFoundError, ValidationError } from '../errors';
+import { logger } from '../logger';
+
+// Map known errors to their status codes; anything else is logged as a 500
+export function handleError(res: Response, error: unknown, context: string) {
+  if (error instanceof ValidationError) {
+    return res.status(400).json(errorBody(error.code, error.message, error.details));
+  }
+  if (error instanceof NotFoundError) {
+    return res.status(404).json(errorBody(error.code, error.message));
+  }
+  if (error instanceof ConflictError) {
+    return res.status(409).json(errorBody(error.code, error.message));
+  }
+
+  logger.error(context, { error });
+  return res.status(500).json(errorBody('internal_error', 'Internal server error'));
+}
@@ -0,0 +1,35 @@
+import { Router, Request, Response } from 'express';
+import type { Pool } from 'pg';
+import { checkReadiness } from '../health';
+import { registry } from '../metrics';
+import { Migrator } from '../migrator';
+
+// Probes and metrics for the orchestrator and Prometheus. None of these need
+// an API key and none of them expose customer data.
+export function createHealthRouter(pool: Pool, migrator = new Migrator(pool)): Router {
+  const router = Router();
+
+  // Liveness: the process is up and serving. Never touches the database, so
+  // a database outage does not get the container restarted.
+  const live = (req: Request, res: Response) => {
+    res.status(200).json({ status: 'OK' });
+  };
+  router.get('/health', live);
+  router.get('/health/live', live);
+
+  // Readiness: the database answers and the schema is current
+  router.get('/health/ready', async (req: Request, res: Response) => {
+    const readiness = await checkReadiness(pool, migrator);
+    res.status(readiness.ready ? 200 : 503).json({
+      status: readiness.ready ? 'OK' : 'UNAVAILABLE',
+      checks: readiness.checks
+    });
+  });
+
+  router.get('/metrics', async (req: Request, res: Response) => {
+    res.set('Content-Type', registry.contentType);
+    res.end(await registry.metrics());
+  });
+
+  return router;
+}
@@ -0,0 +1,53 @@
+import { Router, Request, Response } from 'express';
+import { requireScope } from '../auth';
+import { tenantStore } from '../tenant';
+import { ContactStore } from '../store/contactStore';
+import { ClusterCache } from '../clusterCache';
+import { BatchMode, batchMaxItemsFromEnv, identifyBatch } from '../batch';
+import { ValidationError } from '../errors';
+import { buildV2Response, identifyWithOutcome, parseContactRequest } from '../identify';
+import { requireJson } from '../validation';
+import { handleError } from './handleError';
+
+// Variants of POST /identify: the detailed v2 response, and batches for bulk
+// callers such as the order sync
+export function createIdentifyRouter(
+  store: ContactStore,
+  cache: ClusterCache | null = null,
+  maxItems = batchMaxItemsFromEnv()
+): Router {
+  const router = Router();
+
+  // Same reconciliation as /identify, reporting what the call changed and why
+  router.post('/v2/identify', requireScope('identify:write'), requireJson, async (req: Request, res: Response) => {
+    try {
+      const outcome = await identifyWithOutcome(tenantStore(store, res), parseContactRequest(req.body), cache);
+      return res.status(200).json(buildV2Response(outcome));
+    } catch (error) {
+      return handleError(res, error, 'Error processing v2 identify request');
+    }
+  });
+
+  router.post('/identify/batch', requireScope('identify:write'), requireJson, async (req: Request, res: Response) => {
+    try {
+      const items = req.body?.items;
+      if (!Array.isArray(items) || items.length === 0) {
+        throw new ValidationError('items must be a non-empty array of identify requests');
+      }
+      if (items.length > maxItems) {
+        throw new ValidationError(`A batch may contain at most ${maxItems} items`);
+      }
+
+      const mode: BatchMode = req.body.mode ?? 'independent';
+      if (mode !== 'atomic' && mode !== 'independent') {
+        throw new ValidationError('mode must be "atomic" or "independent"');
+      }
+
+      return res.status(200).json(await identifyBatch(tenantStore(store, res), items, mode, cache));
+    } catch (error) {
+      return handleError(res, error, 'Error processing identify batch');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,72 @@
+import { Router, Request, Response } from 'express';
+import { requireScope } from '../auth';
+import { canAccessTenant, parseTenantId } from '../tenant';
+import { ContactStore } from '../store/contactStore';
+import { ClusterCache } from '../clusterCache';
+import { errorBody, ValidationError } from '../errors';
+import { logger } from '../logger';
+import { handleError } from './handleError';
+import { sendExport } from './export';
+
+// Tenant-level admin: list tenants, export or wipe one. The tenant comes from
+// the path; keys bound to a tenant can only reach their own.
+export function createTenantsRouter(store: ContactStore, cache: ClusterCache | null = null): Router {
+  const router = Router();
+
+  // The path's tenant, or null after answering 400/403
+  const pathTenant = (req: Request, res: Response): string | null => {
+    let tenantId: string;
+    try {
+      tenantId = parseTenantId(req.params.tenantId);
+    } catch (error) {
+      handleError(res, error, 'Error reading tenant');
+      return null;
+    }
+    if (!canAccessTenant(res, tenantId)) {
+      res.status(403).json(errorBody('forbidden', `API key is not valid for tenant ${tenantId}`));
+      return null;
+    }
+    return tenantId;
+  };
+
+  router.get('/admin/tenants', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const tenants = await store.listTenants();
+      return res.status(200).json({ tenants: tenants.filter(t => canAccessTenant(res, t.tenantId)) });
+    } catch (error) {
+      return handleError(res, error, 'Error listing tenants');
+    }
+  });
+
+  // Same stream as GET /export, for the named tenant
+  router.get('/admin/tenants/:tenantId/export', requireScope('admin'), async (req: Request, res: Response) => {
+    const tenantId = pathTenant(req, res);
+    if (tenantId) {
+      await sendExport(store.forTenant(tenantId), req, res);
+    }
+  });
+
+  // Hard-delete every contact, event, merge block, outbox event and webhook
+  // subscriber of the tenant. The body must repeat the tenant id.
+  router.delete('/admin/tenants/:tenantId', requireScope('admin'), async (req: Request, res: Response) => {
+    const tenantId = pathTenant(req, res);
+    if (!tenantId) {
+      return;
+    }
+    try {
+      if (req.body?.confirm !== tenantId) {
+        throw new ValidationError(`Send {"confirm": "${tenantId}"} to wipe this tenant`);
+      }
+      const removed = await store.forTenant(tenantId).wipeTenant();
+      if (cache) {
+        await cache.clear(tenantId);
+      }
+      logger.info(`Wiped tenant ${tenantId}`, { removed });
+      return res.status(200).json({ tenantId, removed });
+    } catch (error) {
+      return handleError(res, error, 'Error wiping tenant');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,156 @@
+import { Router, Request, Response } from 'express';
+import { requireScope } from '../auth';
+import { tenantStore } from '../tenant';
+import { ContactStore, DeliveryListFilter, DeliveryReplayFilter } from '../store/contactStore';
+import { WebhookSubscriber } from '../types';
+import { parseSubscriberInput, pingSubscriber } from '../webhooks';
+import { NotFoundError, ValidationError } from '../errors';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, parseId, parseInteger } from './contacts';
+import { handleError } from './handleError';
+
+// Secrets are only shown when a subscriber is created
+const redact = ({ secret, ...subscriber }: WebhookSubscriber) => subscriber;
+
+function parseDeliveryFilter(query: Request['query']): DeliveryListFilter {
+  const status = query.status;
+  if (status !== undefined && status !== 'pending' && status !== 'delivered' && status !== 'dead') {
+    throw new ValidationError('status must be "pending", "delivered" or "dead"');
+  }
+
+  return {
+    status,
+    subscriberId: query.subscriberId === undefined ? undefined : parseId(String(query.subscriberId)),
+    eventId: query.eventId === undefined ? undefined : parseId(String(query.eventId)),
+    limit: parseInteger(query, 'limit', DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE),
+    offset: parseInteger(query, 'offset', 0, 0, Number.MAX_SAFE_INTEGER)
+  };
+}
+
+function parseReplayFilter(body: any): DeliveryReplayFilter {
+  const filter: DeliveryReplayFilter = {};
+
+  if (body?.deliveryIds !== undefined) {
+    if (!Array.isArray(body.deliveryIds) || !body.deliveryIds.every((id: unknown) => Number.isInteger(id) && (id as number) > 0)) {
+      throw new ValidationError('deliveryIds must be an array of delivery ids');
+    }
+    filter.deliveryIds = body.deliveryIds;
+  }
+  if (body?.subscriberId !== undefined) {
+    filter.subscriberId = parseId(String(body.subscriberId));
+  }
+  if (body?.status !== undefined) {
+    if (body.status !== 'delivered' && body.status !== 'dead') {
+      throw new ValidationError('status must be "delivered" or "dead"');
+    }
+    filter.status = body.status;
+  }
+
+  if (Object.keys(filter).length === 0) {
+    throw new ValidationError('Provide deliveryIds, subscriberId or status');
+  }
+  return filter;
+}
+
+// Webhook subscriber management and delivery inspection. Deliveries
+// themselves are sent by the dispatcher, not by these routes.
+export function createWebhooksRouter(store: ContactStore): Router {
+  const router = Router();
+
+  router.get('/admin/webhooks/subscribers', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const subscribers = await tenantStore(store, res).listSubscribers();
+      return res.status(200).json({ subscribers: subscribers.map(redact) });
+    } catch (error) {
+      return handleError(res, error, 'Error listing webhook subscribers');
+    }
+  });
+
+  // Register a URL; a signing secret is generated unless one is supplied
+  router.post('/admin/webhooks/subscribers', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const subscriber = await tenantStore(store, res).insertSubscriber(parseSubscriberInput(req.body, false));
+      return res.status(201).json(subscriber);
+    } catch (error) {
+      return handleError(res, error, 'Error creating webhook subscriber');
+    }
+  });
+
+  router.get('/admin/webhooks/subscribers/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      const subscriber = await tenantStore(store, res).findSubscriber(id);
+      if (!subscriber) {
+        throw new NotFoundError(`Webhook subscriber ${id} not found`);
+      }
+      return res.status(200).json(redact(subscriber));
+    } catch (error) {
+      return handleError(res, error, 'Error loading webhook subscriber');
+    }
+  });
+
+  router.patch('/admin/webhooks/subscribers/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      const subscriber = await tenantStore(store, res).updateSubscriber(id, parseSubscriberInput(req.body, true));
+      if (!subscriber) {
+        throw new NotFoundError(`Webhook subscriber ${id} not found`);
+      }
+      return res.status(200).json(redact(subscriber));
+    } catch (error) {
+      return handleError(res, error, 'Error updating webhook subscriber');
+    }
+  });
+
+  router.delete('/admin/webhooks/subscribers/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      if (!(await tenantStore(store, res).deleteSubscriber(id))) {
+        throw new NotFoundError(`Webhook subscriber ${id} not found`);
+      }
+      return res.status(204).send();
+    } catch (error) {
+      return handleError(res, error, 'Error deleting webhook subscriber');
+    }
+  });
+
+  // Send a signed test request straight away and report the outcome
+  router.post('/admin/webhooks/subscribers/:id/ping', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      const subscriber = await tenantStore(store, res).findSubscriber(id);
+      if (!subscriber) {
+        throw new NotFoundError(`Webhook subscriber ${id} not found`);
+      }
+      return res.status(200).json(await pingSubscriber(subscriber));
+    } catch (error) {
+      return handleError(res, error, 'Error pinging webhook subscriber');
+    }
+  });
+
+  router.get('/admin/webhooks/deliveries', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const filter = parseDeliveryFilter(req.query);
+      const page = await tenantStore(store, res).listDeliveries(filter);
+      return res.status(200).json({
+        deliveries: page.deliveries,
+        total: page.total,
+        limit: filter.limit,
+        offset: filter.offset
+      });
+    } catch (error) {
+      return handleError(res, error, 'Error listing webhook deliveries');
+    }
+  });
+
+  // Queue delivered or dead-lettered deliveries to be sent again
+  router.post('/admin/webhooks/deliveries/replay', requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const replayed = await tenantStore(store, res).replayDeliveries(parseReplayFilter(req.body));
+      return res.status(200).json({ replayed });
+    } catch (error) {
+      return handleError(res, error, 'Error replaying webhook deliveries');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,129 @@
+import { TSchema, Type } from '@sinclair/typebox';
+import { ERROR_CODES } from './errors';
+
+// JSON schemas of the public request and response bodies. They are the single
+// source for request validation, the TypeScript types in types.ts and the
+// OpenAPI document. errorMessage replaces the generic validator message for a
+// failed check.
+
+const Nullable = <T extends TSchema>(schema: T) => Type.Union([schema, Type.Null()]);
+
+// Blank strings are allowed and treated as absent, as are surrounding spaces
+export const EmailSchema = Type.String({
+  maxLength: 254,
+  pattern: '^\\s*([^\\s@]+@[^\\s@]+\\.[^\\s@]+)?\\s*$',
+  errorMessage: 'must be an email address of at most 254 characters',
+  examples: ['lorraine@hillvalley.edu']
+});
+
+// Digits with an optional leading + and the usual separators
+export const PhoneNumberSchema = Type.Union([
+  Type.String({
+    maxLength: 32,
+    pattern: '^\\s*\\+?[0-9\\s().-]*$',
+    errorMessage: 'must be a phone number of at most 32 characters: digits, an optional leading +, spaces, dots, dashes or brackets'
+  }),
+  Type.Integer({ minimum: 0, maximum: 999999999999999, errorMessage: 'must be a phone number of at most 15 digits' })
+], { errorMessage: 'must be a phone number, as a string or an integer', examples: ['+91 98765 43210'] });
+
+export const IdentifierValueSchema = Type.Union([
+  Type.String({ maxLength: 256, errorMessage: 'must be at most 256 characters' }),
+  Type.Number()
+], { errorMessage: 'must be a string or number' });
+
+export const ContactRequestSchema = Type.Object({
+  email: Type.Optional(Nullable(EmailSchema)),
+  phoneNumber: Type.Optional(Nullable(PhoneNumberSchema)),
+  identifiers: Type.Optional(Nullable(Type.Record(Type.String(), Nullable(IdentifierValueSchema), {
+    description: 'Values of registered identifier types, by type. email and phoneNumber may be given here too.',
+    errorMessage: 'must be an object mapping identifier types to values',
+    examples: [{ loyaltyId: 'LOY-1042' }]
+  }))),
+  verified: Type.Optional(Nullable(Type.Array(Type.String({ maxLength: 64, errorMessage: 'must be an identifier type' }), {
+    maxItems: 16,
+    description: 'Types whose submitted value the caller has verified, e.g. by a one-time code',
+    errorMessage: 'must be an array of at most 16 identifier types'
+  })))
+}, {
+  description: 'Any field may be omitted or null, but at least one usable identifier is required',
+  errorMessage: 'must be an object with email, phoneNumber and/or identifiers'
+});
+
+export const IdentifyResponseSchema = Type.Object({
+  contact: Type.Object({
+    primaryContactId: Type.Integer(),
+    emails: Type.Array(Type.String(), { description: "Canonical emails, the primary's first" }),
+    phoneNumbers: Type.Array(Type.String(), { description: "Canonical phone numbers, the primary's first" }),
+    secondaryContactIds: Type.Array(Type.Integer()),
+    identifiers: Type.Record(Type.String(), Type.Array(Type.String()), {
+      description: "Every identifier in the cluster grouped by type, primary's values first"
+    })
+  })
+});
+
+export const IdentifyOutcomeSchema = Type.Union([
+  Type.Literal('created'),
+  Type.Literal('matched'),
+  Type.Literal('extended'),
+  Type.Literal('merged')
+], {
+  description: 'created: no contact matched, so a new primary was created. ' +
+    'matched: the request only repeated identifiers the cluster already had. ' +
+    'extended: the request added new identifiers to the cluster as a secondary. ' +
+    'merged: the request linked separate clusters and their primaries were demoted.'
+});
+
+export const IdentifierSchema = Type.Object({
+  type: Type.String({ examples: ['email'] }),
+  value: Type.String({ description: 'Canonical value', examples: ['lorraine@hillvalley.edu'] })
+});
+
+export const ClusterContactSchema = Type.Object({
+  id: Type.Integer(),
+  linkPrecedence: Type.Union([Type.Literal('primary'), Type.Literal('secondary')]),
+  linkedId: Nullable(Type.Integer()),
+  createdAt: Type.String({ format: 'date-time' }),
+  identifiers: Type.Record(Type.String(), Type.String(), {
+    description: "The contact's canonical identifiers by type, email and phoneNumber included"
+  })
+});
+
+export const IdentifyV2ResponseSchema = Type.Object({
+  outcome: IdentifyOutcomeSchema,
+  primaryContactId: Type.Integer(),
+  contacts: Type.Array(ClusterContactSchema, { description: 'Every contact of the cluster, the primary first' }),
+  identifiers: Type.Record(Type.String(), Type.Array(Type.String()), {
+    description: "Every identifier in the cluster grouped by type, primary's values first"
+  }),
+  matchedIdentifiers: Type.Array(IdentifierSchema, {
+    description: 'Requested identifiers the cluster already held before this call'
+  }),
+  demotedPrimaryContactIds: Type.Array(Type.Integer(), { description: 'Primaries demoted into this cluster by this call' }),
+  createdContactId: Nullable(Type.Integer({ description: 'Contact inserted by this call, if any' }))
+});
+
+export const IdentifyBatchRequestSchema = Type.Object({
+  items: Type.Array(ContactRequestSchema, { minItems: 1, description: 'Processed in order; at most IDENTIFY_BATCH_MAX_ITEMS' }),
+  mode: Type.Optional(Type.Union([Type.Literal('independent'), Type.Literal('atomic')], {
+    description: 'atomic commits every item or none; independent commits each item on its own',
+    default: 'independent'
+  }))
+});
+
+export const ErrorResponseSchema = Type.Object({
+  error: Type.String({ description: 'Human-readable message; may change' }),
+  code: Type.Union(ERROR_CODES.map(code => Type.Literal(code)), { description: 'Stable machine-readable code' }),
+  details: Type.Optional(Type.Array(Type.Object({
+    path: Type.String({ description: 'JSON pointer into the request body, or into the item for batch results', examples: ['/email'] }),
+    message: Type.String()
+  })))
+});
+
+export const IdentifyBatchResponseSchema = Type.Object({
+  mode: Type.Union([Type.Literal('independent'), Type.Literal('atomic')]),
+  committed: Type.Integer({ description: 'Items whose changes were committed' }),
+  results: Type.Array(Type.Union([
+    Type.Object({ ok: Type.Literal(true), response: IdentifyResponseSchema }),
+    Type.Composite([Type.Object({ ok: Type.Literal(false) }), ErrorResponseSchema])
+  ]), { description: 'One entry per item, in request order' })
+});
@@ -0,0 +1,19 @@
+import { ApiKey, ApiKeyInput } from '../types';
+
+// Persistence for API keys. Kept apart from ContactStore since keys never
+// take part in contact transactions.
+export interface ApiKeyStore {
+  // The key with this prefix, revoked or not
+  findByPrefix(prefix: string): Promise<ApiKey | null>;
+
+  // Every key, oldest first
+  list(): Promise<ApiKey[]>;
+
+  insert(input: ApiKeyInput): Promise<ApiKey>;
+
+  // Returns false if no unrevoked key had that id
+  revoke(id: number): Promise<boolean>;
+
+  // Record that the key was used
+  touch(id: number, usedAt: Date): Promise<void>;
+}
@@ -0,0 +1,270 @@
+import {
+  Contact,
+  ContactEvent,
+  ContactEventInput,
+  ContactInput,
+  Identifier,
+  LinkPrecedence,
+  MergeBlock,
+  MergeProposal,
+  MergeProposalStatus,
+  OutboxEvent,
+  OutboxEventInput,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookDeliveryUpdate,
+  WebhookSubscriber,
+  WebhookSubscriberInput
+} from '../types';
+
+// Filters and paging for listing contacts. Time bounds are inclusive.
+export interface ContactListFilter {
+  linkPrecedence?: LinkPrecedence;
+  createdFrom?: Date;
+  createdTo?: Date;
+  updatedFrom?: Date;
+  updatedTo?: Date;
+  limit: number;
+  offset: number;
+}
+
+export interface ContactPage {
+  contacts: Contact[];
+  // Matching contacts across all pages
+  total: number;
+}
+
+// Filters and paging for listing webhook deliveries
+export interface DeliveryListFilter {
+  status?: WebhookDeliveryStatus;
+  subscriberId?: number;
+  eventId?: number;
+  limit: number;
+  offset: number;
+}
+
+export interface DeliveryPage {
+  deliveries: WebhookDelivery[];
+  total: number;
+}
+
+// Which deliveries to send again. Set fields combine with AND; callers set at
+// least one so a replay never resends everything by accident.
+export interface DeliveryReplayFilter {
+  deliveryIds?: number[];
+  subscriberId?: number;
+  status?: Exclude<WebhookDeliveryStatus, 'pending'>;
+}
+
+export interface TenantSummary {
+  tenantId: string;
+  // Live contacts and live primaries
+  contacts: number;
+  clusters: number;
+}
+
+// Rows removed by wipeTenant
+export interface TenantWipeResult {
+  contacts: number;
+  events: number;
+  mergeBlocks: number;
+  mergeProposals: number;
+  verifiedIdentifiers: number;
+  outboxEvents: number;
+  subscribers: number;
+}
+
+// Persistence boundary for the reconciliation logic. identifyContact only
+// talks to this interface, so the same rules run against PostgreSQL or memory.
+// Soft-deleted contacts are invisible to every finder.
+//
+// A store is scoped to one tenant: contacts, merge blocks, merge proposals,
+// verified identifiers, outbox events and subscribers are read and written
+// for that tenant only. Methods used by
+// background jobs (purge, outbox claiming, delivery sending) span every
+// tenant and say so.
+export interface ContactStore {
+  readonly tenantId: string;
+
+  // The same store scoped to another tenant, sharing any open transaction
+  forTenant(tenantId: string): ContactStore;
+
+  // Every tenant with contacts, by id. Spans tenants.
+  listTenants(): Promise<TenantSummary[]>;
+
+  // Hard-delete everything stored for this tenant
+  wipeTenant(): Promise<TenantWipeResult>;
+
+  // Contacts holding any of the canonical identifiers, oldest first
+  findByIdentifiers(identifiers: Identifier[]): Promise<Contact[]>;
+
+  // Contacts with the given ids, oldest first
+  findByIds(ids: number[]): Promise<Contact[]>;
+
+  // Every contact reachable from the given ids through linkedId, in either
+  // direction and across any depth, oldest first
+  findCluster(ids: number[]): Promise<Contact[]>;
+
+  // One page of contacts in id order
+  listContacts(filter: ContactListFilter): Promise<ContactPage>;
+
+  // Up to limit live primaries with id greater than afterId, in id order.
+  // With changedSince, only primaries whose cluster has a row (live or
+  // deleted) updated after it.
+  listPrimaries(afterId: number, limit: number, changedSince?: Date): Promise<Contact[]>;
+
+  // Up to limit ids greater than afterId of contacts that stopped leading a
+  // cluster after since (demoted, deleted or erased), in id order. Some may
+  // lead one again by now.
+  listFormerPrimaries(since: Date, afterId: number, limit: number): Promise<number[]>;
+
+  // The current time by the clock that stamps createdAt and updatedAt
+  currentTime(): Promise<Date>;
+
+  // Contacts linked directly to the given primary
+  findLinked(primaryId: number): Promise<Contact[]>;
+
+  insertPrimary(input: ContactInput): Promise<Contact>;
+
+  insertSecondary(input: ContactInput, linkedId: number): Promise<Contact>;
+
+  // Make a contact a primary with no link
+  promote(contactId: number): Promise<void>;
+
+  // Turn a contact into a secondary of the given primary
+  demote(contactId: number, primaryId: number): Promise<void>;
+
+  // Point every contact linked to fromId at toId instead
+  relink(fromId: number, toId: number): Promise<void>;
+
+  // Mark contacts deleted. Links are left as they are; callers re-link the
+  // rest of the cluster first.
+  softDelete(ids: number[]): Promise<void>;
+
+  // Clear every identifier (canonical and raw) on the given contacts
+  scrub(ids: number[]): Promise<void>;
+
+  // Hard-delete up to limit contacts soft-deleted before the cutoff, with
+  // their events, and return how many were removed. Rows a live contact still
+  // links to are kept. Spans tenants.
+  purgeDeleted(deletedBefore: Date, limit: number): Promise<number>;
+
+  // Append entries to the contact_events log
+  recordEvents(events: ContactEventInput[]): Promise<void>;
+
+  // Events about the given contacts of this tenant, including events that
+  // linked other contacts to or away from them, oldest first
+  findEvents(contactIds: number[]): Promise<ContactEvent[]>;
+
+  // Clear the request identifiers recorded on the events of the given
+  // contacts of this tenant
+  scrubEvents(contactIds: number[]): Promise<void>;
+
+  // Merge blocks that involve any of the given identifiers
+  findMergeBlocks(identifiers: Identifier[]): Promise<MergeBlock[]>;
+
+  listMergeBlocks(): Promise<MergeBlock[]>;
+
+  // Block two identifiers from sharing a cluster. Blocking a pair that is
+  // already blocked (in either order) returns the existing block.
+  insertMergeBlock(first: Identifier, second: Identifier): Promise<MergeBlock>;
+
+  // Returns false if no block had that id
+  deleteMergeBlock(id: number): Promise<boolean>;
+
+  // Remove every block involving the given identifiers; returns how many
+  deleteMergeBlocksFor(identifiers: Identifier[]): Promise<number>;
+
+  // Record a pending proposal to merge the clusters led by these primaries
+  insertMergeProposal(primaryContactIds: number[], identifiers: Identifier[]): Promise<MergeProposal>;
+
+  // Proposals of any status naming any of the given primaries, oldest first
+  findMergeProposals(primaryContactIds: number[]): Promise<MergeProposal[]>;
+
+  // Every proposal, or only those with the given status, oldest first
+  listMergeProposals(status?: MergeProposalStatus): Promise<MergeProposal[]>;
+
+  // Read a proposal and hold it until the transaction ends, or null if it does not exist
+  lockMergeProposal(id: number): Promise<MergeProposal | null>;
+
+  // Mark a proposal approved or rejected
+  resolveMergeProposal(id: number, status: MergeProposalStatus): Promise<MergeProposal>;
+
+  // Remove every proposal naming any of the given contacts; returns how many
+  deleteMergeProposalsFor(contactIds: number[]): Promise<number>;
+
+  // Record that these identifier values have been verified. Verifying a
+  // value again keeps its first verification time.
+  markVerified(identifiers: Identifier[]): Promise<void>;
+
+  // Those of the given identifiers that have been verified
+  findVerified(identifiers: Identifier[]): Promise<Identifier[]>;
+
+  // Forget the verification of the given identifiers
+  unverify(identifiers: Identifier[]): Promise<void>;
+
+  // Append entries to the webhook outbox
+  appendOutbox(events: OutboxEventInput[]): Promise<void>;
+
+  // Take up to limit undispatched outbox events, oldest first, and mark them
+  // dispatched. Events claimed by another open transaction are skipped.
+  // Spans tenants.
+  claimOutbox(limit: number): Promise<OutboxEvent[]>;
+
+  // Spans tenants
+  findOutboxEvents(ids: number[]): Promise<OutboxEvent[]>;
+
+  // Replace the payload of every outbox event of this tenant about the given contacts
+  scrubOutbox(contactIds: number[]): Promise<void>;
+
+  listSubscribers(): Promise<WebhookSubscriber[]>;
+
+  findSubscriber(id: number): Promise<WebhookSubscriber | null>;
+
+  insertSubscriber(input: WebhookSubscriberInput): Promise<WebhookSubscriber>;
+
+  // Returns null if no subscriber had that id
+  updateSubscriber(id: number, changes: Partial<WebhookSubscriberInput>): Promise<WebhookSubscriber | null>;
+
+  // Removes the subscriber's deliveries too. Returns false if no subscriber had that id.
+  deleteSubscriber(id: number): Promise<boolean>;
+
+  // Queue a pending delivery of the event to each subscriber. Spans tenants,
+  // as do claimDeliveries and updateDelivery.
+  insertDeliveries(eventId: number, subscriberIds: number[]): Promise<void>;
+
+  // Take up to limit pending deliveries that are due, oldest first, and push
+  // their next attempt to leaseUntil so no other dispatcher sends them
+  // meanwhile. A dispatcher that dies mid-send leaves them due again later.
+  claimDeliveries(limit: number, leaseUntil: Date): Promise<WebhookDelivery[]>;
+
+  updateDelivery(id: number, update: WebhookDeliveryUpdate): Promise<void>;
+
+  // One page of deliveries to this tenant's subscribers, newest first
+  listDeliveries(filter: DeliveryListFilter): Promise<DeliveryPage>;
+
+  // Reset matching deliveries to pending with no attempts, due now; returns how many
+  replayDeliveries(filter: DeliveryReplayFilter): Promise<number>;
+
+  // Hold a lock on each identifier key until the transaction ends, so
+  // requests that share an email or phone number run one after another
+  lockIdentifiers(keys: string[]): Promise<void>;
+
+  // Row-lock the given contacts until the transaction ends. Locking a
+  // cluster's primary locks the cluster against concurrent merges.
+  lockContacts(ids: number[]): Promise<void>;
+
+  // Run work atomically. Calling this on a store that is already inside a
+  // transaction joins the outer one.
+  transaction<T>(work: (store: ContactStore) => Promise<T>): Promise<T>;
+
+  // Run work in a transaction that is always rolled back and return its
+  // result. Identifier locks are skipped: a preview may touch more
+  // identifiers than one transaction can lock. Cannot run inside another
+  // transaction.
+  preview<T>(work: (store: ContactStore) => Promise<T>): Promise<T>;
+
+  // Run work on one dedicated connection. Transactions started through the
+  // session store reuse that connection instead of checking one out each.
+  withSession<T>(work: (store: ContactStore) => Promise<T>): Promise<T>;
+}
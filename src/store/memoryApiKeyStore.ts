@@ -0,0 +1,47 @@
+import { ApiKey, ApiKeyInput } from '../types';
+import { ApiKeyStore } from './apiKeyStore';
+
+const copy = (key: ApiKey): ApiKey => ({ ...key, scopes: [...key.scopes] });
+
+// ApiKeyStore kept in memory, for running the server without a database
+export class InMemoryApiKeyStore implements ApiKeyStore {
+  private keys: ApiKey[] = [];
+  private nextId = 1;
+
+  async findByPrefix(prefix: string): Promise<ApiKey | null> {
+    const key = this.keys.find(k => k.prefix === prefix);
+    return key ? copy(key) : null;
+  }
+
+  async list(): Promise<ApiKey[]> {
+    return this.keys.map(copy);
+  }
+
+  async insert(input: ApiKeyInput): Promise<ApiKey> {
+    const key: ApiKey = copy({
+      ...input,
+      id: this.nextId++,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null
+    });
+    this.keys.push(key);
+    return copy(key);
+  }
+
+  async revoke(id: number): Promise<boolean> {
+    const key = this.keys.find(k => k.id === id && k.revokedAt === null);
+    if (!key) {
+      return false;
+    }
+    key.revokedAt = new Date();
+    return true;
+  }
+
+  async touch(id: number, usedAt: Date): Promise<void> {
+    const key = this.keys.find(k => k.id === id);
+    if (key) {
+      key.lastUsedAt = usedAt;
+    }
+  }
+}
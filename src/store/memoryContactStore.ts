@@ -0,0 +1,758 @@
+import {
+  Contact,
+  ContactEvent,
+  ContactEventInput,
+  ContactInput,
+  Identifier,
+  MergeBlock,
+  MergeProposal,
+  MergeProposalStatus,
+  OutboxEvent,
+  OutboxEventInput,
+  WebhookDelivery,
+  WebhookDeliveryUpdate,
+  WebhookSubscriber,
+  WebhookSubscriberInput
+} from '../types';
+import {
+  ContactListFilter,
+  ContactPage,
+  ContactStore,
+  DeliveryListFilter,
+  DeliveryPage,
+  DeliveryReplayFilter,
+  TenantSummary,
+  TenantWipeResult
+} from './contactStore';
+import { DEFAULT_TENANT } from '../tenant';
+import { identifiersOf } from '../identifiers';
+
+// Merge blocks are kept with their tenant, which MergeBlock does not expose
+type StoredMergeBlock = MergeBlock & { tenantId: string };
+
+type StoredMergeProposal = MergeProposal & { tenantId: string };
+
+interface VerifiedIdentifier extends Identifier {
+  tenantId: string;
+  verifiedAt: Date;
+}
+
+// Everything a transaction can change; copied on begin, restored on rollback
+interface MemoryData {
+  contacts: Contact[];
+  nextId: number;
+  mergeBlocks: StoredMergeBlock[];
+  nextMergeBlockId: number;
+  mergeProposals: StoredMergeProposal[];
+  nextMergeProposalId: number;
+  verified: VerifiedIdentifier[];
+  events: ContactEvent[];
+  nextEventId: number;
+  outbox: OutboxEvent[];
+  nextOutboxId: number;
+  subscribers: WebhookSubscriber[];
+  nextSubscriberId: number;
+  deliveries: WebhookDelivery[];
+  nextDeliveryId: number;
+}
+
+interface MemoryState {
+  data: MemoryData;
+  // Tail of the transaction queue; transactions run one at a time
+  lock: Promise<unknown>;
+}
+
+const copy = (contact: Contact): Contact =>
+  ({ ...contact, identifiers: { ...contact.identifiers }, rawIdentifiers: { ...contact.rawIdentifiers } });
+
+const copyOutboxEvent = (event: OutboxEvent): OutboxEvent =>
+  ({ ...event, contactIds: [...event.contactIds], payload: JSON.parse(JSON.stringify(event.payload)) });
+
+const copySubscriber = (subscriber: WebhookSubscriber): WebhookSubscriber =>
+  ({ ...subscriber, eventTypes: [...subscriber.eventTypes] });
+
+const cloneData = (data: MemoryData): MemoryData => ({
+  ...data,
+  contacts: data.contacts.map(copy),
+  mergeBlocks: data.mergeBlocks.map(block => ({ ...block })),
+  mergeProposals: data.mergeProposals.map(copyMergeProposal),
+  verified: data.verified.map(identifier => ({ ...identifier })),
+  events: data.events.map(event => ({ ...event })),
+  outbox: data.outbox.map(copyOutboxEvent),
+  subscribers: data.subscribers.map(copySubscriber),
+  deliveries: data.deliveries.map(delivery => ({ ...delivery }))
+});
+
+const toMergeBlock = ({ tenantId, ...block }: StoredMergeBlock): MergeBlock => ({ ...block });
+
+const copyMergeProposal = <T extends MergeProposal>(proposal: T): T => ({
+  ...proposal,
+  primaryContactIds: [...proposal.primaryContactIds],
+  identifiers: proposal.identifiers.map(i => ({ ...i }))
+});
+
+const toMergeProposal = ({ tenantId, ...proposal }: StoredMergeProposal): MergeProposal => copyMergeProposal(proposal);
+
+const sameIdentifier = (a: Identifier, b: Identifier) => a.type === b.type && a.value === b.value;
+
+const byCreatedAt = (a: Contact, b: Contact) =>
+  a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id;
+
+// ContactStore kept entirely in memory. It follows the same semantics as the
+// Postgres store (ordering, ids, timestamps, rollback on error) so the
+// reconciliation rules can be exercised without a database.
+export class InMemoryContactStore implements ContactStore {
+  private readonly state: MemoryState;
+  private readonly inTransaction: boolean;
+  readonly tenantId: string;
+
+  constructor(seed: Contact[] = [], state?: MemoryState, inTransaction = false, tenantId = DEFAULT_TENANT) {
+    this.state = state || {
+      data: {
+        contacts: seed.map(copy),
+        nextId: seed.reduce((max, c) => Math.max(max, c.id), 0) + 1,
+        mergeBlocks: [],
+        nextMergeBlockId: 1,
+        mergeProposals: [],
+        nextMergeProposalId: 1,
+        verified: [],
+        events: [],
+        nextEventId: 1,
+        outbox: [],
+        nextOutboxId: 1,
+        subscribers: [],
+        nextSubscriberId: 1,
+        deliveries: [],
+        nextDeliveryId: 1
+      },
+      lock: Promise.resolve()
+    };
+    this.inTransaction = inTransaction;
+    this.tenantId = tenantId;
+  }
+
+  forTenant(tenantId: string): InMemoryContactStore {
+    return new InMemoryContactStore([], this.state, this.inTransaction, tenantId);
+  }
+
+  // Snapshot of every stored contact in every tenant, oldest first
+  all(): Contact[] {
+    return this.state.data.contacts.map(copy).sort(byCreatedAt);
+  }
+
+  // This tenant's contacts, deleted or not
+  private own(): Contact[] {
+    return this.state.data.contacts.filter(c => c.tenantId === this.tenantId);
+  }
+
+  // This tenant's contacts that have not been soft-deleted
+  private live(): Contact[] {
+    return this.own().filter(c => c.deletedAt === null);
+  }
+
+  // Ids of this tenant's webhook subscribers
+  private subscriberIds(): Set<number> {
+    return new Set(this.state.data.subscribers.filter(s => s.tenantId === this.tenantId).map(s => s.id));
+  }
+
+  private ownMergeBlocks(): StoredMergeBlock[] {
+    return this.state.data.mergeBlocks.filter(block => block.tenantId === this.tenantId);
+  }
+
+  private ownMergeProposals(): StoredMergeProposal[] {
+    return this.state.data.mergeProposals.filter(proposal => proposal.tenantId === this.tenantId);
+  }
+
+  private ownVerified(): VerifiedIdentifier[] {
+    return this.state.data.verified.filter(identifier => identifier.tenantId === this.tenantId);
+  }
+
+  async listTenants(): Promise<TenantSummary[]> {
+    const summaries = new Map<string, TenantSummary>();
+    for (const contact of this.state.data.contacts) {
+      const summary = summaries.get(contact.tenantId) || { tenantId: contact.tenantId, contacts: 0, clusters: 0 };
+      if (contact.deletedAt === null) {
+        summary.contacts++;
+        if (contact.linkPrecedence === 'primary') summary.clusters++;
+      }
+      summaries.set(contact.tenantId, summary);
+    }
+    return Array.from(summaries.values()).sort((a, b) => (a.tenantId < b.tenantId ? -1 : 1));
+  }
+
+  async wipeTenant(): Promise<TenantWipeResult> {
+    return this.transaction(async () => {
+      const data = this.state.data;
+      const mine = (row: { tenantId: string }) => row.tenantId === this.tenantId;
+      const contactIds = new Set(this.own().map(c => c.id));
+      const subscriberIds = this.subscriberIds();
+      const eventIds = new Set(data.outbox.filter(mine).map(e => e.id));
+
+      const result: TenantWipeResult = {
+        contacts: contactIds.size,
+        events: data.events.filter(e => contactIds.has(e.contactId)).length,
+        mergeBlocks: data.mergeBlocks.filter(mine).length,
+        mergeProposals: data.mergeProposals.filter(mine).length,
+        verifiedIdentifiers: data.verified.filter(mine).length,
+        outboxEvents: eventIds.size,
+        subscribers: subscriberIds.size
+      };
+      data.contacts = data.contacts.filter(c => !mine(c));
+      data.events = data.events.filter(e => !contactIds.has(e.contactId));
+      data.mergeBlocks = data.mergeBlocks.filter(b => !mine(b));
+      data.mergeProposals = data.mergeProposals.filter(p => !mine(p));
+      data.verified = data.verified.filter(v => !mine(v));
+      data.outbox = data.outbox.filter(e => !mine(e));
+      data.subscribers = data.subscribers.filter(s => !mine(s));
+      data.deliveries = data.deliveries.filter(d => !subscriberIds.has(d.subscriberId) && !eventIds.has(d.eventId));
+      return result;
+    });
+  }
+
+  async findByIdentifiers(identifiers: Identifier[]): Promise<Contact[]> {
+    return this.live()
+      .filter(c => identifiersOf(c).some(held => identifiers.some(i => sameIdentifier(i, held))))
+      .map(copy)
+      .sort(byCreatedAt);
+  }
+
+  async findByIds(ids: number[]): Promise<Contact[]> {
+    return this.live()
+      .filter(c => ids.includes(c.id))
+      .map(copy)
+      .sort(byCreatedAt);
+  }
+
+  async findCluster(ids: number[]): Promise<Contact[]> {
+    const visited = new Set<number>();
+    const queue = this.live().filter(c => ids.includes(c.id));
+    while (queue.length > 0) {
+      const contact = queue.shift()!;
+      if (visited.has(contact.id)) {
+        continue;
+      }
+      visited.add(contact.id);
+      queue.push(...this.live().filter(c =>
+        c.id === contact.linkedId || c.linkedId === contact.id
+      ));
+    }
+    return this.live()
+      .filter(c => visited.has(c.id))
+      .map(copy)
+      .sort(byCreatedAt);
+  }
+
+  async listContacts(filter: ContactListFilter): Promise<ContactPage> {
+    const matching = this.live()
+      .filter(c =>
+        (!filter.linkPrecedence || c.linkPrecedence === filter.linkPrecedence) &&
+        (!filter.createdFrom || c.createdAt >= filter.createdFrom) &&
+        (!filter.createdTo || c.createdAt <= filter.createdTo) &&
+        (!filter.updatedFrom || c.updatedAt >= filter.updatedFrom) &&
+        (!filter.updatedTo || c.updatedAt <= filter.updatedTo)
+      )
+      .sort((a, b) => a.id - b.id);
+
+    return {
+      contacts: matching.slice(filter.offset, filter.offset + filter.limit).map(copy),
+      total: matching.length
+    };
+  }
+
+  async listPrimaries(afterId: number, limit: number, changedSince?: Date): Promise<Contact[]> {
+    const contacts = this.own();
+    const changed = (primary: Contact) => !changedSince ||
+      primary.updatedAt > changedSince ||
+      contacts.some(c => c.linkedId === primary.id && c.updatedAt > changedSince);
+
+    return this.live()
+      .filter(c => c.linkPrecedence === 'primary' && c.id > afterId && changed(c))
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit)
+      .map(copy);
+  }
+
+  async listFormerPrimaries(since: Date, afterId: number, limit: number): Promise<number[]> {
+    const ids = this.ownEvents()
+      .filter(e =>
+        e.contactId > afterId && e.createdAt > since &&
+        e.previousLinkPrecedence === 'primary' && ['demoted', 'deleted', 'erased'].includes(e.type)
+      )
+      .map(e => e.contactId);
+    return Array.from(new Set(ids)).sort((a, b) => a - b).slice(0, limit);
+  }
+
+  async currentTime(): Promise<Date> {
+    return new Date();
+  }
+
+  async findLinked(primaryId: number): Promise<Contact[]> {
+    return this.live()
+      .filter(c => c.linkedId === primaryId)
+      .map(copy)
+      .sort(byCreatedAt);
+  }
+
+  async insertPrimary(input: ContactInput): Promise<Contact> {
+    return this.insert(input, null);
+  }
+
+  async insertSecondary(input: ContactInput, linkedId: number): Promise<Contact> {
+    return this.insert(input, linkedId);
+  }
+
+  async promote(contactId: number): Promise<void> {
+    const now = new Date();
+    for (const contact of this.own()) {
+      if (contact.id === contactId) {
+        contact.linkPrecedence = 'primary';
+        contact.linkedId = null;
+        contact.updatedAt = now;
+      }
+    }
+  }
+
+  async demote(contactId: number, primaryId: number): Promise<void> {
+    const now = new Date();
+    for (const contact of this.own()) {
+      if (contact.id === contactId) {
+        contact.linkPrecedence = 'secondary';
+        contact.linkedId = primaryId;
+        contact.updatedAt = now;
+      }
+    }
+  }
+
+  async relink(fromId: number, toId: number): Promise<void> {
+    const now = new Date();
+    for (const contact of this.own()) {
+      if (contact.linkedId === fromId) {
+        contact.linkedId = toId;
+        contact.updatedAt = now;
+      }
+    }
+  }
+
+  async softDelete(ids: number[]): Promise<void> {
+    const now = new Date();
+    for (const contact of this.live()) {
+      if (ids.includes(contact.id)) {
+        contact.deletedAt = now;
+        contact.updatedAt = now;
+      }
+    }
+  }
+
+  async scrub(ids: number[]): Promise<void> {
+    const now = new Date();
+    for (const contact of this.own()) {
+      if (ids.includes(contact.id)) {
+        contact.email = null;
+        contact.phoneNumber = null;
+        contact.rawEmail = null;
+        contact.rawPhoneNumber = null;
+        contact.identifiers = {};
+        contact.rawIdentifiers = {};
+        contact.updatedAt = now;
+      }
+    }
+  }
+
+  async purgeDeleted(deletedBefore: Date, limit: number): Promise<number> {
+    const contacts = this.state.data.contacts;
+    const doomed = new Set(contacts
+      .filter(c =>
+        c.deletedAt !== null && c.deletedAt < deletedBefore &&
+        !contacts.some(r => r.linkedId === c.id && r.deletedAt === null)
+      )
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit)
+      .map(c => c.id));
+
+    for (const contact of contacts) {
+      if (contact.linkedId !== null && doomed.has(contact.linkedId)) {
+        contact.linkedId = null;
+      }
+    }
+    this.state.data.contacts = contacts.filter(c => !doomed.has(c.id));
+    this.state.data.events = this.state.data.events.filter(e => !doomed.has(e.contactId));
+    return doomed.size;
+  }
+
+  async recordEvents(events: ContactEventInput[]): Promise<void> {
+    const now = new Date();
+    for (const event of events) {
+      this.state.data.events.push({ ...event, id: this.state.data.nextEventId++, createdAt: now });
+    }
+  }
+
+  // This tenant's events: those of its contacts, deleted or not
+  private ownEvents(): ContactEvent[] {
+    const ownIds = new Set(this.own().map(c => c.id));
+    return this.state.data.events.filter(e => ownIds.has(e.contactId));
+  }
+
+  async findEvents(contactIds: number[]): Promise<ContactEvent[]> {
+    const involves = (id: number | null) => id !== null && contactIds.includes(id);
+    return this.ownEvents()
+      .filter(e => involves(e.contactId) || involves(e.linkedId) || involves(e.previousLinkedId))
+      .map(e => ({ ...e }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
+  async scrubEvents(contactIds: number[]): Promise<void> {
+    for (const event of this.ownEvents()) {
+      if (contactIds.includes(event.contactId)) {
+        event.requestEmail = null;
+        event.requestPhoneNumber = null;
+        event.requestIdentifiers = null;
+      }
+    }
+  }
+
+  async findMergeBlocks(identifiers: Identifier[]): Promise<MergeBlock[]> {
+    return this.ownMergeBlocks()
+      .filter(block => identifiers.some(i => sameIdentifier(i, block.first) || sameIdentifier(i, block.second)))
+      .map(toMergeBlock);
+  }
+
+  async listMergeBlocks(): Promise<MergeBlock[]> {
+    return this.ownMergeBlocks().map(toMergeBlock);
+  }
+
+  async insertMergeBlock(first: Identifier, second: Identifier): Promise<MergeBlock> {
+    const existing = this.ownMergeBlocks().find(block =>
+      (sameIdentifier(block.first, first) && sameIdentifier(block.second, second)) ||
+      (sameIdentifier(block.first, second) && sameIdentifier(block.second, first))
+    );
+    if (existing) {
+      return toMergeBlock(existing);
+    }
+
+    const block: StoredMergeBlock = {
+      id: this.state.data.nextMergeBlockId++,
+      tenantId: this.tenantId,
+      first: { ...first },
+      second: { ...second },
+      createdAt: new Date()
+    };
+    this.state.data.mergeBlocks.push(block);
+    return toMergeBlock(block);
+  }
+
+  async deleteMergeBlock(id: number): Promise<boolean> {
+    const before = this.state.data.mergeBlocks.length;
+    this.state.data.mergeBlocks = this.state.data.mergeBlocks.filter(block => block.id !== id || block.tenantId !== this.tenantId);
+    return this.state.data.mergeBlocks.length < before;
+  }
+
+  async deleteMergeBlocksFor(identifiers: Identifier[]): Promise<number> {
+    const before = this.state.data.mergeBlocks.length;
+    this.state.data.mergeBlocks = this.state.data.mergeBlocks.filter(block =>
+      block.tenantId !== this.tenantId ||
+      !identifiers.some(i => sameIdentifier(i, block.first) || sameIdentifier(i, block.second))
+    );
+    return before - this.state.data.mergeBlocks.length;
+  }
+
+  async insertMergeProposal(primaryContactIds: number[], identifiers: Identifier[]): Promise<MergeProposal> {
+    const proposal: StoredMergeProposal = {
+      id: this.state.data.nextMergeProposalId++,
+      tenantId: this.tenantId,
+      primaryContactIds: [...primaryContactIds],
+      identifiers: identifiers.map(i => ({ ...i })),
+      status: 'pending',
+      createdAt: new Date(),
+      resolvedAt: null
+    };
+    this.state.data.mergeProposals.push(proposal);
+    return toMergeProposal(proposal);
+  }
+
+  async findMergeProposals(primaryContactIds: number[]): Promise<MergeProposal[]> {
+    return this.ownMergeProposals()
+      .filter(proposal => proposal.primaryContactIds.some(id => primaryContactIds.includes(id)))
+      .map(toMergeProposal);
+  }
+
+  async listMergeProposals(status?: MergeProposalStatus): Promise<MergeProposal[]> {
+    return this.ownMergeProposals()
+      .filter(proposal => status === undefined || proposal.status === status)
+      .map(toMergeProposal);
+  }
+
+  // Transactions already run one at a time
+  async lockMergeProposal(id: number): Promise<MergeProposal | null> {
+    const proposal = this.ownMergeProposals().find(p => p.id === id);
+    return proposal ? toMergeProposal(proposal) : null;
+  }
+
+  async resolveMergeProposal(id: number, status: MergeProposalStatus): Promise<MergeProposal> {
+    const proposal = this.ownMergeProposals().find(p => p.id === id);
+    if (!proposal) {
+      throw new Error(`Merge proposal ${id} not found`);
+    }
+    proposal.status = status;
+    proposal.resolvedAt = new Date();
+    return toMergeProposal(proposal);
+  }
+
+  async deleteMergeProposalsFor(contactIds: number[]): Promise<number> {
+    const before = this.state.data.mergeProposals.length;
+    this.state.data.mergeProposals = this.state.data.mergeProposals.filter(proposal =>
+      proposal.tenantId !== this.tenantId || !proposal.primaryContactIds.some(id => contactIds.includes(id))
+    );
+    return before - this.state.data.mergeProposals.length;
+  }
+
+  async markVerified(identifiers: Identifier[]): Promise<void> {
+    const now = new Date();
+    for (const identifier of identifiers) {
+      if (!this.ownVerified().some(v => sameIdentifier(v, identifier))) {
+        this.state.data.verified.push({ ...identifier, tenantId: this.tenantId, verifiedAt: now });
+      }
+    }
+  }
+
+  async findVerified(identifiers: Identifier[]): Promise<Identifier[]> {
+    return this.ownVerified()
+      .filter(v => identifiers.some(i => sameIdentifier(i, v)))
+      .map(({ type, value }) => ({ type, value }));
+  }
+
+  async unverify(identifiers: Identifier[]): Promise<void> {
+    this.state.data.verified = this.state.data.verified.filter(v =>
+      v.tenantId !== this.tenantId || !identifiers.some(i => sameIdentifier(i, v))
+    );
+  }
+
+  async appendOutbox(events: OutboxEventInput[]): Promise<void> {
+    const now = new Date();
+    for (const event of events) {
+      this.state.data.outbox.push(copyOutboxEvent({
+        ...event,
+        id: this.state.data.nextOutboxId++,
+        tenantId: this.tenantId,
+        createdAt: now,
+        dispatchedAt: null
+      }));
+    }
+  }
+
+  async claimOutbox(limit: number): Promise<OutboxEvent[]> {
+    const now = new Date();
+    const claimed = this.state.data.outbox.filter(e => e.dispatchedAt === null).slice(0, limit);
+    claimed.forEach(event => { event.dispatchedAt = now; });
+    return claimed.map(copyOutboxEvent);
+  }
+
+  async findOutboxEvents(ids: number[]): Promise<OutboxEvent[]> {
+    return this.state.data.outbox.filter(e => ids.includes(e.id)).map(copyOutboxEvent);
+  }
+
+  async scrubOutbox(contactIds: number[]): Promise<void> {
+    for (const event of this.state.data.outbox) {
+      if (event.tenantId === this.tenantId && event.contactIds.some(id => contactIds.includes(id))) {
+        event.payload = { erased: true };
+      }
+    }
+  }
+
+  async listSubscribers(): Promise<WebhookSubscriber[]> {
+    return this.state.data.subscribers.filter(s => s.tenantId === this.tenantId).map(copySubscriber);
+  }
+
+  async findSubscriber(id: number): Promise<WebhookSubscriber | null> {
+    const subscriber = this.state.data.subscribers.find(s => s.id === id && s.tenantId === this.tenantId);
+    return subscriber ? copySubscriber(subscriber) : null;
+  }
+
+  async insertSubscriber(input: WebhookSubscriberInput): Promise<WebhookSubscriber> {
+    const now = new Date();
+    const subscriber: WebhookSubscriber = copySubscriber({
+      ...input,
+      id: this.state.data.nextSubscriberId++,
+      tenantId: this.tenantId,
+      createdAt: now,
+      updatedAt: now
+    });
+    this.state.data.subscribers.push(subscriber);
+    return copySubscriber(subscriber);
+  }
+
+  async updateSubscriber(id: number, changes: Partial<WebhookSubscriberInput>): Promise<WebhookSubscriber | null> {
+    const subscriber = this.state.data.subscribers.find(s => s.id === id && s.tenantId === this.tenantId);
+    if (!subscriber) {
+      return null;
+    }
+    if (changes.url !== undefined) subscriber.url = changes.url;
+    if (changes.secret !== undefined) subscriber.secret = changes.secret;
+    if (changes.eventTypes !== undefined) subscriber.eventTypes = [...changes.eventTypes];
+    if (changes.active !== undefined) subscriber.active = changes.active;
+    subscriber.updatedAt = new Date();
+    return copySubscriber(subscriber);
+  }
+
+  async deleteSubscriber(id: number): Promise<boolean> {
+    if (!this.subscriberIds().has(id)) {
+      return false;
+    }
+    this.state.data.subscribers = this.state.data.subscribers.filter(s => s.id !== id);
+    this.state.data.deliveries = this.state.data.deliveries.filter(d => d.subscriberId !== id);
+    return true;
+  }
+
+  async insertDeliveries(eventId: number, subscriberIds: number[]): Promise<void> {
+    const now = new Date();
+    for (const subscriberId of subscriberIds) {
+      if (this.state.data.deliveries.some(d => d.eventId === eventId && d.subscriberId === subscriberId)) {
+        continue;
+      }
+      this.state.data.deliveries.push({
+        id: this.state.data.nextDeliveryId++,
+        eventId,
+        subscriberId,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+        lastStatusCode: null,
+        lastError: null,
+        deliveredAt: null,
+        createdAt: now,
+        updatedAt: now
+      });
+    }
+  }
+
+  async claimDeliveries(limit: number, leaseUntil: Date): Promise<WebhookDelivery[]> {
+    const now = new Date();
+    const claimed = this.state.data.deliveries
+      .filter(d => d.status === 'pending' && d.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime() || a.id - b.id)
+      .slice(0, limit);
+    for (const delivery of claimed) {
+      delivery.nextAttemptAt = leaseUntil;
+      delivery.updatedAt = now;
+    }
+    return claimed.map(d => ({ ...d })).sort((a, b) => a.id - b.id);
+  }
+
+  async updateDelivery(id: number, update: WebhookDeliveryUpdate): Promise<void> {
+    const delivery = this.state.data.deliveries.find(d => d.id === id);
+    if (delivery) {
+      Object.assign(delivery, update, { updatedAt: new Date() });
+    }
+  }
+
+  async listDeliveries(filter: DeliveryListFilter): Promise<DeliveryPage> {
+    const subscriberIds = this.subscriberIds();
+    const matching = this.state.data.deliveries
+      .filter(d =>
+        subscriberIds.has(d.subscriberId) &&
+        (!filter.status || d.status === filter.status) &&
+        (!filter.subscriberId || d.subscriberId === filter.subscriberId) &&
+        (!filter.eventId || d.eventId === filter.eventId)
+      )
+      .sort((a, b) => b.id - a.id);
+
+    return {
+      deliveries: matching.slice(filter.offset, filter.offset + filter.limit).map(d => ({ ...d })),
+      total: matching.length
+    };
+  }
+
+  async replayDeliveries(filter: DeliveryReplayFilter): Promise<number> {
+    const now = new Date();
+    const subscriberIds = this.subscriberIds();
+    const matching = this.state.data.deliveries.filter(d =>
+      subscriberIds.has(d.subscriberId) &&
+      d.status !== 'pending' &&
+      (!filter.deliveryIds || filter.deliveryIds.includes(d.id)) &&
+      (!filter.subscriberId || d.subscriberId === filter.subscriberId) &&
+      (!filter.status || d.status === filter.status)
+    );
+    for (const delivery of matching) {
+      Object.assign(delivery, {
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+        lastStatusCode: null,
+        lastError: null,
+        deliveredAt: null,
+        updatedAt: now
+      });
+    }
+    return matching.length;
+  }
+
+  // Transactions already run one at a time, so locks are no-ops
+  async lockIdentifiers(_keys: string[]): Promise<void> {}
+
+  async lockContacts(_ids: number[]): Promise<void> {}
+
+  async transaction<T>(work: (store: ContactStore) => Promise<T>): Promise<T> {
+    if (this.inTransaction) {
+      return work(this);
+    }
+
+    const run = async () => {
+      const snapshot = cloneData(this.state.data);
+      try {
+        return await work(new InMemoryContactStore([], this.state, true, this.tenantId));
+      } catch (error) {
+        // Rollback the transaction on error
+        this.state.data = snapshot;
+        throw error;
+      }
+    };
+
+    const result = this.state.lock.then(run, run);
+    this.state.lock = result.catch(() => undefined);
+    return result;
+  }
+
+  async preview<T>(work: (store: ContactStore) => Promise<T>): Promise<T> {
+    if (this.inTransaction) {
+      throw new Error('A preview cannot run inside another transaction');
+    }
+
+    const run = async () => {
+      const snapshot = cloneData(this.state.data);
+      try {
+        return await work(new InMemoryContactStore([], this.state, true, this.tenantId));
+      } finally {
+        this.state.data = snapshot;
+      }
+    };
+
+    const result = this.state.lock.then(run, run);
+    this.state.lock = result.catch(() => undefined);
+    return result;
+  }
+
+  // There are no connections to hold on to
+  async withSession<T>(work: (store: ContactStore) => Promise<T>): Promise<T> {
+    return work(this);
+  }
+
+  private insert(input: ContactInput, linkedId: number | null): Contact {
+    const now = new Date();
+    const contact: Contact = {
+      id: this.state.data.nextId++,
+      tenantId: this.tenantId,
+      phoneNumber: input.phoneNumber,
+      email: input.email,
+      rawPhoneNumber: input.rawPhoneNumber,
+      rawEmail: input.rawEmail,
+      identifiers: { ...input.identifiers },
+      rawIdentifiers: { ...input.rawIdentifiers },
+      linkedId,
+      linkPrecedence: linkedId === null ? 'primary' : 'secondary',
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null
+    };
+    this.state.data.contacts.push(contact);
+    return copy(contact);
+  }
+}
@@ -0,0 +1,38 @@
+import type { Pool } from 'pg';
+import { ApiKey, ApiKeyInput } from '../types';
+import { ApiKeyStore } from './apiKeyStore';
+
+// ApiKeyStore backed by the api_keys table
+export class PostgresApiKeyStore implements ApiKeyStore {
+  constructor(private readonly db: Pool) {}
+
+  async findByPrefix(prefix: string): Promise<ApiKey | null> {
+    const result = await this.db.query('SELECT * FROM api_keys WHERE prefix = $1;', [prefix]);
+    return result.rows[0] || null;
+  }
+
+  async list(): Promise<ApiKey[]> {
+    const result = await this.db.query('SELECT * FROM api_keys ORDER BY id ASC;');
+    return result.rows;
+  }
+
+  async insert(input: ApiKeyInput): Promise<ApiKey> {
+    const result = await this.db.query(`
+      INSERT INTO api_keys (name, prefix, "keyHash", scopes, "tenantId", "rateLimitPerMinute", "rateLimitBurst")
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *;
+    `, [input.name, input.prefix, input.keyHash, input.scopes, input.tenantId, input.rateLimitPerMinute, input.rateLimitBurst]);
+    return result.rows[0];
+  }
+
+  async revoke(id: number): Promise<boolean> {
+    const result = await this.db.query(`
+      UPDATE api_keys SET "revokedAt" = NOW() WHERE id = $1 AND "revokedAt" IS NULL;
+    `, [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async touch(id: number, usedAt: Date): Promise<void> {
+    await this.db.query('UPDATE api_keys SET "lastUsedAt" = $2 WHERE id = $1;', [id, usedAt]);
+  }
+}
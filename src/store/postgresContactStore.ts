@@ -0,0 +1,709 @@
+import type { Pool, PoolClient } from 'pg';
+import {
+  Contact,
+  ContactEvent,
+  ContactEventInput,
+  ContactInput,
+  Identifier,
+  IdentifierType,
+  MergeBlock,
+  MergeProposal,
+  MergeProposalStatus,
+  OutboxEvent,
+  OutboxEventInput,
+  WebhookDelivery,
+  WebhookDeliveryUpdate,
+  WebhookSubscriber,
+  WebhookSubscriberInput
+} from '../types';
+import {
+  ContactListFilter,
+  ContactPage,
+  ContactStore,
+  DeliveryListFilter,
+  DeliveryPage,
+  DeliveryReplayFilter,
+  TenantSummary,
+  TenantWipeResult
+} from './contactStore';
+import { DEFAULT_TENANT } from '../tenant';
+import { isBuiltInType } from '../identifiers';
+
+interface MergeBlockRow {
+  id: number;
+  firstType: IdentifierType;
+  firstValue: string;
+  secondType: IdentifierType;
+  secondValue: string;
+  createdAt: Date;
+}
+
+const toMergeBlock = (row: MergeBlockRow): MergeBlock => ({
+  id: row.id,
+  first: { type: row.firstType, value: row.firstValue },
+  second: { type: row.secondType, value: row.secondValue },
+  createdAt: row.createdAt
+});
+
+interface MergeProposalRow {
+  id: number;
+  primaryContactIds: number[];
+  identifiers: Identifier[];
+  status: MergeProposalStatus;
+  createdAt: Date;
+  resolvedAt: Date | null;
+}
+
+const toMergeProposal = ({ id, primaryContactIds, identifiers, status, createdAt, resolvedAt }: MergeProposalRow): MergeProposal =>
+  ({ id, primaryContactIds, identifiers, status, createdAt, resolvedAt });
+
+// ContactStore backed by the contacts table
+export class PostgresContactStore implements ContactStore {
+  constructor(
+    private readonly db: Pool | PoolClient,
+    private readonly inTransaction = false,
+    // db is a client checked out by withSession rather than the pool
+    private readonly inSession = false,
+    readonly tenantId = DEFAULT_TENANT,
+    // False inside a preview, which takes no identifier locks
+    private readonly identifierLocks = true
+  ) {}
+
+  forTenant(tenantId: string): PostgresContactStore {
+    return new PostgresContactStore(this.db, this.inTransaction, this.inSession, tenantId, this.identifierLocks);
+  }
+
+  async listTenants(): Promise<TenantSummary[]> {
+    const result = await this.db.query(`
+      SELECT "tenantId",
+        COUNT(*) FILTER (WHERE "deletedAt" IS NULL)::int AS contacts,
+        COUNT(*) FILTER (WHERE "deletedAt" IS NULL AND "linkPrecedence" = 'primary')::int AS clusters
+      FROM contacts
+      GROUP BY "tenantId"
+      ORDER BY "tenantId" ASC;
+    `);
+    return result.rows;
+  }
+
+  async wipeTenant(): Promise<TenantWipeResult> {
+    return this.transaction(async (tx) => {
+      const params = [tx.tenantId];
+      const count = async (sql: string) => (await tx.db.query(sql, params)).rowCount ?? 0;
+      const events = await count(`
+        DELETE FROM contact_events WHERE "contactId" IN (SELECT id FROM contacts WHERE "tenantId" = $1);
+      `);
+      // Links never leave a tenant, so one statement removes every referencing row too
+      const contacts = await count('DELETE FROM contacts WHERE "tenantId" = $1;');
+      const mergeBlocks = await count('DELETE FROM merge_blocks WHERE "tenantId" = $1;');
+      const mergeProposals = await count('DELETE FROM merge_proposals WHERE "tenantId" = $1;');
+      const verifiedIdentifiers = await count('DELETE FROM verified_identifiers WHERE "tenantId" = $1;');
+      // Deliveries go with their subscriber or event
+      const subscribers = await count('DELETE FROM webhook_subscribers WHERE "tenantId" = $1;');
+      const outboxEvents = await count('DELETE FROM outbox_events WHERE "tenantId" = $1;');
+      return { contacts, events, mergeBlocks, mergeProposals, verifiedIdentifiers, outboxEvents, subscribers };
+    });
+  }
+
+  async findByIdentifiers(identifiers: Identifier[]): Promise<Contact[]> {
+    const values = (type: string) => identifiers.filter(i => i.type === type).map(i => i.value);
+    const params: unknown[] = [this.tenantId, values('email'), values('phoneNumber')];
+    const conditions = ['email = ANY($2)', '"phoneNumber" = ANY($3)'];
+    // One containment test per identifier so each can use the GIN index
+    for (const { type, value } of identifiers.filter(i => !isBuiltInType(i.type))) {
+      params.push(JSON.stringify({ [type]: value }));
+      conditions.push(`identifiers @> $${params.length}::jsonb`);
+    }
+
+    const result = await this.db.query(`
+      SELECT * FROM contacts
+      WHERE
+        "tenantId" = $1
+        AND "deletedAt" IS NULL
+        AND (${conditions.join(' OR ')})
+      ORDER BY "createdAt" ASC, id ASC;
+    `, params);
+    return result.rows;
+  }
+
+  async findByIds(ids: number[]): Promise<Contact[]> {
+    const result = await this.db.query(`
+      SELECT * FROM contacts WHERE id = ANY($1) AND "tenantId" = $2 AND "deletedAt" IS NULL
+      ORDER BY "createdAt" ASC, id ASC;
+    `, [ids, this.tenantId]);
+    return result.rows;
+  }
+
+  async findCluster(ids: number[]): Promise<Contact[]> {
+    // UNION (not UNION ALL) drops rows already visited, so cycles terminate.
+    // Deleted rows are not part of any cluster and are not walked through.
+    const result = await this.db.query(`
+      WITH RECURSIVE cluster(id, "linkedId") AS (
+        SELECT id, "linkedId" FROM contacts WHERE id = ANY($1) AND "tenantId" = $2 AND "deletedAt" IS NULL
+        UNION
+        SELECT c.id, c."linkedId" FROM contacts c
+        JOIN cluster ON c.id = cluster."linkedId" OR c."linkedId" = cluster.id
+        WHERE c."tenantId" = $2 AND c."deletedAt" IS NULL
+      )
+      SELECT * FROM contacts WHERE id IN (SELECT id FROM cluster)
+      ORDER BY "createdAt" ASC, id ASC;
+    `, [ids, this.tenantId]);
+    return result.rows;
+  }
+
+  async listContacts(filter: ContactListFilter): Promise<ContactPage> {
+    const conditions: string[] = ['"tenantId" = $1', '"deletedAt" IS NULL'];
+    const params: unknown[] = [this.tenantId];
+    const where = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql.replace('?', `$${params.length}`));
+    };
+
+    if (filter.linkPrecedence) where('"linkPrecedence" = ?', filter.linkPrecedence);
+    if (filter.createdFrom) where('"createdAt" >= ?', filter.createdFrom);
+    if (filter.createdTo) where('"createdAt" <= ?', filter.createdTo);
+    if (filter.updatedFrom) where('"updatedAt" >= ?', filter.updatedFrom);
+    if (filter.updatedTo) where('"updatedAt" <= ?', filter.updatedTo);
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+    const total = await this.db.query(`SELECT COUNT(*)::int AS count FROM contacts ${whereClause};`, params);
+    const page = await this.db.query(`
+      SELECT * FROM contacts ${whereClause}
+      ORDER BY id ASC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2};
+    `, [...params, filter.limit, filter.offset]);
+
+    return { contacts: page.rows, total: total.rows[0].count };
+  }
+
+  async listPrimaries(afterId: number, limit: number, changedSince?: Date): Promise<Contact[]> {
+    if (!changedSince) {
+      const result = await this.db.query(`
+        SELECT * FROM contacts
+        WHERE "tenantId" = $3 AND "linkPrecedence" = 'primary' AND "deletedAt" IS NULL AND id > $1
+        ORDER BY id ASC
+        LIMIT $2;
+      `, [afterId, limit, this.tenantId]);
+      return result.rows;
+    }
+
+    // A changed row points at its cluster's primary, or is the primary
+    const result = await this.db.query(`
+      WITH changed AS (
+        SELECT DISTINCT COALESCE("linkedId", id) AS id FROM contacts
+        WHERE "tenantId" = $4 AND "updatedAt" > $3
+      )
+      SELECT p.* FROM contacts p JOIN changed ON changed.id = p.id
+      WHERE p."linkPrecedence" = 'primary' AND p."deletedAt" IS NULL AND p.id > $1
+      ORDER BY p.id ASC
+      LIMIT $2;
+    `, [afterId, limit, changedSince, this.tenantId]);
+    return result.rows;
+  }
+
+  async listFormerPrimaries(since: Date, afterId: number, limit: number): Promise<number[]> {
+    const result = await this.db.query(`
+      SELECT DISTINCT e."contactId" AS id FROM contact_events e
+      JOIN contacts c ON c.id = e."contactId" AND c."tenantId" = $4
+      WHERE e."createdAt" > $1 AND e."contactId" > $2
+        AND e."previousLinkPrecedence" = 'primary' AND e.type IN ('demoted', 'deleted', 'erased')
+      ORDER BY id ASC
+      LIMIT $3;
+    `, [since, afterId, limit, this.tenantId]);
+    return result.rows.map(row => row.id);
+  }
+
+  async currentTime(): Promise<Date> {
+    const result = await this.db.query('SELECT NOW() AS now;');
+    return result.rows[0].now;
+  }
+
+  async findLinked(primaryId: number): Promise<Contact[]> {
+    const result = await this.db.query(`
+      SELECT * FROM contacts WHERE "linkedId" = $1 AND "tenantId" = $2 AND "deletedAt" IS NULL
+      ORDER BY "createdAt" ASC, id ASC;
+    `, [primaryId, this.tenantId]);
+    return result.rows;
+  }
+
+  async insertPrimary(input: ContactInput): Promise<Contact> {
+    const result = await this.db.query(`
+      INSERT INTO contacts (
+        "tenantId", email, "phoneNumber", "rawEmail", "rawPhoneNumber", identifiers, "rawIdentifiers", "linkPrecedence"
+      )
+      VALUES ($7, $1, $2, $3, $4, $5, $6, 'primary')
+      RETURNING *;
+    `, [
+      input.email, input.phoneNumber, input.rawEmail, input.rawPhoneNumber,
+      JSON.stringify(input.identifiers), JSON.stringify(input.rawIdentifiers), this.tenantId
+    ]);
+    return result.rows[0];
+  }
+
+  async insertSecondary(input: ContactInput, linkedId: number): Promise<Contact> {
+    const result = await this.db.query(`
+      INSERT INTO contacts (
+        "tenantId", email, "phoneNumber", "rawEmail", "rawPhoneNumber", identifiers, "rawIdentifiers", "linkedId", "linkPrecedence"
+      )
+      VALUES ($8, $1, $2, $3, $4, $5, $6, $7, 'secondary')
+      RETURNING *;
+    `, [
+      input.email, input.phoneNumber, input.rawEmail, input.rawPhoneNumber,
+      JSON.stringify(input.identifiers), JSON.stringify(input.rawIdentifiers), linkedId, this.tenantId
+    ]);
+    return result.rows[0];
+  }
+
+  async promote(contactId: number): Promise<void> {
+    await this.db.query(`
+      UPDATE contacts 
+      SET "linkPrecedence" = 'primary', "linkedId" = NULL, "updatedAt" = NOW()
+      WHERE id = $1 AND "tenantId" = $2;
+    `, [contactId, this.tenantId]);
+  }
+
+  async demote(contactId: number, primaryId: number): Promise<void> {
+    await this.db.query(`
+      UPDATE contacts 
+      SET "linkPrecedence" = 'secondary', "linkedId" = $1, "updatedAt" = NOW()
+      WHERE id = $2 AND "tenantId" = $3;
+    `, [primaryId, contactId, this.tenantId]);
+  }
+
+  async relink(fromId: number, toId: number): Promise<void> {
+    await this.db.query(`
+      UPDATE contacts 
+      SET "linkedId" = $1, "updatedAt" = NOW()
+      WHERE "linkedId" = $2 AND "tenantId" = $3;
+    `, [toId, fromId, this.tenantId]);
+  }
+
+  async softDelete(ids: number[]): Promise<void> {
+    await this.db.query(`
+      UPDATE contacts SET "deletedAt" = NOW(), "updatedAt" = NOW()
+      WHERE id = ANY($1) AND "tenantId" = $2 AND "deletedAt" IS NULL;
+    `, [ids, this.tenantId]);
+  }
+
+  async scrub(ids: number[]): Promise<void> {
+    await this.db.query(`
+      UPDATE contacts
+      SET email = NULL, "phoneNumber" = NULL, "rawEmail" = NULL, "rawPhoneNumber" = NULL,
+        identifiers = '{}', "rawIdentifiers" = '{}', "updatedAt" = NOW()
+      WHERE id = ANY($1) AND "tenantId" = $2;
+    `, [ids, this.tenantId]);
+  }
+
+  async purgeDeleted(deletedBefore: Date, limit: number): Promise<number> {
+    // Rows still referenced by a live contact are kept so no live link dangles;
+    // links from other deleted rows are cleared first
+    const doomed = `
+      SELECT c.id FROM contacts c
+      WHERE c."deletedAt" < $1
+        AND NOT EXISTS (SELECT 1 FROM contacts r WHERE r."linkedId" = c.id AND r."deletedAt" IS NULL)
+      ORDER BY c.id
+      LIMIT $2
+    `;
+    return this.transaction(async (tx) => {
+      const ids = (await tx.db.query(doomed, [deletedBefore, limit])).rows.map((r: { id: number }) => r.id);
+      if (ids.length === 0) {
+        return 0;
+      }
+      await tx.db.query(`
+        UPDATE contacts SET "linkedId" = NULL WHERE "linkedId" = ANY($1);
+      `, [ids]);
+      await tx.db.query('DELETE FROM contact_events WHERE "contactId" = ANY($1);', [ids]);
+      const result = await tx.db.query('DELETE FROM contacts WHERE id = ANY($1);', [ids]);
+      return result.rowCount ?? 0;
+    });
+  }
+
+  async recordEvents(events: ContactEventInput[]): Promise<void> {
+    for (const event of events) {
+      await this.db.query(`
+        INSERT INTO contact_events (
+          "contactId", type, source, "requestEmail", "requestPhoneNumber", "requestIdentifiers",
+          "previousLinkedId", "previousLinkPrecedence", "linkedId", "linkPrecedence"
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10);
+      `, [
+        event.contactId, event.type, event.source, event.requestEmail, event.requestPhoneNumber,
+        event.requestIdentifiers === null ? null : JSON.stringify(event.requestIdentifiers),
+        event.previousLinkedId, event.previousLinkPrecedence, event.linkedId, event.linkPrecedence
+      ]);
+    }
+  }
+
+  // Events carry no tenant; an event belongs to the tenant of its contact,
+  // and links never leave a tenant
+  async findEvents(contactIds: number[]): Promise<ContactEvent[]> {
+    const result = await this.db.query(`
+      SELECT e.* FROM contact_events e
+      JOIN contacts c ON c.id = e."contactId" AND c."tenantId" = $2
+      WHERE e."contactId" = ANY($1) OR e."linkedId" = ANY($1) OR e."previousLinkedId" = ANY($1)
+      ORDER BY e."createdAt" ASC, e.id ASC;
+    `, [contactIds, this.tenantId]);
+    return result.rows;
+  }
+
+  async scrubEvents(contactIds: number[]): Promise<void> {
+    await this.db.query(`
+      UPDATE contact_events SET "requestEmail" = NULL, "requestPhoneNumber" = NULL, "requestIdentifiers" = NULL
+      WHERE "contactId" IN (SELECT id FROM contacts WHERE id = ANY($1) AND "tenantId" = $2);
+    `, [contactIds, this.tenantId]);
+  }
+
+  async findMergeBlocks(identifiers: Identifier[]): Promise<MergeBlock[]> {
+    if (identifiers.length === 0) {
+      return [];
+    }
+    const result = await this.db.query(`
+      WITH ids(type, value) AS (SELECT * FROM unnest($1::varchar[], $2::varchar[]))
+      SELECT * FROM merge_blocks
+      WHERE "tenantId" = $3
+        AND (("firstType", "firstValue") IN (SELECT type, value FROM ids)
+          OR ("secondType", "secondValue") IN (SELECT type, value FROM ids))
+      ORDER BY id ASC;
+    `, [identifiers.map(i => i.type), identifiers.map(i => i.value), this.tenantId]);
+    return result.rows.map(toMergeBlock);
+  }
+
+  async listMergeBlocks(): Promise<MergeBlock[]> {
+    const result = await this.db.query('SELECT * FROM merge_blocks WHERE "tenantId" = $1 ORDER BY id ASC;', [this.tenantId]);
+    return result.rows.map(toMergeBlock);
+  }
+
+  async insertMergeBlock(first: Identifier, second: Identifier): Promise<MergeBlock> {
+    // Store each pair in one order so the unique constraint catches reversed duplicates
+    const [a, b] = [first, second].sort((x, y) =>
+      `${x.type}:${x.value}` < `${y.type}:${y.value}` ? -1 : 1
+    );
+    const result = await this.db.query(`
+      INSERT INTO merge_blocks ("tenantId", "firstType", "firstValue", "secondType", "secondValue")
+      VALUES ($5, $1, $2, $3, $4)
+      ON CONFLICT ("tenantId", "firstType", "firstValue", "secondType", "secondValue")
+      DO UPDATE SET "firstValue" = EXCLUDED."firstValue"
+      RETURNING *;
+    `, [a.type, a.value, b.type, b.value, this.tenantId]);
+    return toMergeBlock(result.rows[0]);
+  }
+
+  async deleteMergeBlock(id: number): Promise<boolean> {
+    const result = await this.db.query('DELETE FROM merge_blocks WHERE id = $1 AND "tenantId" = $2;', [id, this.tenantId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteMergeBlocksFor(identifiers: Identifier[]): Promise<number> {
+    if (identifiers.length === 0) {
+      return 0;
+    }
+    const result = await this.db.query(`
+      WITH ids(type, value) AS (SELECT * FROM unnest($1::varchar[], $2::varchar[]))
+      DELETE FROM merge_blocks
+      WHERE "tenantId" = $3
+        AND (("firstType", "firstValue") IN (SELECT type, value FROM ids)
+          OR ("secondType", "secondValue") IN (SELECT type, value FROM ids));
+    `, [identifiers.map(i => i.type), identifiers.map(i => i.value), this.tenantId]);
+    return result.rowCount ?? 0;
+  }
+
+  async insertMergeProposal(primaryContactIds: number[], identifiers: Identifier[]): Promise<MergeProposal> {
+    const result = await this.db.query(`
+      INSERT INTO merge_proposals ("tenantId", "primaryContactIds", identifiers)
+      VALUES ($1, $2, $3)
+      RETURNING *;
+    `, [this.tenantId, primaryContactIds, JSON.stringify(identifiers)]);
+    return toMergeProposal(result.rows[0]);
+  }
+
+  async findMergeProposals(primaryContactIds: number[]): Promise<MergeProposal[]> {
+    const result = await this.db.query(`
+      SELECT * FROM merge_proposals
+      WHERE "tenantId" = $1 AND "primaryContactIds" && $2::int[]
+      ORDER BY id ASC;
+    `, [this.tenantId, primaryContactIds]);
+    return result.rows.map(toMergeProposal);
+  }
+
+  async listMergeProposals(status?: MergeProposalStatus): Promise<MergeProposal[]> {
+    const result = await this.db.query(`
+      SELECT * FROM merge_proposals
+      WHERE "tenantId" = $1 AND ($2::varchar IS NULL OR status = $2)
+      ORDER BY id ASC;
+    `, [this.tenantId, status ?? null]);
+    return result.rows.map(toMergeProposal);
+  }
+
+  async lockMergeProposal(id: number): Promise<MergeProposal | null> {
+    const result = await this.db.query(`
+      SELECT * FROM merge_proposals WHERE id = $1 AND "tenantId" = $2 FOR UPDATE;
+    `, [id, this.tenantId]);
+    return result.rows.length > 0 ? toMergeProposal(result.rows[0]) : null;
+  }
+
+  async resolveMergeProposal(id: number, status: MergeProposalStatus): Promise<MergeProposal> {
+    const result = await this.db.query(`
+      UPDATE merge_proposals SET status = $1, "resolvedAt" = NOW()
+      WHERE id = $2 AND "tenantId" = $3
+      RETURNING *;
+    `, [status, id, this.tenantId]);
+    return toMergeProposal(result.rows[0]);
+  }
+
+  async deleteMergeProposalsFor(contactIds: number[]): Promise<number> {
+    const result = await this.db.query(`
+      DELETE FROM merge_proposals WHERE "tenantId" = $1 AND "primaryContactIds" && $2::int[];
+    `, [this.tenantId, contactIds]);
+    return result.rowCount ?? 0;
+  }
+
+  async markVerified(identifiers: Identifier[]): Promise<void> {
+    if (identifiers.length === 0) {
+      return;
+    }
+    await this.db.query(`
+      INSERT INTO verified_identifiers ("tenantId", type, value)
+      SELECT $3, type, value FROM unnest($1::varchar[], $2::varchar[]) AS ids(type, value)
+      ON CONFLICT DO NOTHING;
+    `, [identifiers.map(i => i.type), identifiers.map(i => i.value), this.tenantId]);
+  }
+
+  async findVerified(identifiers: Identifier[]): Promise<Identifier[]> {
+    if (identifiers.length === 0) {
+      return [];
+    }
+    const result = await this.db.query(`
+      WITH ids(type, value) AS (SELECT * FROM unnest($1::varchar[], $2::varchar[]))
+      SELECT type, value FROM verified_identifiers
+      WHERE "tenantId" = $3 AND (type, value) IN (SELECT type, value FROM ids);
+    `, [identifiers.map(i => i.type), identifiers.map(i => i.value), this.tenantId]);
+    return result.rows;
+  }
+
+  async unverify(identifiers: Identifier[]): Promise<void> {
+    if (identifiers.length === 0) {
+      return;
+    }
+    await this.db.query(`
+      WITH ids(type, value) AS (SELECT * FROM unnest($1::varchar[], $2::varchar[]))
+      DELETE FROM verified_identifiers
+      WHERE "tenantId" = $3 AND (type, value) IN (SELECT type, value FROM ids);
+    `, [identifiers.map(i => i.type), identifiers.map(i => i.value), this.tenantId]);
+  }
+
+  async appendOutbox(events: OutboxEventInput[]): Promise<void> {
+    for (const event of events) {
+      await this.db.query(`
+        INSERT INTO outbox_events ("tenantId", type, "contactIds", payload) VALUES ($1, $2, $3, $4);
+      `, [this.tenantId, event.type, event.contactIds, JSON.stringify(event.payload)]);
+    }
+  }
+
+  async claimOutbox(limit: number): Promise<OutboxEvent[]> {
+    const result = await this.db.query(`
+      UPDATE outbox_events SET "dispatchedAt" = NOW()
+      WHERE id IN (
+        SELECT id FROM outbox_events WHERE "dispatchedAt" IS NULL
+        ORDER BY id
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *;
+    `, [limit]);
+    return result.rows.sort((a: OutboxEvent, b: OutboxEvent) => a.id - b.id);
+  }
+
+  async findOutboxEvents(ids: number[]): Promise<OutboxEvent[]> {
+    const result = await this.db.query('SELECT * FROM outbox_events WHERE id = ANY($1) ORDER BY id ASC;', [ids]);
+    return result.rows;
+  }
+
+  async scrubOutbox(contactIds: number[]): Promise<void> {
+    await this.db.query(`
+      UPDATE outbox_events SET payload = '{"erased": true}'::jsonb WHERE "contactIds" && $1::int[] AND "tenantId" = $2;
+    `, [contactIds, this.tenantId]);
+  }
+
+  async listSubscribers(): Promise<WebhookSubscriber[]> {
+    const result = await this.db.query('SELECT * FROM webhook_subscribers WHERE "tenantId" = $1 ORDER BY id ASC;', [this.tenantId]);
+    return result.rows;
+  }
+
+  async findSubscriber(id: number): Promise<WebhookSubscriber | null> {
+    const result = await this.db.query('SELECT * FROM webhook_subscribers WHERE id = $1 AND "tenantId" = $2;', [id, this.tenantId]);
+    return result.rows[0] || null;
+  }
+
+  async insertSubscriber(input: WebhookSubscriberInput): Promise<WebhookSubscriber> {
+    const result = await this.db.query(`
+      INSERT INTO webhook_subscribers ("tenantId", url, secret, "eventTypes", active)
+      VALUES ($5, $1, $2, $3, $4)
+      RETURNING *;
+    `, [input.url, input.secret, input.eventTypes, input.active, this.tenantId]);
+    return result.rows[0];
+  }
+
+  async updateSubscriber(id: number, changes: Partial<WebhookSubscriberInput>): Promise<WebhookSubscriber | null> {
+    // COALESCE keeps every column the caller left out
+    const result = await this.db.query(`
+      UPDATE webhook_subscribers SET
+        url = COALESCE($2, url),
+        secret = COALESCE($3, secret),
+        "eventTypes" = COALESCE($4, "eventTypes"),
+        active = COALESCE($5, active),
+        "updatedAt" = NOW()
+      WHERE id = $1 AND "tenantId" = $6
+      RETURNING *;
+    `, [id, changes.url ?? null, changes.secret ?? null, changes.eventTypes ?? null, changes.active ?? null, this.tenantId]);
+    return result.rows[0] || null;
+  }
+
+  async deleteSubscriber(id: number): Promise<boolean> {
+    const result = await this.db.query('DELETE FROM webhook_subscribers WHERE id = $1 AND "tenantId" = $2;', [id, this.tenantId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async insertDeliveries(eventId: number, subscriberIds: number[]): Promise<void> {
+    if (subscriberIds.length === 0) {
+      return;
+    }
+    await this.db.query(`
+      INSERT INTO webhook_deliveries ("eventId", "subscriberId")
+      SELECT $1, unnest($2::int[])
+      ON CONFLICT ("eventId", "subscriberId") DO NOTHING;
+    `, [eventId, subscriberIds]);
+  }
+
+  async claimDeliveries(limit: number, leaseUntil: Date): Promise<WebhookDelivery[]> {
+    const result = await this.db.query(`
+      UPDATE webhook_deliveries SET "nextAttemptAt" = $2, "updatedAt" = NOW()
+      WHERE id IN (
+        SELECT id FROM webhook_deliveries
+        WHERE status = 'pending' AND "nextAttemptAt" <= NOW()
+        ORDER BY "nextAttemptAt", id
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *;
+    `, [limit, leaseUntil]);
+    return result.rows.sort((a: WebhookDelivery, b: WebhookDelivery) => a.id - b.id);
+  }
+
+  async updateDelivery(id: number, update: WebhookDeliveryUpdate): Promise<void> {
+    await this.db.query(`
+      UPDATE webhook_deliveries SET
+        status = $2, attempts = $3, "nextAttemptAt" = $4, "lastStatusCode" = $5,
+        "lastError" = $6, "deliveredAt" = $7, "updatedAt" = NOW()
+      WHERE id = $1;
+    `, [
+      id, update.status, update.attempts, update.nextAttemptAt, update.lastStatusCode,
+      update.lastError, update.deliveredAt
+    ]);
+  }
+
+  async listDeliveries(filter: DeliveryListFilter): Promise<DeliveryPage> {
+    const conditions: string[] = ['"subscriberId" IN (SELECT id FROM webhook_subscribers WHERE "tenantId" = $1)'];
+    const params: unknown[] = [this.tenantId];
+    const where = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql.replace('?', `$${params.length}`));
+    };
+
+    if (filter.status) where('status = ?', filter.status);
+    if (filter.subscriberId) where('"subscriberId" = ?', filter.subscriberId);
+    if (filter.eventId) where('"eventId" = ?', filter.eventId);
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+    const total = await this.db.query(`SELECT COUNT(*)::int AS count FROM webhook_deliveries ${whereClause};`, params);
+    const page = await this.db.query(`
+      SELECT * FROM webhook_deliveries ${whereClause}
+      ORDER BY id DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2};
+    `, [...params, filter.limit, filter.offset]);
+
+    return { deliveries: page.rows, total: total.rows[0].count };
+  }
+
+  async replayDeliveries(filter: DeliveryReplayFilter): Promise<number> {
+    const result = await this.db.query(`
+      UPDATE webhook_deliveries SET
+        status = 'pending', attempts = 0, "nextAttemptAt" = NOW(), "lastStatusCode" = NULL,
+        "lastError" = NULL, "deliveredAt" = NULL, "updatedAt" = NOW()
+      WHERE ($1::int[] IS NULL OR id = ANY($1))
+        AND ($2::int IS NULL OR "subscriberId" = $2)
+        AND ($3::varchar IS NULL OR status = $3)
+        AND status <> 'pending'
+        AND "subscriberId" IN (SELECT id FROM webhook_subscribers WHERE "tenantId" = $4);
+    `, [filter.deliveryIds ?? null, filter.subscriberId ?? null, filter.status ?? null, this.tenantId]);
+    return result.rowCount ?? 0;
+  }
+
+  async lockIdentifiers(keys: string[]): Promise<void> {
+    if (!this.identifierLocks) {
+      return;
+    }
+    // Sorted so two transactions never wait on each other's keys in reverse.
+    // Keys are per tenant, so tenants never wait on each other.
+    for (const key of Array.from(new Set(keys)).sort()) {
+      await this.db.query('SELECT pg_advisory_xact_lock(hashtextextended($1, 0));', [`${this.tenantId}/${key}`]);
+    }
+  }
+
+  async lockContacts(ids: number[]): Promise<void> {
+    await this.db.query(`
+      SELECT id FROM contacts WHERE id = ANY($1) ORDER BY id FOR UPDATE;
+    `, [ids]);
+  }
+
+  async transaction<T>(work: (store: PostgresContactStore) => Promise<T>): Promise<T> {
+    if (this.inTransaction) {
+      return work(this);
+    }
+
+    const client = this.inSession ? this.db as PoolClient : await (this.db as Pool).connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(new PostgresContactStore(client, true, this.inSession, this.tenantId));
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      // Rollback the transaction on error
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      // Release the client back to the pool, unless the session owns it
+      if (!this.inSession) {
+        client.release();
+      }
+    }
+  }
+
+  async preview<T>(work: (store: PostgresContactStore) => Promise<T>): Promise<T> {
+    if (this.inTransaction) {
+      throw new Error('A preview cannot run inside another transaction');
+    }
+
+    const client = this.inSession ? this.db as PoolClient : await (this.db as Pool).connect();
+    try {
+      await client.query('BEGIN');
+      return await work(new PostgresContactStore(client, true, this.inSession, this.tenantId, false));
+    } finally {
+      await client.query('ROLLBACK');
+      if (!this.inSession) {
+        client.release();
+      }
+    }
+  }
+
+  async withSession<T>(work: (store: PostgresContactStore) => Promise<T>): Promise<T> {
+    if (this.inTransaction || this.inSession) {
+      return work(this);
+    }
+
+    const client = await (this.db as Pool).connect();
+    try {
+      return await work(new PostgresContactStore(client, false, true, this.tenantId));
+    } finally {
+      client.release();
+    }
+  }
+}
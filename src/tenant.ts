@@ -0,0 +1,59 @@
+import { NextFunction, Request, Response } from 'express';
+import { errorBody, ValidationError } from './errors';
+import { ContactStore } from './store/contactStore';
+import { ApiKey } from './types';
+
+// Tenant of existing data and of requests that name none
+export const DEFAULT_TENANT = 'default';
+
+const TENANT_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/;
+
+export function parseTenantId(value: unknown): string {
+  if (typeof value !== 'string' || !TENANT_PATTERN.test(value)) {
+    throw new ValidationError('Tenant ids are 1-63 lowercase letters, digits, "-" or "_", starting with a letter or digit');
+  }
+  return value;
+}
+
+// Pick the request's tenant: the one its API key is bound to, else the
+// X-Tenant-Id header, else the default tenant. A bound key may not name
+// another tenant, and only admin keys may pick one with X-Tenant-Id; other
+// unbound keys stay on the default tenant. Runs after the authenticator.
+export function resolveTenant(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers['x-tenant-id'];
+  let requested: string | null = null;
+  if (header !== undefined) {
+    try {
+      requested = parseTenantId(header);
+    } catch (error) {
+      return res.status(400).json(errorBody('invalid_request', (error as Error).message));
+    }
+  }
+
+  const apiKey: ApiKey | undefined = res.locals.apiKey;
+  if (apiKey?.tenantId && requested && requested !== apiKey.tenantId) {
+    return res.status(403).json(errorBody('forbidden', `API key is not valid for tenant ${requested}`));
+  }
+  if (apiKey && !apiKey.tenantId && !apiKey.scopes.includes('admin') && requested && requested !== DEFAULT_TENANT) {
+    return res.status(403).json(errorBody('forbidden', 'Only admin keys may choose a tenant; bind the key to one with --tenant'));
+  }
+
+  res.locals.tenantId = apiKey?.tenantId || requested || DEFAULT_TENANT;
+  return next();
+}
+
+// The store scoped to the request's tenant
+export function tenantStore(store: ContactStore, res: Response): ContactStore {
+  const tenantId: string | undefined = res.locals.tenantId;
+  if (!tenantId) {
+    throw new Error('resolveTenant has not run for this request');
+  }
+  return store.forTenant(tenantId);
+}
+
+// Whether the caller may act on tenantId by naming it explicitly, as the
+// tenant admin routes do. Keys bound to a tenant only reach their own.
+export function canAccessTenant(res: Response, tenantId: string | null): boolean {
+  const apiKey: ApiKey | undefined = res.locals.apiKey;
+  return !apiKey?.tenantId || apiKey.tenantId === tenantId;
+}
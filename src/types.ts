@@ -0,0 +1,189 @@
+import type { Static } from '@sinclair/typebox';
+import type { ContactRequestSchema, IdentifyOutcomeSchema, IdentifyResponseSchema, IdentifyV2ResponseSchema } from './schemas';
+
+// Shared types for the identity reconciliation service
+export type LinkPrecedence = 'primary' | 'secondary';
+
+export interface Contact {
+  id: number;
+  // Brand the contact belongs to; clusters never span tenants
+  tenantId: string;
+  phoneNumber: string | null;
+  email: string | null;
+  // Values as originally submitted; phoneNumber and email hold the canonical form
+  rawPhoneNumber: string | null;
+  rawEmail: string | null;
+  // Registered identifier types beyond email and phoneNumber, canonical and as submitted
+  identifiers: Record<string, string>;
+  rawIdentifiers: Record<string, string>;
+  linkedId: number | null;
+  linkPrecedence: LinkPrecedence;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+}
+
+// email, phoneNumber or a type registered in IDENTIFIER_TYPES
+export type IdentifierType = string;
+
+// One canonical identifier value
+export interface Identifier {
+  type: IdentifierType;
+  value: string;
+}
+
+// Two identifiers that must never end up in the same cluster
+export interface MergeBlock {
+  id: number;
+  first: Identifier;
+  second: Identifier;
+  createdAt: Date;
+}
+
+export type MergeProposalStatus = 'pending' | 'approved' | 'rejected';
+
+// Clusters a request linked while merges needed review, waiting for an admin
+export interface MergeProposal {
+  id: number;
+  // Primaries of the clusters to merge, the request's own cluster first
+  primaryContactIds: number[];
+  // Identifiers of the request that linked them
+  identifiers: Identifier[];
+  status: MergeProposalStatus;
+  createdAt: Date;
+  resolvedAt: Date | null;
+}
+
+export type ContactEventType =
+  | 'created'           // new primary contact
+  | 'secondary_created' // new secondary contact
+  | 'demoted'           // primary turned into a secondary
+  | 'relinked'          // secondary moved to another primary
+  | 'promoted'          // secondary made primary because its primary went away
+  | 'unlinked'          // secondary detached into its own primary by an admin
+  | 'deleted'
+  | 'erased';
+
+// What triggered a change
+export type ContactEventSource = 'identify' | 'unlink' | 'split' | 'delete' | 'erase' | 'backfill' | 'review' | 'repair';
+
+// One entry in the append-only contact_events log
+export interface ContactEvent {
+  id: number;
+  contactId: number;
+  type: ContactEventType;
+  source: ContactEventSource;
+  // Canonical identifiers of the /identify request that caused the change, if any
+  requestEmail: string | null;
+  requestPhoneNumber: string | null;
+  requestIdentifiers: Record<string, string> | null;
+  previousLinkedId: number | null;
+  previousLinkPrecedence: LinkPrecedence | null;
+  linkedId: number | null;
+  linkPrecedence: LinkPrecedence | null;
+  createdAt: Date;
+}
+
+export type ContactEventInput = Omit<ContactEvent, 'id' | 'createdAt'>;
+
+export type OutboxEventType = 'contact.created' | 'contact.secondary_created' | 'contact.merged';
+
+// A change to announce to webhook subscribers, written in the same
+// transaction as the change itself
+export interface OutboxEvent {
+  id: number;
+  tenantId: string;
+  type: OutboxEventType;
+  // Every contact the payload describes; used to scrub it on erasure
+  contactIds: number[];
+  payload: Record<string, unknown>;
+  createdAt: Date;
+  // When deliveries were created for the event's subscribers
+  dispatchedAt: Date | null;
+}
+
+export type OutboxEventInput = Pick<OutboxEvent, 'type' | 'contactIds' | 'payload'>;
+
+export interface WebhookSubscriber {
+  id: number;
+  // Receives events from this tenant only
+  tenantId: string;
+  url: string;
+  // Shared secret used to sign every delivery
+  secret: string;
+  // Event types to receive; empty means every type
+  eventTypes: OutboxEventType[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type WebhookSubscriberInput = Pick<WebhookSubscriber, 'url' | 'secret' | 'eventTypes' | 'active'>;
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+// One outbox event on its way to one subscriber
+export interface WebhookDelivery {
+  id: number;
+  eventId: number;
+  subscriberId: number;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type WebhookDeliveryUpdate = Pick<
+  WebhookDelivery,
+  'status' | 'attempts' | 'nextAttemptAt' | 'lastStatusCode' | 'lastError' | 'deliveredAt'
+>;
+
+// What an API key may do. admin grants every scope.
+export type ApiScope = 'identify:write' | 'contacts:read' | 'admin';
+
+export interface ApiKey {
+  id: number;
+  name: string;
+  // Public part of the key, used to look it up
+  prefix: string;
+  // SHA-256 of the whole key; the key itself is never stored
+  keyHash: string;
+  scopes: ApiScope[];
+  // Tenant the key is bound to. Unbound admin keys pick one with
+  // X-Tenant-Id; other unbound keys use the default tenant.
+  tenantId: string | null;
+  // Token bucket settings; null uses the server defaults
+  rateLimitPerMinute: number | null;
+  rateLimitBurst: number | null;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export type ApiKeyInput = Pick<ApiKey, 'name' | 'prefix' | 'keyHash' | 'scopes' | 'tenantId' | 'rateLimitPerMinute' | 'rateLimitBurst'>;
+
+// Identifiers to store on a new contact row
+export interface ContactInput {
+  email: string | null;
+  phoneNumber: string | null;
+  rawEmail: string | null;
+  rawPhoneNumber: string | null;
+  identifiers: Record<string, string>;
+  rawIdentifiers: Record<string, string>;
+}
+
+// Any field may be omitted or null, but at least one identifier is required
+// Identify request and response bodies, as described by their schemas in schemas.ts
+export type ContactRequest = Static<typeof ContactRequestSchema>;
+
+export type IdentifyResponse = Static<typeof IdentifyResponseSchema>;
+
+// What an identify call did to the request's cluster
+export type IdentifyOutcomeKind = Static<typeof IdentifyOutcomeSchema>;
+
+// /v2/identify response: the cluster contact by contact, with what the call changed
+export type IdentifyV2Response = Static<typeof IdentifyV2ResponseSchema>;
@@ -0,0 +1,78 @@
+import { Static, TSchema } from '@sinclair/typebox';
+import { TypeCompiler } from '@sinclair/typebox/compiler';
+import { ValueError, ValueErrorIterator, ValueErrorType } from '@sinclair/typebox/errors';
+import { NextFunction, Request, Response } from 'express';
+import { ErrorDetail, errorBody, ValidationError } from './errors';
+
+// Most details reported for one invalid body
+const MAX_DETAILS = 10;
+
+const jsonTypes = (value: unknown): string[] => {
+  if (value === null) return ['null'];
+  if (Array.isArray(value)) return ['array'];
+  if (typeof value === 'number') return Number.isInteger(value) ? ['number', 'integer'] : ['number'];
+  return [typeof value];
+};
+
+// A failed union (say, an email that may also be null) only says that no
+// member matched. Descend into the member the value was evidently meant for,
+// picked by its JSON type, to report what is actually wrong with it.
+function specific(error: ValueError): ValueError[] {
+  const members: TSchema[] | undefined = error.schema.anyOf;
+  if (error.type !== ValueErrorType.Union || !members) {
+    return [error];
+  }
+  const types = jsonTypes(error.value);
+  const candidates = members
+    .map((member, index) => ({ member, index }))
+    .filter(({ member }) => member.type === undefined || types.includes(member.type));
+  if (candidates.length === 1) {
+    return collect(error.errors[candidates[0].index]);
+  }
+  // Nothing fits; describe the value as the one non-null member would
+  const nonNull = members.filter(member => member.type !== 'null');
+  return nonNull.length === 1 && !error.schema.errorMessage ? [{ ...error, schema: nonNull[0] }] : [error];
+}
+
+function collect(errors: ValueErrorIterator | Iterable<ValueError>): ValueError[] {
+  return ([] as ValueError[]).concat(...Array.from(errors).map(specific));
+}
+
+// "identifiers.loyaltyId" for /identifiers/loyaltyId; label is used for the root
+const fieldName = (path: string, label: string) =>
+  path ? path.slice(1).split('/').map(part => part.replace(/~1/g, '/').replace(/~0/g, '~')).join('.') : label;
+
+// Compile a check for schema. The check returns the value typed by the schema,
+// or throws a ValidationError listing each failed field; label names the
+// whole value in messages (e.g. "Request").
+export function compileValidator<T extends TSchema>(schema: T, label = 'Request') {
+  const compiled = TypeCompiler.Compile(schema);
+
+  return (value: unknown, pathPrefix = ''): Static<T> => {
+    if (compiled.Check(value)) {
+      return value;
+    }
+
+    const details: ErrorDetail[] = [];
+    for (const error of collect(compiled.Errors(value))) {
+      const path = pathPrefix + error.path;
+      const message = error.schema.errorMessage || error.message;
+      if (!details.some(d => d.path === path && d.message === message)) {
+        details.push({ path, message });
+      }
+      if (details.length === MAX_DETAILS) {
+        break;
+      }
+    }
+    const summary = details.map(d => `${fieldName(d.path, label)} ${d.message}`).join('; ');
+    throw new ValidationError(summary, 'invalid_request', details);
+  };
+}
+
+// Reject request bodies that are not sent as JSON with a 415
+export function requireJson(req: Request, res: Response, next: NextFunction) {
+  if (!req.is('application/json')) {
+    return res.status(415).json(errorBody('unsupported_media_type', 'Content-Type must be application/json'));
+  }
+  return next();
+}
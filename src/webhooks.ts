@@ -0,0 +1,312 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import { ValidationError } from './errors';
+import { logger } from './logger';
+import { ContactStore } from './store/contactStore';
+import { OutboxEvent, OutboxEventType, WebhookDelivery, WebhookSubscriber, WebhookSubscriberInput } from './types';
+
+export const OUTBOX_EVENT_TYPES: OutboxEventType[] = ['contact.created', 'contact.secondary_created', 'contact.merged'];
+
+export interface WebhookOptions {
+  // Outbox events and deliveries handled per dispatch round
+  batchSize: number;
+  // Attempts before a delivery is dead-lettered
+  maxAttempts: number;
+  // Delay before the first retry; doubles on each further attempt
+  retryBaseMs: number;
+  retryMaxMs: number;
+  timeoutMs: number;
+}
+
+export function webhookOptionsFromEnv(): WebhookOptions {
+  return {
+    batchSize: parseInt(process.env.WEBHOOK_BATCH_SIZE || '50', 10),
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10),
+    retryBaseMs: parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '30000', 10),
+    retryMaxMs: parseInt(process.env.WEBHOOK_RETRY_MAX_MS || '3600000', 10),
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '5000', 10)
+  };
+}
+
+// HMAC-SHA256 over "<timestamp>.<body>", hex encoded. Including the
+// timestamp lets receivers reject replayed requests.
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Check a Webhook-Signature header ("v1=<hex>") against the body, rejecting
+// timestamps more than toleranceSeconds away from now
+export function verifySignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signatureHeader: string,
+  toleranceSeconds = 300
+): boolean {
+  if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+  const expected = Buffer.from(`v1=${signPayload(secret, timestamp, body)}`);
+  const actual = Buffer.from(signatureHeader);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+const isOutboxEventType = (value: unknown): value is OutboxEventType =>
+  typeof value === 'string' && (OUTBOX_EVENT_TYPES as string[]).includes(value);
+
+// Validate a subscriber create (partial = false) or update (partial = true) body
+export function parseSubscriberInput(body: unknown, partial: false): WebhookSubscriberInput;
+export function parseSubscriberInput(body: unknown, partial: true): Partial<WebhookSubscriberInput>;
+export function parseSubscriberInput(body: unknown, partial: boolean): Partial<WebhookSubscriberInput> {
+  const { url, eventTypes, secret, active } = (typeof body === 'object' && body !== null ? body : {}) as {
+    url?: unknown;
+    eventTypes?: unknown;
+    secret?: unknown;
+    active?: unknown;
+  };
+  const input: Partial<WebhookSubscriberInput> = {};
+
+  if (url !== undefined || !partial) {
+    let parsed: URL | null = null;
+    try {
+      parsed = typeof url === 'string' ? new URL(url) : null;
+    } catch {
+      // Reported below
+    }
+    if (!parsed || (parsed.protocol !== 'http:' && parsed.protocol !== 'https:')) {
+      throw new ValidationError('url must be an absolute http(s) URL');
+    }
+    input.url = parsed.toString();
+  }
+
+  if (eventTypes !== undefined) {
+    if (!Array.isArray(eventTypes) || !eventTypes.every(isOutboxEventType)) {
+      throw new ValidationError(`eventTypes must be an array of: ${OUTBOX_EVENT_TYPES.join(', ')}`);
+    }
+    input.eventTypes = Array.from(new Set(eventTypes));
+  } else if (!partial) {
+    input.eventTypes = [];
+  }
+
+  if (secret !== undefined) {
+    if (typeof secret !== 'string' || secret.length < 16) {
+      throw new ValidationError('secret must be a string of at least 16 characters');
+    }
+    input.secret = secret;
+  } else if (!partial) {
+    input.secret = generateSecret();
+  }
+
+  if (active !== undefined) {
+    if (typeof active !== 'boolean') {
+      throw new ValidationError('active must be a boolean');
+    }
+    input.active = active;
+  } else if (!partial) {
+    input.active = true;
+  }
+
+  return input;
+}
+
+const wants = (subscriber: WebhookSubscriber, type: OutboxEventType) =>
+  subscriber.active && (subscriber.eventTypes.length === 0 || subscriber.eventTypes.includes(type));
+
+// Turn undispatched outbox events into one pending delivery per interested
+// subscriber of the event's tenant. Claiming and queueing share a
+// transaction, so an event is never marked dispatched without its
+// deliveries. Returns the events handled.
+export async function fanOutOutbox(store: ContactStore, batchSize: number): Promise<number> {
+  return store.transaction(async (tx) => {
+    const events = await tx.claimOutbox(batchSize);
+    if (events.length === 0) {
+      return 0;
+    }
+
+    const subscribersByTenant = new Map<string, WebhookSubscriber[]>();
+    for (const event of events) {
+      if (!subscribersByTenant.has(event.tenantId)) {
+        subscribersByTenant.set(event.tenantId, await tx.forTenant(event.tenantId).listSubscribers());
+      }
+      const subscribers = subscribersByTenant.get(event.tenantId)!;
+      const ids = subscribers.filter(s => wants(s, event.type)).map(s => s.id);
+      await tx.insertDeliveries(event.id, ids);
+    }
+    return events.length;
+  });
+}
+
+// JSON body sent to subscribers
+function webhookBody(id: number, type: string, data: Record<string, unknown>, createdAt: Date): string {
+  return JSON.stringify({ id, type, createdAt: new Date(createdAt).toISOString(), data });
+}
+
+export interface SendResult {
+  ok: boolean;
+  statusCode: number | null;
+  error: string | null;
+}
+
+// POST a signed body to the subscriber. Any 2xx counts as delivered; network
+// errors and timeouts are reported rather than thrown.
+export function sendWebhook(
+  subscriber: Pick<WebhookSubscriber, 'url' | 'secret'>,
+  deliveryId: number | string,
+  type: string,
+  body: string,
+  timeoutMs: number
+): Promise<SendResult> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const url = new URL(subscriber.url);
+  const transport = url.protocol === 'https:' ? https : http;
+
+  return new Promise(resolve => {
+    const request = transport.request(url, {
+      method: 'POST',
+      timeout: timeoutMs,
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body),
+        'User-Agent': 'bitespeed-identity-webhooks',
+        'Webhook-Id': String(deliveryId),
+        'Webhook-Event': type,
+        'Webhook-Timestamp': String(timestamp),
+        'Webhook-Signature': `v1=${signPayload(subscriber.secret, timestamp, body)}`
+      }
+    }, response => {
+      // Drain the body so the socket is released
+      response.resume();
+      const statusCode = response.statusCode ?? null;
+      const ok = statusCode !== null && statusCode >= 200 && statusCode < 300;
+      resolve({ ok, statusCode, error: ok ? null : `HTTP ${statusCode}` });
+    });
+
+    request.on('timeout', () => request.destroy(new Error(`Timed out after ${timeoutMs}ms`)));
+    request.on('error', error => resolve({ ok: false, statusCode: null, error: error.message }));
+    request.end(body);
+  });
+}
+
+// Delay before retry number `attempt` (1-based): exponential, jittered within
+// the upper half so retries never bunch up near zero
+function retryDelay(attempt: number, options: WebhookOptions): number {
+  const ceiling = Math.min(options.retryMaxMs, options.retryBaseMs * 2 ** (attempt - 1));
+  return Math.floor(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+async function attemptDelivery(
+  store: ContactStore,
+  delivery: WebhookDelivery,
+  event: OutboxEvent | undefined,
+  subscriber: WebhookSubscriber | null,
+  options: WebhookOptions
+): Promise<boolean> {
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  // A disabled subscriber or missing event can never succeed; dead-letter it
+  // so it can be replayed once the subscriber is back
+  if (!subscriber || !subscriber.active || !event) {
+    const lastError = !event ? 'Outbox event no longer exists' : 'Subscriber is disabled';
+    await store.updateDelivery(delivery.id, {
+      status: 'dead', attempts: delivery.attempts, nextAttemptAt: now,
+      lastStatusCode: null, lastError, deliveredAt: null
+    });
+    return false;
+  }
+
+  const result = await sendWebhook(subscriber, delivery.id, event.type, webhookBody(event.id, event.type, event.payload, event.createdAt), options.timeoutMs);
+  if (result.ok) {
+    await store.updateDelivery(delivery.id, {
+      status: 'delivered', attempts, nextAttemptAt: now,
+      lastStatusCode: result.statusCode, lastError: null, deliveredAt: now
+    });
+    return true;
+  }
+
+  const dead = attempts >= options.maxAttempts;
+  await store.updateDelivery(delivery.id, {
+    status: dead ? 'dead' : 'pending',
+    attempts,
+    nextAttemptAt: dead ? now : new Date(now.getTime() + retryDelay(attempts, options)),
+    lastStatusCode: result.statusCode,
+    lastError: result.error,
+    deliveredAt: null
+  });
+  if (dead) {
+    logger.warn(`Webhook delivery ${delivery.id} dead-lettered after ${attempts} attempt(s)`, { url: subscriber.url, reason: result.error });
+  }
+  return false;
+}
+
+export interface DispatchResult {
+  events: number;
+  delivered: number;
+  failed: number;
+}
+
+// One dispatch round: fan out new outbox events, then send every delivery
+// that is due. Sends happen outside any transaction.
+export async function dispatchWebhooks(store: ContactStore, options = webhookOptionsFromEnv()): Promise<DispatchResult> {
+  const events = await fanOutOutbox(store, options.batchSize);
+
+  // Hold claimed deliveries long enough for every send in the batch to time out
+  const leaseUntil = new Date(Date.now() + options.timeoutMs * (options.batchSize + 1));
+  const deliveries = await store.claimDeliveries(options.batchSize, leaseUntil);
+  if (deliveries.length === 0) {
+    return { events, delivered: 0, failed: 0 };
+  }
+
+  const eventIds = Array.from(new Set(deliveries.map(d => d.eventId)));
+  const outbox = new Map((await store.findOutboxEvents(eventIds)).map(e => [e.id, e] as [number, OutboxEvent]));
+  const subscribers = new Map<number, WebhookSubscriber | null>();
+
+  let delivered = 0;
+  for (const delivery of deliveries) {
+    // Subscribers are looked up in the event's tenant; a delivery whose event
+    // is gone is dead-lettered without one
+    const event = outbox.get(delivery.eventId);
+    if (event && !subscribers.has(delivery.subscriberId)) {
+      subscribers.set(delivery.subscriberId, await store.forTenant(event.tenantId).findSubscriber(delivery.subscriberId));
+    }
+    const ok = await attemptDelivery(store, delivery, event, subscribers.get(delivery.subscriberId) ?? null, options);
+    if (ok) delivered++;
+  }
+  return { events, delivered, failed: deliveries.length - delivered };
+}
+
+// Send a one-off signed "ping" to a subscriber without touching the outbox
+export async function pingSubscriber(subscriber: WebhookSubscriber, timeoutMs = webhookOptionsFromEnv().timeoutMs): Promise<SendResult> {
+  const body = webhookBody(0, 'ping', { subscriberId: subscriber.id }, new Date());
+  return sendWebhook(subscriber, `ping-${Date.now()}`, 'ping', body, timeoutMs);
+}
+
+// Run dispatch rounds every intervalMs inside the server process. A round
+// that is still running when the next one is due is not overlapped.
+export function scheduleWebhookDispatch(store: ContactStore, intervalMs: number, options = webhookOptionsFromEnv()): NodeJS.Timeout {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const result = await dispatchWebhooks(store, options);
+      if (result.delivered > 0 || result.failed > 0) {
+        logger.info('Webhooks dispatched', { delivered: result.delivered, failed: result.failed });
+      }
+    } catch (error) {
+      logger.error('Error dispatching webhooks', { error });
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  // Never keep the process alive just for the dispatcher
+  timer.unref();
+  return timer;
+}
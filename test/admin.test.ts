@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { identifyContact } from '../src/identify';
+import { blockMerge, splitCluster, unlinkContact } from '../src/admin';
+import { InMemoryContactStore } from '../src/store/memoryContactStore';
+
+// One cluster of three: 1 is the primary, 2 and 3 its secondaries
+async function seed(): Promise<InMemoryContactStore> {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'doc@hillvalley.edu', phoneNumber: '121212' });
+  await identifyContact(store, { email: 'emmett@hillvalley.edu', phoneNumber: '121212' });
+  await identifyContact(store, { email: 'emmett@hillvalley.edu', phoneNumber: '343434' });
+  return store;
+}
+
+test('unlinks a secondary into a primary of its own', async () => {
+  const store = await seed();
+
+  const { clusters, blocks } = await unlinkContact(store, 3);
+
+  assert.deepEqual(clusters.map(c => c.contact.primaryContactId), [3, 1]);
+  assert.deepEqual(clusters[1].contact.secondaryContactIds, [2]);
+  assert.deepEqual(blocks, []);
+  const unlinked = store.all().find(c => c.id === 3)!;
+  assert.equal(unlinked.linkPrecedence, 'primary');
+  assert.equal(unlinked.linkedId, null);
+});
+
+test('refuses to unlink the primary of a cluster', async () => {
+  const store = await seed();
+  await assert.rejects(unlinkContact(store, 1), { name: 'ConflictError', code: 'primary_contact' });
+  await assert.rejects(unlinkContact(store, 99), { name: 'NotFoundError' });
+});
+
+test('splits a cluster, the old primary leading the side it moves to', async () => {
+  const store = await seed();
+
+  const { clusters } = await splitCluster(store, [1, 3]);
+
+  assert.deepEqual(clusters.map(c => c.contact.primaryContactId), [1, 2]);
+  assert.deepEqual(clusters[0].contact.secondaryContactIds, [3]);
+  assert.deepEqual(clusters[1].contact.secondaryContactIds, []);
+  assert.equal(store.all().find(c => c.id === 3)!.linkedId, 1);
+});
+
+test('refuses to split off every contact or contacts of another cluster', async () => {
+  const store = await seed();
+  await identifyContact(store, { email: 'marty@hillvalley.edu', phoneNumber: '565656' });
+
+  await assert.rejects(splitCluster(store, [1, 2, 3]), { name: 'ValidationError' });
+  await assert.rejects(splitCluster(store, [2, 4]), { name: 'ValidationError' });
+  await assert.rejects(splitCluster(store, []), { name: 'ValidationError' });
+});
+
+test('a block from an unlink keeps identify from merging the contacts again', async () => {
+  const store = await seed();
+
+  const { blocks } = await unlinkContact(store, 3, { block: true });
+  assert.ok(blocks.length > 0);
+
+  // 343434 now belongs to contact 3, which is blocked from doc's identifiers
+  const { contact } = await identifyContact(store, { email: 'doc@hillvalley.edu', phoneNumber: '343434' });
+
+  assert.equal(contact.primaryContactId, 1);
+  assert.equal(store.all().find(c => c.id === 3)!.linkPrecedence, 'primary');
+});
+
+test('a merge block keeps two primaries apart', async () => {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'george@hillvalley.edu', phoneNumber: '919191' });
+  await identifyContact(store, { email: 'biff@hillvalley.edu', phoneNumber: '717171' });
+  await blockMerge(store, { type: 'email', value: 'george@hillvalley.edu' }, { type: 'email', value: 'biff@hillvalley.edu' });
+
+  await identifyContact(store, { email: 'george@hillvalley.edu', phoneNumber: '717171' });
+
+  assert.ok(store.all().every(c => c.linkPrecedence === 'primary'));
+  await assert.rejects(
+    blockMerge(store, { type: 'email', value: 'a@example.com' }, { type: 'email', value: 'a@example.com' }),
+    { name: 'ValidationError' }
+  );
+});
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { batchMaxItemsFromEnv, identifyBatch } from '../src/batch';
+import { InMemoryContactStore } from '../src/store/memoryContactStore';
+import { withEnv } from './env';
+
+test('caps batches at 500 items unless IDENTIFY_BATCH_MAX_ITEMS is a positive integer', async () => {
+  await withEnv('IDENTIFY_BATCH_MAX_ITEMS', undefined, () => assert.equal(batchMaxItemsFromEnv(), 500));
+  await withEnv('IDENTIFY_BATCH_MAX_ITEMS', '50', () => assert.equal(batchMaxItemsFromEnv(), 50));
+  for (const invalid of ['lots', '0', '-5', '2.5']) {
+    await withEnv('IDENTIFY_BATCH_MAX_ITEMS', invalid, () => assert.equal(batchMaxItemsFromEnv(), 500, invalid));
+  }
+});
+
+test('later items of a batch see the merges of earlier ones', async () => {
+  const store = new InMemoryContactStore();
+  const { committed, results } = await identifyBatch(store, [
+    { email: 'doc@hillvalley.edu', phoneNumber: '121212' },
+    { email: 'marty@hillvalley.edu', phoneNumber: '343434' },
+    { email: 'doc@hillvalley.edu', phoneNumber: '343434' }
+  ], 'atomic');
+
+  assert.equal(committed, 3);
+  const last = results[2];
+  assert.ok(last.ok);
+  assert.equal(last.response.contact.primaryContactId, 1);
+  assert.deepEqual(last.response.contact.secondaryContactIds, [2]);
+});
+
+test('an independent batch commits the valid items around a failed one', async () => {
+  const store = new InMemoryContactStore();
+  const { committed, results } = await identifyBatch(store, [
+    { email: 'doc@hillvalley.edu', phoneNumber: '121212' },
+    { email: null, phoneNumber: null },
+    { email: 'marty@hillvalley.edu', phoneNumber: '343434' }
+  ], 'independent');
+
+  assert.equal(committed, 2);
+  assert.deepEqual(results.map(r => r.ok), [true, false, true]);
+  assert.equal(store.all().length, 2);
+});
+
+test('an atomic batch writes nothing when any item fails', async () => {
+  const store = new InMemoryContactStore();
+  const { committed, results } = await identifyBatch(store, [
+    { email: 'doc@hillvalley.edu', phoneNumber: '121212' },
+    { email: null, phoneNumber: null }
+  ], 'atomic');
+
+  assert.equal(committed, 0);
+  assert.equal(results[1].ok, false);
+  assert.equal(store.all().length, 0);
+});
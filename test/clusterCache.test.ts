@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { clusterCacheOptionsFromEnv, createClusterCache, MemoryClusterCache } from '../src/clusterCache';
+import { identifyWithOutcome } from '../src/identify';
+import { InMemoryContactStore } from '../src/store/memoryContactStore';
+import { Contact } from '../src/types';
+import { withEnv } from './env';
+
+const contact = (id: number): Contact => ({
+  id,
+  tenantId: 'default',
+  phoneNumber: null,
+  email: null,
+  rawPhoneNumber: null,
+  rawEmail: null,
+  identifiers: {},
+  rawIdentifiers: {},
+  linkedId: null,
+  linkPrecedence: 'primary',
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  deletedAt: null
+});
+
+test('is off unless CLUSTER_CACHE_ENABLED=true', async () => {
+  await withEnv('CLUSTER_CACHE_ENABLED', undefined, () => {
+    assert.equal(clusterCacheOptionsFromEnv().enabled, false);
+    assert.equal(createClusterCache(), null);
+  });
+  await withEnv('CLUSTER_CACHE_ENABLED', 'true', () => {
+    assert.ok(createClusterCache() instanceof MemoryClusterCache);
+  });
+});
+
+test('falls back to the default TTL and size unless they are positive integers', async () => {
+  await withEnv('CLUSTER_CACHE_TTL_MS', 'soon', () =>
+    withEnv('CLUSTER_CACHE_MAX_ENTRIES', '0', () => {
+      const { ttlMs, maxEntries } = clusterCacheOptionsFromEnv();
+      assert.deepEqual({ ttlMs, maxEntries }, { ttlMs: 30000, maxEntries: 10000 });
+    }));
+  await withEnv('CLUSTER_CACHE_TTL_MS', '5000', () => {
+    assert.equal(clusterCacheOptionsFromEnv().ttlMs, 5000);
+  });
+});
+
+test('answers a repeat request from the cache', async () => {
+  const store = new InMemoryContactStore();
+  const cache = new MemoryClusterCache({ ttlMs: 30000, maxEntries: 100 });
+  await identifyWithOutcome(store, { email: 'doc@hillvalley.edu', phoneNumber: '121212' }, cache);
+
+  const outcome = await identifyWithOutcome(store, { email: 'doc@hillvalley.edu', phoneNumber: '121212' }, cache);
+
+  assert.equal(outcome.primary.id, 1);
+  assert.equal(outcome.created, null);
+  assert.equal((await cache.stats()).hits, 1);
+});
+
+test('drops a cluster when identify extends or merges it', async () => {
+  const store = new InMemoryContactStore();
+  const cache = new MemoryClusterCache({ ttlMs: 30000, maxEntries: 100 });
+  await identifyWithOutcome(store, { email: 'george@hillvalley.edu', phoneNumber: '919191' }, cache);
+  await identifyWithOutcome(store, { email: 'biff@hillvalley.edu', phoneNumber: '717171' }, cache);
+
+  await identifyWithOutcome(store, { email: 'george@hillvalley.edu', phoneNumber: '929292' }, cache);
+  const extended = await identifyWithOutcome(store, { email: 'george@hillvalley.edu', phoneNumber: null }, cache);
+  assert.equal(extended.secondaries.length, 1);
+
+  await identifyWithOutcome(store, { email: 'george@hillvalley.edu', phoneNumber: '717171' }, cache);
+  const merged = await identifyWithOutcome(store, { email: 'biff@hillvalley.edu', phoneNumber: '717171' }, cache);
+  assert.equal(merged.primary.id, 1);
+  assert.deepEqual(merged.secondaries.map(c => c.id), [2, 3]);
+});
+
+test('forgets keys once their TTL runs out', async () => {
+  let now = 0;
+  const cache = new MemoryClusterCache({ ttlMs: 1000, maxEntries: 100 }, () => now);
+  await cache.set('default', ['email:doc@hillvalley.edu'], { primary: contact(1), secondaries: [] }, 0);
+
+  now = 999;
+  assert.notEqual(await cache.get('default', ['email:doc@hillvalley.edu']), null);
+  now = 1000;
+  assert.equal(await cache.get('default', ['email:doc@hillvalley.edu']), null);
+  assert.equal((await cache.stats()).entries, 0);
+});
+
+test('does not cache a read taken before an invalidation', async () => {
+  const cache = new MemoryClusterCache({ ttlMs: 30000, maxEntries: 100 });
+  const generation = await cache.generation('default');
+
+  await cache.invalidate('default', [1]);
+  await cache.set('default', ['email:doc@hillvalley.edu'], { primary: contact(1), secondaries: [] }, generation);
+
+  assert.equal(await cache.get('default', ['email:doc@hillvalley.edu']), null);
+});
+
+test('keeps tenants apart and drops the least recently used cluster first', async () => {
+  const cache = new MemoryClusterCache({ ttlMs: 30000, maxEntries: 2 });
+  await cache.set('brand-a', ['email:a'], { primary: contact(1), secondaries: [] }, 0);
+  await cache.set('brand-a', ['email:b'], { primary: contact(2), secondaries: [] }, 0);
+  assert.equal(await cache.get('brand-b', ['email:a']), null);
+
+  await cache.get('brand-a', ['email:a']);
+  await cache.set('brand-a', ['email:c'], { primary: contact(3), secondaries: [] }, 0);
+
+  assert.notEqual(await cache.get('brand-a', ['email:a']), null);
+  assert.equal(await cache.get('brand-a', ['email:b']), null);
+  assert.equal((await cache.stats()).evictions, 1);
+});
@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { blockMerge } from '../src/admin';
+import { checkConsistency } from '../src/consistency';
+import { identifyContact } from '../src/identify';
+import { findClusterHistory } from '../src/lookup';
+import { InMemoryContactStore } from '../src/store/memoryContactStore';
+import { Contact } from '../src/types';
+
+// A contact as the table might hold it, created id seconds after the epoch
+function row(id: number, linkPrecedence: Contact['linkPrecedence'], linkedId: number | null, email: string | null = null): Contact {
+  const createdAt = new Date(id * 1000);
+  return {
+    id,
+    tenantId: 'default',
+    phoneNumber: null,
+    email,
+    rawPhoneNumber: null,
+    rawEmail: email,
+    identifiers: {},
+    rawIdentifiers: {},
+    linkedId,
+    linkPrecedence,
+    createdAt,
+    updatedAt: createdAt,
+    deletedAt: null
+  };
+}
+
+const kinds = async (store: InMemoryContactStore) =>
+  (await checkConsistency(store)).issues.map(issue => [issue.kind, issue.contactIds]);
+
+test('finds nothing in clusters identify built', async () => {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'george@hillvalley.edu', phoneNumber: '919191' });
+  await identifyContact(store, { email: 'biff@hillvalley.edu', phoneNumber: '717171' });
+  await identifyContact(store, { email: 'george@hillvalley.edu', phoneNumber: '717171' });
+
+  const report = await checkConsistency(store);
+
+  assert.equal(report.scanned, 2);
+  assert.deepEqual(report.issues, []);
+});
+
+test('reports each kind of broken link', async () => {
+  const store = new InMemoryContactStore([
+    row(1, 'primary', 2),
+    row(2, 'primary', null),
+    row(3, 'secondary', null),
+    row(4, 'secondary', 99),
+    row(5, 'primary', null),
+    row(6, 'secondary', 5),
+    row(7, 'secondary', 6),
+    row(8, 'secondary', 9),
+    row(9, 'secondary', 8)
+  ]);
+
+  assert.deepEqual(await kinds(store), [
+    ['primary_linked', [1, 2]],
+    ['secondary_unlinked', [3]],
+    ['dangling_link', [4, 99]],
+    ['secondary_chain', [7, 6]],
+    ['link_cycle', [8, 9]]
+  ]);
+});
+
+test('reports an identifier held by separate clusters unless a merge block keeps them apart', async () => {
+  const store = new InMemoryContactStore([
+    row(1, 'primary', null, 'doc@hillvalley.edu'),
+    row(2, 'primary', null, 'doc@hillvalley.edu')
+  ]);
+
+  const [issue] = (await checkConsistency(store)).issues;
+  assert.equal(issue.kind, 'shared_identifier');
+  assert.deepEqual(issue.contactIds, [1, 2]);
+  assert.deepEqual(issue.identifier, { type: 'email', value: 'doc@hillvalley.edu' });
+
+  const blocked = new InMemoryContactStore([
+    row(1, 'primary', null, 'doc@hillvalley.edu'),
+    row(2, 'secondary', 1, 'emmett@hillvalley.edu'),
+    row(3, 'primary', null, 'doc@hillvalley.edu'),
+    row(4, 'secondary', 3, 'marty@hillvalley.edu')
+  ]);
+  await blockMerge(blocked, { type: 'email', value: 'emmett@hillvalley.edu' }, { type: 'email', value: 'marty@hillvalley.edu' });
+  assert.deepEqual(await kinds(blocked), []);
+});
+
+test('repairs every issue under the oldest primary and records the changes', async () => {
+  const store = new InMemoryContactStore([
+    row(1, 'primary', 2),
+    row(2, 'primary', null),
+    row(3, 'secondary', 1),
+    row(4, 'secondary', 3),
+    row(5, 'primary', null, 'doc@hillvalley.edu'),
+    row(6, 'primary', null, 'doc@hillvalley.edu'),
+    row(7, 'secondary', 8),
+    row(8, 'secondary', 7)
+  ]);
+
+  const report = await checkConsistency(store, { fix: true, batchSize: 1 });
+
+  assert.ok(report.issues.length > 0);
+  assert.deepEqual(report.repaired.map(cluster => cluster.primaryContactId), [1, 5, 7]);
+  assert.deepEqual((await checkConsistency(store)).issues, []);
+  const links = store.all().map(c => [c.id, c.linkPrecedence, c.linkedId]);
+  assert.deepEqual(links, [
+    [1, 'primary', null], [2, 'secondary', 1], [3, 'secondary', 1], [4, 'secondary', 1],
+    [5, 'primary', null], [6, 'secondary', 5],
+    [7, 'primary', null], [8, 'secondary', 7]
+  ]);
+  const history = (await findClusterHistory(store, 6))!;
+  assert.ok(history.length > 0 && history.every(event => event.source === 'repair'));
+});
+
+test('reports without changing anything unless fix is set', async () => {
+  const store = new InMemoryContactStore([row(1, 'primary', 2), row(2, 'primary', null)]);
+  const before = store.all();
+
+  const report = await checkConsistency(store);
+
+  assert.deepEqual(report.repaired, []);
+  assert.deepEqual(store.all(), before);
+});
@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { identifyContact } from '../src/identify';
+import { deleteContact, eraseCluster } from '../src/admin';
+import { purgeDeletedContacts } from '../src/purge';
+import { InMemoryContactStore } from '../src/store/memoryContactStore';
+import { Contact } from '../src/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One cluster of three: 1 is the primary, 2 and 3 its secondaries
+async function seed(): Promise<InMemoryContactStore> {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'doc@hillvalley.edu', phoneNumber: '121212' });
+  await identifyContact(store, { email: 'emmett@hillvalley.edu', phoneNumber: '121212' });
+  await identifyContact(store, { email: 'emmett@hillvalley.edu', phoneNumber: '343434' });
+  return store;
+}
+
+// A contact soft-deleted daysAgo days ago, or live when daysAgo is null
+function row(id: number, linkedId: number | null, daysAgo: number | null): Contact {
+  const createdAt = new Date(id * 1000);
+  return {
+    id,
+    tenantId: 'default',
+    phoneNumber: null,
+    email: `contact${id}@hillvalley.edu`,
+    rawPhoneNumber: null,
+    rawEmail: `contact${id}@hillvalley.edu`,
+    identifiers: {},
+    rawIdentifiers: {},
+    linkedId,
+    linkPrecedence: linkedId === null ? 'primary' : 'secondary',
+    createdAt,
+    updatedAt: createdAt,
+    deletedAt: daysAgo === null ? null : new Date(Date.now() - daysAgo * DAY_MS)
+  };
+}
+
+test('deleting a primary promotes the oldest secondary', async () => {
+  const store = await seed();
+
+  const { deletedContactIds, cluster } = await deleteContact(store, 1);
+
+  assert.deepEqual(deletedContactIds, [1]);
+  assert.equal(cluster!.contact.primaryContactId, 2);
+  assert.deepEqual(cluster!.contact.secondaryContactIds, [3]);
+  const links = store.all().map(c => [c.id, c.linkPrecedence, c.linkedId, c.deletedAt !== null]);
+  assert.deepEqual(links, [[1, 'primary', null, true], [2, 'primary', null, false], [3, 'secondary', 2, false]]);
+});
+
+test('deleted contacts are not matched by identify', async () => {
+  const store = await seed();
+  await deleteContact(store, 1);
+
+  const { contact } = await identifyContact(store, { email: 'doc@hillvalley.edu', phoneNumber: null });
+
+  assert.equal(contact.primaryContactId, 4);
+  assert.deepEqual(contact.emails, ['doc@hillvalley.edu']);
+  assert.deepEqual(contact.secondaryContactIds, []);
+});
+
+test('erasure scrubs the cluster, its events and its outbox payloads', async () => {
+  const store = await seed();
+  await identifyContact(store, { email: 'marty@hillvalley.edu', phoneNumber: '555555' });
+
+  const { deletedContactIds } = await eraseCluster(store, 3);
+
+  assert.deepEqual(deletedContactIds, [1, 2, 3]);
+  for (const contact of store.all().filter(c => c.id <= 3)) {
+    assert.deepEqual([contact.email, contact.phoneNumber, contact.rawEmail, contact.rawPhoneNumber], [null, null, null, null]);
+    assert.notEqual(contact.deletedAt, null);
+  }
+  const events = await store.findEvents([1, 2, 3]);
+  assert.ok(events.every(e => e.requestEmail === null && e.requestPhoneNumber === null));
+  const outbox = await store.claimOutbox(100);
+  const payloads = outbox.filter(e => e.contactIds.some(id => id <= 3)).map(e => e.payload);
+  assert.ok(payloads.length > 0 && payloads.every(payload => JSON.stringify(payload) === '{"erased":true}'));
+  assert.equal(store.all().find(c => c.id === 4)!.email, 'marty@hillvalley.edu');
+});
+
+test('the purge removes contacts deleted before the retention cutoff', async () => {
+  const store = new InMemoryContactStore([
+    row(1, null, 60),
+    row(2, 1, null),
+    row(3, null, 60),
+    row(4, null, 1),
+    row(5, null, null)
+  ]);
+
+  const purged = await purgeDeletedContacts(store, 30);
+
+  // 1 is kept while its live secondary still links to it; 4 is too recent
+  assert.equal(purged, 1);
+  assert.deepEqual(store.all().map(c => c.id), [1, 2, 4, 5]);
+});
@@ -0,0 +1,10 @@
+// Run work with one environment variable set, or unset when value is undefined
+export async function withEnv(name: string, value: string | undefined, work: () => Promise<void> | void): Promise<void> {
+  const previous = process.env[name];
+  if (value === undefined) delete process.env[name]; else process.env[name] = value;
+  try {
+    await work();
+  } finally {
+    if (previous === undefined) delete process.env[name]; else process.env[name] = previous;
+  }
+}
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough } from 'stream';
+import { identifyContact } from '../src/identify';
+import { deleteContact, unlinkContact } from '../src/admin';
+import { exportWatermark, ExportOptions, writeExport } from '../src/export';
+import { InMemoryContactStore } from '../src/store/memoryContactStore';
+import { withEnv } from './env';
+
+async function exportLines(store: InMemoryContactStore, options: ExportOptions): Promise<string[]> {
+  const out = new PassThrough();
+  const chunks: string[] = [];
+  out.on('data', chunk => chunks.push(String(chunk)));
+  await writeExport(store, out, options);
+  out.end();
+  return chunks.join('').split('\n').filter(Boolean);
+}
+
+test('exports every live cluster in primary id order', async () => {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'doc@hillvalley.edu', phoneNumber: '121212' });
+  await identifyContact(store, { email: 'emmett@hillvalley.edu', phoneNumber: '121212' });
+  await identifyContact(store, { email: 'marty@hillvalley.edu', phoneNumber: '343434' });
+
+  const lines = await exportLines(store, { format: 'ndjson' });
+
+  assert.deepEqual(lines.map(line => JSON.parse(line).primaryContactId), [1, 3]);
+  assert.deepEqual(JSON.parse(lines[0]).secondaryContactIds, [2]);
+});
+
+test('takes the watermark from the store clock, moved back by the overlap', async () => {
+  const store = new InMemoryContactStore();
+  const before = Date.now();
+
+  const watermark = await exportWatermark(store, 60000);
+
+  assert.ok(watermark.getTime() <= before - 60000 + 1000);
+  assert.ok(watermark.getTime() >= before - 60000);
+});
+
+test('an incremental export reports clusters merged away or deleted since the watermark', async () => {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'george@hillvalley.edu', phoneNumber: '919191' });
+  await identifyContact(store, { email: 'biff@hillvalley.edu', phoneNumber: '717171' });
+  await identifyContact(store, { email: 'lorraine@hillvalley.edu', phoneNumber: '565656' });
+  await identifyContact(store, { email: 'marty@hillvalley.edu', phoneNumber: '343434' });
+  const since = new Date(Date.now() - 1);
+  await new Promise(resolve => setTimeout(resolve, 5));
+
+  await identifyContact(store, { email: 'george@hillvalley.edu', phoneNumber: '717171' });
+  await deleteContact(store, 3);
+  // Demoted and led its own cluster again: exported live, not as removed
+  await identifyContact(store, { email: 'george@hillvalley.edu', phoneNumber: '343434' });
+  await unlinkContact(store, 4);
+
+  const lines = (await exportLines(store, { format: 'ndjson', changedSince: since })).map(line => JSON.parse(line));
+
+  assert.deepEqual(lines.filter(line => line.removed === undefined).map(line => line.primaryContactId), [1, 4]);
+  assert.deepEqual(lines.filter(line => line.removed !== undefined), [
+    { primaryContactId: 2, removed: 'merged', mergedIntoContactId: 1 },
+    { primaryContactId: 3, removed: 'deleted', mergedIntoContactId: null }
+  ]);
+});
+
+test('a full export reports no removed clusters and CSV leaves their columns empty', async () => {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'george@hillvalley.edu', phoneNumber: '919191' });
+  await identifyContact(store, { email: 'biff@hillvalley.edu', phoneNumber: '717171' });
+  await identifyContact(store, { email: 'george@hillvalley.edu', phoneNumber: '717171' });
+
+  const lines = await exportLines(store, { format: 'csv' });
+
+  assert.deepEqual(lines, [
+    'primaryContactId,emails,phoneNumbers,secondaryContactIds,removed,mergedIntoContactId',
+    '1,george@hillvalley.edu;biff@hillvalley.edu,919191;717171,2,,'
+  ]);
+});
+
+test('CSV has a column for each registered identifier type', async () => {
+  await withEnv('IDENTIFIER_TYPES', 'loyaltyId,deviceId:lowercase', async () => {
+    const store = new InMemoryContactStore();
+    await identifyContact(store, { email: 'doc@hillvalley.edu', identifiers: { loyaltyId: 'HV-1955' } });
+    await identifyContact(store, { email: 'doc@hillvalley.edu', identifiers: { loyaltyId: 'HV-1985' } });
+
+    const lines = await exportLines(store, { format: 'csv' });
+
+    assert.deepEqual(lines, [
+      'primaryContactId,emails,phoneNumbers,secondaryContactIds,removed,mergedIntoContactId,loyaltyId,deviceId',
+      '1,doc@hillvalley.edu,,2,,,HV-1955;HV-1985,'
+    ]);
+  });
+});
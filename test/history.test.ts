@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { identifyContact } from '../src/identify';
+import { deleteContact, unlinkContact } from '../src/admin';
+import { findClusterHistory } from '../src/lookup';
+import { InMemoryContactStore } from '../src/store/memoryContactStore';
+
+test('records every change a merge makes, with the request behind it', async () => {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'george@hillvalley.edu', phoneNumber: '919191' });
+  await identifyContact(store, { email: 'biff@hillvalley.edu', phoneNumber: '717171' });
+  await identifyContact(store, { email: 'biff@hillvalley.edu', phoneNumber: '727272' });
+  await identifyContact(store, { email: 'george@hillvalley.edu', phoneNumber: '717171' });
+
+  const events = (await findClusterHistory(store, 1))!;
+
+  assert.deepEqual(events.map(e => [e.type, e.contactId]), [
+    ['created', 1],
+    ['created', 2],
+    ['secondary_created', 3],
+    ['demoted', 2],
+    ['relinked', 3]
+  ]);
+  const demoted = events[3];
+  assert.equal(demoted.source, 'identify');
+  assert.equal(demoted.requestEmail, 'george@hillvalley.edu');
+  assert.equal(demoted.previousLinkPrecedence, 'primary');
+  assert.equal(demoted.linkedId, 1);
+  assert.equal(events[4].previousLinkedId, 2);
+});
+
+test('returns the same history from any member of the cluster', async () => {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'doc@hillvalley.edu', phoneNumber: '121212' });
+  await identifyContact(store, { email: 'emmett@hillvalley.edu', phoneNumber: '121212' });
+
+  assert.deepEqual(await findClusterHistory(store, 2), await findClusterHistory(store, 1));
+  assert.equal(await findClusterHistory(store, 99), null);
+});
+
+test('records admin changes with their source', async () => {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'doc@hillvalley.edu', phoneNumber: '121212' });
+  await identifyContact(store, { email: 'emmett@hillvalley.edu', phoneNumber: '121212' });
+
+  await unlinkContact(store, 2);
+  const unlinked = (await findClusterHistory(store, 2))!;
+  assert.deepEqual(unlinked.map(e => [e.type, e.source]).slice(-1), [['unlinked', 'unlink']]);
+
+  await deleteContact(store, 2);
+  const deleted = (await findClusterHistory(store, 2))!;
+  assert.deepEqual(deleted.map(e => [e.type, e.source]).slice(-1), [['deleted', 'delete']]);
+});
+
+test('keeps each tenant to the history of its own contacts', async () => {
+  const store = new InMemoryContactStore();
+  const brandA = store.forTenant('brand-a');
+  const brandB = store.forTenant('brand-b');
+  await identifyContact(brandA, { email: 'doc@hillvalley.edu', phoneNumber: '121212' });
+  await identifyContact(brandA, { email: 'emmett@hillvalley.edu', phoneNumber: '121212' });
+  await deleteContact(brandA, 2);
+
+  assert.equal((await findClusterHistory(brandA, 1))!.length, 3);
+  assert.ok((await findClusterHistory(brandA, 2))!.length > 0);
+  assert.equal(await findClusterHistory(brandB, 1), null);
+  assert.equal(await findClusterHistory(brandB, 2), null);
+  assert.deepEqual(await brandB.findEvents([1, 2]), []);
+});
+
+test('erasing a cluster scrubs only its own tenant', async () => {
+  const store = new InMemoryContactStore();
+  const brandA = store.forTenant('brand-a');
+  const brandB = store.forTenant('brand-b');
+  await identifyContact(brandA, { email: 'doc@hillvalley.edu', phoneNumber: '121212' });
+
+  await brandB.scrubEvents([1]);
+  await brandB.scrubOutbox([1]);
+
+  const [created] = (await findClusterHistory(brandA, 1))!;
+  assert.equal(created.requestEmail, 'doc@hillvalley.edu');
+  const outbox = await brandA.findOutboxEvents([1]);
+  assert.notDeepEqual(outbox[0].payload, { erased: true });
+});
@@ -0,0 +1,85 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createApp } from '../src/app';
+import { InMemoryContactStore } from '../src/store/memoryContactStore';
+import { InMemoryApiKeyStore } from '../src/store/memoryApiKeyStore';
+import { ErrorBody } from '../src/errors';
+import { IdentifyResponse } from '../src/types';
+import { withEnv } from './env';
+
+let server: http.Server;
+
+before(async () => {
+  await withEnv('AUTH_ENABLED', 'false', () => {
+    const app = createApp({ contactStore: new InMemoryContactStore(), apiKeyStore: new InMemoryApiKeyStore(), clusterCache: null });
+    server = app.listen(0);
+  });
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+interface Reply {
+  status: number;
+  body: ErrorBody & Partial<IdentifyResponse>;
+}
+
+// Send one request to the app and parse the JSON response
+function send(method: string, path: string, body?: string, contentType = 'application/json'): Promise<Reply> {
+  return new Promise((resolve, reject) => {
+    const { port } = server.address() as AddressInfo;
+    const req = http.request({ port, method, path, headers: body === undefined ? {} : { 'Content-Type': contentType } }, res => {
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => { text += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(text) }));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+test('identifies a valid request', async () => {
+  const response = await send('POST', '/identify', JSON.stringify({ email: 'doc@hillvalley.edu', phoneNumber: '121212' }));
+
+  assert.equal(response.status, 200);
+  assert.equal(response.body.contact!.primaryContactId, 1);
+});
+
+test('answers a body that is not JSON with malformed_json', async () => {
+  const response = await send('POST', '/identify', '{"email":');
+
+  assert.equal(response.status, 400);
+  assert.deepEqual(response.body, { error: 'Request body is not valid JSON', code: 'malformed_json' });
+});
+
+test('answers a body over the size limit with payload_too_large', async () => {
+  const response = await send('POST', '/identify', JSON.stringify({ email: 'x'.repeat(1100 * 1024) }));
+
+  assert.equal(response.status, 413);
+  assert.deepEqual(response.body, { error: 'Request body is too large', code: 'payload_too_large' });
+});
+
+test('answers a schema violation with invalid_request and the failed fields', async () => {
+  const response = await send('POST', '/identify', JSON.stringify({ email: 42, phoneNumber: '121212' }));
+
+  assert.equal(response.status, 400);
+  assert.equal(response.body.code, 'invalid_request');
+  assert.deepEqual(response.body.details!.map(d => d.path), ['/email']);
+  assert.match(response.body.error, /^email /);
+});
+
+test('refuses a body that is not sent as JSON', async () => {
+  const response = await send('POST', '/identify', 'email=doc@hillvalley.edu', 'application/x-www-form-urlencoded');
+
+  assert.equal(response.status, 415);
+  assert.deepEqual(response.body, { error: 'Content-Type must be application/json', code: 'unsupported_media_type' });
+});
+
+test('answers an unknown route with not_found', async () => {
+  const response = await send('GET', '/identify/nowhere');
+
+  assert.equal(response.status, 404);
+  assert.deepEqual(response.body, { error: 'No route for GET /identify/nowhere', code: 'not_found' });
+});
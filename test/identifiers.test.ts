@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { identifierTypesFromEnv } from '../src/identifiers';
+import { identifyContact } from '../src/identify';
+import { InMemoryContactStore } from '../src/store/memoryContactStore';
+import { withEnv } from './env';
+
+test('registers the types in IDENTIFIER_TYPES after the built-in ones', async () => {
+  await withEnv('IDENTIFIER_TYPES', 'loyaltyId, deviceId:lowercase,socialLogin:exact:3', () => {
+    const types = identifierTypesFromEnv();
+
+    assert.deepEqual(Array.from(types.keys()), ['email', 'phoneNumber', 'loyaltyId', 'deviceId', 'socialLogin']);
+    assert.deepEqual(types.get('loyaltyId'), { name: 'loyaltyId', normalizer: 'exact', weight: 1 });
+    assert.deepEqual(types.get('deviceId'), { name: 'deviceId', normalizer: 'lowercase', weight: 1 });
+    assert.deepEqual(types.get('socialLogin'), { name: 'socialLogin', normalizer: 'exact', weight: 3 });
+  });
+});
+
+test('rejects a malformed IDENTIFIER_TYPES', async () => {
+  const malformed: Array<[string, RegExp]> = [
+    ['9lives', /Invalid identifier type name/],
+    ['loyalty-id', /Invalid identifier type name/],
+    ['loyaltyId,loyaltyId', /more than once/],
+    ['email', /more than once/],
+    ['deviceId:uppercase', /unknown normalizer/],
+    ['socialLogin:exact:0', /positive integer weight/],
+    ['socialLogin:exact:heavy', /positive integer weight/]
+  ];
+  for (const [value, message] of malformed) {
+    await withEnv('IDENTIFIER_TYPES', value, () => {
+      assert.throws(() => identifierTypesFromEnv(), message, value);
+    });
+  }
+});
+
+test('links requests that share a custom identifier and groups the values by type', async () => {
+  await withEnv('IDENTIFIER_TYPES', 'loyaltyId:lowercase', async () => {
+    const store = new InMemoryContactStore();
+    await identifyContact(store, { email: 'doc@hillvalley.edu', identifiers: { loyaltyId: 'HV-1955' } });
+
+    const { contact } = await identifyContact(store, { email: 'emmett@hillvalley.edu', identifiers: { loyaltyId: ' hv-1955' } });
+
+    assert.equal(contact.primaryContactId, 1);
+    assert.deepEqual(contact.secondaryContactIds, [2]);
+    assert.deepEqual(contact.identifiers, {
+      email: ['doc@hillvalley.edu', 'emmett@hillvalley.edu'],
+      loyaltyId: ['hv-1955']
+    });
+    assert.deepEqual(store.all()[0].rawIdentifiers, { loyaltyId: 'HV-1955' });
+  });
+});
+
+test('refuses identifiers of an unregistered type', async () => {
+  await withEnv('IDENTIFIER_TYPES', undefined, async () => {
+    const store = new InMemoryContactStore();
+    await assert.rejects(
+      identifyContact(store, { email: 'doc@hillvalley.edu', identifiers: { loyaltyId: 'HV-1955' } }),
+      { name: 'ValidationError', code: 'unknown_identifier_type' }
+    );
+    assert.equal(store.all().length, 0);
+  });
+});
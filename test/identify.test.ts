@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { identifyContact } from '../src/identify';
+import { InMemoryContactStore } from '../src/store/memoryContactStore';
+
+test('creates a primary for an unknown customer', async () => {
+  const store = new InMemoryContactStore();
+  const { contact } = await identifyContact(store, { email: 'lorraine@hillvalley.edu', phoneNumber: '123456' });
+
+  assert.equal(contact.primaryContactId, 1);
+  assert.deepEqual(contact.emails, ['lorraine@hillvalley.edu']);
+  assert.equal(contact.phoneNumbers.length, 1);
+  assert.deepEqual(contact.secondaryContactIds, []);
+});
+
+test('adds a secondary when a request brings a new identifier', async () => {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'lorraine@hillvalley.edu', phoneNumber: '123456' });
+  const { contact } = await identifyContact(store, { email: 'mcfly@hillvalley.edu', phoneNumber: '123456' });
+
+  assert.equal(contact.primaryContactId, 1);
+  assert.deepEqual(contact.emails, ['lorraine@hillvalley.edu', 'mcfly@hillvalley.edu']);
+  assert.deepEqual(contact.secondaryContactIds, [2]);
+
+  const secondary = store.all().find(c => c.id === 2)!;
+  assert.equal(secondary.linkPrecedence, 'secondary');
+  assert.equal(secondary.linkedId, 1);
+});
+
+test('inserts nothing when a request only repeats known identifiers', async () => {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'lorraine@hillvalley.edu', phoneNumber: '123456' });
+  await identifyContact(store, { email: 'mcfly@hillvalley.edu', phoneNumber: '123456' });
+
+  await identifyContact(store, { email: 'mcfly@hillvalley.edu', phoneNumber: '123456' });
+  await identifyContact(store, { email: 'lorraine@hillvalley.edu' });
+  await identifyContact(store, { phoneNumber: '123456' });
+
+  assert.equal(store.all().length, 2);
+});
+
+test('collapses two primaries into the older one when a request links them', async () => {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'george@hillvalley.edu', phoneNumber: '919191' });
+  await identifyContact(store, { email: 'biffsucks@hillvalley.edu', phoneNumber: '717171' });
+
+  const { contact } = await identifyContact(store, { email: 'george@hillvalley.edu', phoneNumber: '717171' });
+
+  assert.equal(contact.primaryContactId, 1);
+  assert.deepEqual(contact.emails, ['george@hillvalley.edu', 'biffsucks@hillvalley.edu']);
+  assert.deepEqual(contact.secondaryContactIds, [2]);
+  // Both identifiers were already known, so no row is added
+  assert.equal(store.all().length, 2);
+
+  const demoted = store.all().find(c => c.id === 2)!;
+  assert.equal(demoted.linkPrecedence, 'secondary');
+  assert.equal(demoted.linkedId, 1);
+});
+
+test('moves the secondaries of a demoted primary to the surviving primary', async () => {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'a@example.com', phoneNumber: '111111' });
+  await identifyContact(store, { email: 'b@example.com', phoneNumber: '222222' });
+  await identifyContact(store, { email: 'c@example.com', phoneNumber: '222222' });
+
+  const { contact } = await identifyContact(store, { email: 'a@example.com', phoneNumber: '222222' });
+
+  assert.equal(contact.primaryContactId, 1);
+  assert.deepEqual(contact.secondaryContactIds, [2, 3]);
+  assert.ok(store.all().filter(c => c.id !== 1).every(c => c.linkPrecedence === 'secondary' && c.linkedId === 1));
+});
+
+test('rejects a request without any identifier and writes nothing', async () => {
+  const store = new InMemoryContactStore();
+  await assert.rejects(identifyContact(store, { email: null, phoneNumber: null }), { name: 'ValidationError' });
+  assert.equal(store.all().length, 0);
+});
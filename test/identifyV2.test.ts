@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildV2Response, identifyWithOutcome } from '../src/identify';
+import { InMemoryContactStore } from '../src/store/memoryContactStore';
+
+const identifyV2 = async (store: InMemoryContactStore, email: string | null, phoneNumber: string | null) =>
+  buildV2Response(await identifyWithOutcome(store, { email, phoneNumber }));
+
+test('reports a new customer as created', async () => {
+  const store = new InMemoryContactStore();
+
+  const response = await identifyV2(store, 'doc@hillvalley.edu', '121212');
+
+  assert.equal(response.outcome, 'created');
+  assert.equal(response.createdContactId, 1);
+  assert.deepEqual(response.matchedIdentifiers, []);
+  assert.deepEqual(response.contacts.map(c => [c.id, c.linkPrecedence]), [[1, 'primary']]);
+  assert.deepEqual(response.contacts[0].identifiers, { email: 'doc@hillvalley.edu', phoneNumber: '121212' });
+});
+
+test('reports a new identifier on a known cluster as extended', async () => {
+  const store = new InMemoryContactStore();
+  await identifyV2(store, 'doc@hillvalley.edu', '121212');
+
+  const response = await identifyV2(store, 'emmett@hillvalley.edu', '121212');
+
+  assert.equal(response.outcome, 'extended');
+  assert.equal(response.createdContactId, 2);
+  assert.deepEqual(response.matchedIdentifiers, [{ type: 'phoneNumber', value: '121212' }]);
+  assert.deepEqual(response.contacts.map(c => [c.id, c.linkPrecedence, c.linkedId]), [[1, 'primary', null], [2, 'secondary', 1]]);
+  assert.deepEqual(response.identifiers.email, ['doc@hillvalley.edu', 'emmett@hillvalley.edu']);
+});
+
+test('reports a request that only repeats known identifiers as matched', async () => {
+  const store = new InMemoryContactStore();
+  await identifyV2(store, 'doc@hillvalley.edu', '121212');
+
+  const response = await identifyV2(store, 'doc@hillvalley.edu', null);
+
+  assert.equal(response.outcome, 'matched');
+  assert.equal(response.createdContactId, null);
+  assert.deepEqual(response.demotedPrimaryContactIds, []);
+});
+
+test('reports a merge with the primaries it demoted', async () => {
+  const store = new InMemoryContactStore();
+  await identifyV2(store, 'george@hillvalley.edu', '919191');
+  await identifyV2(store, 'biff@hillvalley.edu', '717171');
+
+  const merged = await identifyV2(store, 'george@hillvalley.edu', '717171');
+  assert.equal(merged.outcome, 'merged');
+  assert.equal(merged.primaryContactId, 1);
+  assert.deepEqual(merged.demotedPrimaryContactIds, [2]);
+  assert.equal(merged.createdContactId, null);
+  assert.deepEqual(merged.contacts.map(c => [c.id, c.linkPrecedence]), [[1, 'primary'], [2, 'secondary']]);
+});
@@ -0,0 +1,87 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import { join } from 'path';
+import { importFile, ImportOptions } from '../src/importer';
+import { InMemoryContactStore } from '../src/store/memoryContactStore';
+
+const ROWS = [
+  'email,phoneNumber',
+  'doc@hillvalley.edu,121212',
+  'emmett@hillvalley.edu,121212',
+  ',',
+  'marty@hillvalley.edu,343434',
+  'doc@hillvalley.edu,343434'
+].join('\n');
+
+const dirs: string[] = [];
+after(() => dirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+function setup(dryRun: boolean): { path: string; options: ImportOptions } {
+  const dir = fs.mkdtempSync(join(os.tmpdir(), 'import-test-'));
+  dirs.push(dir);
+  const path = join(dir, 'orders.csv');
+  fs.writeFileSync(path, ROWS);
+  return {
+    path,
+    options: {
+      format: 'csv',
+      emailField: 'email',
+      phoneField: 'phoneNumber',
+      identifierFields: {},
+      dryRun,
+      chunkSize: 10,
+      checkpointPath: `${path}.checkpoint`,
+      rejectsPath: `${path}.rejects.ndjson`
+    }
+  };
+}
+
+test('imports a file through the identify rules and writes its rejects', async () => {
+  const { path, options } = setup(false);
+  const store = new InMemoryContactStore();
+
+  const stats = await importFile(store, path, options);
+
+  assert.deepEqual(stats, { read: 5, imported: 4, rejected: 1, primariesCreated: 2, secondariesCreated: 1, primariesMerged: 1 });
+  assert.equal(store.all().length, 3);
+  assert.match(fs.readFileSync(options.rejectsPath, 'utf8'), /"record":3/);
+  assert.equal(fs.existsSync(options.checkpointPath!), false);
+});
+
+test('a dry run counts the same changes, then writes nothing', async () => {
+  const { path, options } = setup(true);
+  const store = new InMemoryContactStore();
+
+  const stats = await importFile(store, path, options);
+
+  assert.deepEqual(stats, { read: 5, imported: 4, rejected: 1, primariesCreated: 2, secondariesCreated: 1, primariesMerged: 1 });
+  assert.equal(store.all().length, 0);
+  assert.equal(fs.existsSync(options.rejectsPath), false);
+  assert.equal(fs.existsSync(options.checkpointPath!), false);
+});
+
+test('a dry run leaves an existing rejects file and checkpoint alone', async () => {
+  const { path, options } = setup(true);
+  fs.writeFileSync(options.rejectsPath, 'kept\n');
+  fs.writeFileSync(options.checkpointPath!, 'kept');
+
+  await importFile(new InMemoryContactStore(), path, options);
+
+  assert.equal(fs.readFileSync(options.rejectsPath, 'utf8'), 'kept\n');
+  assert.equal(fs.readFileSync(options.checkpointPath!, 'utf8'), 'kept');
+});
+
+test('a dry run sees records from earlier chunks', async () => {
+  const dry = setup(true);
+  const real = setup(false);
+  const chunked = { chunkSize: 2 };
+
+  const preview = await importFile(new InMemoryContactStore(), dry.path, { ...dry.options, ...chunked });
+  const imported = await importFile(new InMemoryContactStore(), real.path, { ...real.options, ...chunked });
+
+  // doc@hillvalley.edu and 343434 reappear in the last chunk, linking both clusters
+  assert.deepEqual(preview, imported);
+  assert.equal(preview.primariesMerged, 1);
+});
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { redact, RedactionRules } from '../src/logger';
+
+const RULES: RedactionRules = { emails: 'mask', phones: 'mask', identifiers: 'mask', keys: ['authorization', 'token'] };
+
+test('removes fields named in the redaction keys, whatever their case', () => {
+  assert.deepEqual(
+    redact({ Authorization: 'Bearer bik_abc_secret', token: 42, path: '/identify' }, RULES),
+    { Authorization: '[redacted]', token: '[redacted]', path: '/identify' }
+  );
+});
+
+test('redacts identifier fields by name', () => {
+  assert.deepEqual(
+    redact({ email: 'doc@hillvalley.edu', phoneNumber: 919876543210, identifiers: { loyaltyId: 'HV-1955' } }, RULES),
+    { email: 'd***@hillvalley.edu', phoneNumber: '***3210', identifiers: { loyaltyId: 'HV***' } }
+  );
+});
+
+test('finds emails and phone numbers inside free text', () => {
+  assert.equal(
+    redact('Called +91 98765 43210 about doc@hillvalley.edu, order 1955', RULES),
+    'Called ***3210 about d***@hillvalley.edu, order 1955'
+  );
+});
+
+test('walks nested objects and arrays', () => {
+  const entry = {
+    request: { emails: ['doc@hillvalley.edu', 'marty@hillvalley.edu'], note: 'from emmett@hillvalley.edu' },
+    blocks: [{ first: { type: 'email', value: 'doc@hillvalley.edu' }, second: { type: 'loyaltyId', value: 'HV-1985' } }]
+  };
+
+  assert.deepEqual(redact(entry, RULES), {
+    request: { emails: ['d***@hillvalley.edu', 'm***@hillvalley.edu'], note: 'from e***@hillvalley.edu' },
+    blocks: [{ first: { type: 'email', value: 'd***@hillvalley.edu' }, second: { type: 'loyaltyId', value: 'HV***' } }]
+  });
+});
+
+test('keeps the name and code of an Error and redacts its message and stack', () => {
+  const error = Object.assign(new Error('No contact for doc@hillvalley.edu'), { code: 'not_found' });
+
+  const logged = redact({ error }, RULES) as { error: { name: string; message: string; code: string; stack: string } };
+
+  assert.equal(logged.error.name, 'Error');
+  assert.equal(logged.error.code, 'not_found');
+  assert.equal(logged.error.message, 'No contact for d***@hillvalley.edu');
+  assert.ok(!logged.error.stack.includes('doc@hillvalley.edu'));
+});
+
+test('hashes, removes or keeps values as the rules say', () => {
+  const hashed = redact({ email: 'doc@hillvalley.edu' }, { ...RULES, emails: 'hash' }) as { email: string };
+  assert.match(hashed.email, /^email:[0-9a-f]{12}$/);
+  assert.deepEqual(redact({ phoneNumber: '121212' }, { ...RULES, phones: 'remove' }), { phoneNumber: '[phone]' });
+  assert.deepEqual(redact({ email: 'doc@hillvalley.edu' }, { ...RULES, emails: 'off' }), { email: 'doc@hillvalley.edu' });
+});
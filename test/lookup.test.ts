@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { identifyContact } from '../src/identify';
+import { findClusterById, findClusterDetail, findClustersByIdentifiers } from '../src/lookup';
+import { InMemoryContactStore } from '../src/store/memoryContactStore';
+
+async function seed(): Promise<InMemoryContactStore> {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'doc@hillvalley.edu', phoneNumber: '121212' });
+  await identifyContact(store, { email: 'emmett@hillvalley.edu', phoneNumber: '121212' });
+  await identifyContact(store, { email: 'marty@hillvalley.edu', phoneNumber: '343434' });
+  return store;
+}
+
+test('resolves a cluster from any of its members', async () => {
+  const store = await seed();
+
+  const fromPrimary = await findClusterById(store, 1);
+  const fromSecondary = await findClusterById(store, 2);
+
+  assert.deepEqual(fromSecondary, fromPrimary);
+  assert.equal(fromPrimary!.contact.primaryContactId, 1);
+  assert.deepEqual(fromPrimary!.contact.secondaryContactIds, [2]);
+  assert.equal(await findClusterById(store, 99), null);
+});
+
+test('expands a cluster into its rows, oldest first', async () => {
+  const store = await seed();
+
+  const detail = await findClusterDetail(store, 2);
+
+  assert.deepEqual(detail!.contacts.map(c => c.id), [1, 2]);
+  assert.equal(await findClusterDetail(store, 99), null);
+});
+
+test('finds every cluster holding any of the identifiers without merging them', async () => {
+  const store = await seed();
+
+  const clusters = await findClustersByIdentifiers(store, { email: 'marty@hillvalley.edu', phoneNumber: '121212' });
+
+  assert.deepEqual(clusters.map(c => c.contact.primaryContactId), [1, 3]);
+  // A lookup never links the clusters it finds
+  assert.equal(store.all().find(c => c.id === 3)!.linkPrecedence, 'primary');
+  assert.deepEqual(await findClustersByIdentifiers(store, { email: 'nobody@hillvalley.edu', phoneNumber: null }), []);
+});
+
+test('rejects a lookup without any identifier', async () => {
+  const store = await seed();
+  await assert.rejects(findClustersByIdentifiers(store, { email: null, phoneNumber: null }), { name: 'ValidationError' });
+});
+
+test('lists contacts page by page with filters', async () => {
+  const store = await seed();
+
+  const firstPage = await store.listContacts({ limit: 2, offset: 0 });
+  const secondPage = await store.listContacts({ limit: 2, offset: 2 });
+  const secondaries = await store.listContacts({ linkPrecedence: 'secondary', limit: 50, offset: 0 });
+
+  assert.deepEqual(firstPage.contacts.map(c => c.id), [1, 2]);
+  assert.deepEqual(secondPage.contacts.map(c => c.id), [3]);
+  assert.equal(firstPage.total, 3);
+  assert.deepEqual(secondaries.contacts.map(c => c.id), [2]);
+  assert.equal(secondaries.total, 1);
+});
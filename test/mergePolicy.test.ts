@@ -0,0 +1,147 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { identifyContact, mergeClustersSharing } from '../src/identify';
+import { approveMergeProposal, blockMerge, rejectMergeProposal } from '../src/admin';
+import { InMemoryContactStore } from '../src/store/memoryContactStore';
+import { Contact } from '../src/types';
+import { withEnv } from './env';
+
+// Cluster 1 is older; cluster 2 (contacts 2 and 3) is larger and verified
+async function seed(): Promise<InMemoryContactStore> {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'george@hillvalley.edu', phoneNumber: '919191' });
+  await identifyContact(store, { email: 'biff@hillvalley.edu', phoneNumber: '717171', verified: ['email'] });
+  await identifyContact(store, { email: 'biff@hillvalley.edu', phoneNumber: '727272' });
+  return store;
+}
+
+const linkBoth = { email: 'george@hillvalley.edu', phoneNumber: '717171' };
+
+test('the oldest primary leads a merge by default', async () => {
+  const store = await seed();
+  await withEnv('MERGE_POLICY', undefined, async () => {
+    const { contact } = await identifyContact(store, linkBoth);
+    assert.equal(contact.primaryContactId, 1);
+    assert.deepEqual(contact.secondaryContactIds, [2, 3]);
+  });
+});
+
+test('the largest cluster leads with MERGE_POLICY=largest', async () => {
+  const store = await seed();
+  await withEnv('MERGE_POLICY', 'largest', async () => {
+    const { contact } = await identifyContact(store, linkBoth);
+    assert.equal(contact.primaryContactId, 2);
+    assert.deepEqual(contact.secondaryContactIds, [1, 3]);
+  });
+});
+
+test('the cluster with the most verified identifiers leads with MERGE_POLICY=verified', async () => {
+  const store = await seed();
+  await withEnv('MERGE_POLICY', 'verified', async () => {
+    const { contact } = await identifyContact(store, linkBoth);
+    assert.equal(contact.primaryContactId, 2);
+  });
+});
+
+test('an unknown merge policy is refused', async () => {
+  const store = await seed();
+  await withEnv('MERGE_POLICY', 'newest', async () => {
+    await assert.rejects(identifyContact(store, linkBoth), /MERGE_POLICY/);
+  });
+});
+
+test('review mode proposes the merge instead of making it', async () => {
+  const store = await seed();
+  await withEnv('MERGE_REVIEW', 'true', async () => {
+    const { contact } = await identifyContact(store, linkBoth);
+    // The request stays with the cluster of its first match
+    assert.equal(contact.primaryContactId, 1);
+    await identifyContact(store, linkBoth);
+  });
+
+  assert.ok(store.all().filter(c => c.id <= 2).every(c => c.linkPrecedence === 'primary'));
+  const proposals = await store.listMergeProposals('pending');
+  assert.equal(proposals.length, 1);
+  assert.deepEqual([...proposals[0].primaryContactIds].sort((a, b) => a - b), [1, 2]);
+});
+
+test('approving a proposal merges the clusters under the policy primary', async () => {
+  const store = await seed();
+  await withEnv('MERGE_REVIEW', 'true', () => identifyContact(store, linkBoth).then(() => undefined));
+  const [proposal] = await store.listMergeProposals('pending');
+
+  const { cluster } = await approveMergeProposal(store, proposal.id);
+
+  assert.equal(cluster!.contact.primaryContactId, 1);
+  assert.deepEqual(cluster!.contact.secondaryContactIds, [2, 3]);
+  await assert.rejects(approveMergeProposal(store, proposal.id), { name: 'ConflictError', code: 'proposal_resolved' });
+});
+
+test('a rejected proposal is not proposed again', async () => {
+  const store = await seed();
+  await withEnv('MERGE_REVIEW', 'true', async () => {
+    await identifyContact(store, linkBoth);
+    const [proposal] = await store.listMergeProposals('pending');
+    await rejectMergeProposal(store, proposal.id);
+
+    await identifyContact(store, linkBoth);
+  });
+
+  assert.equal((await store.listMergeProposals('pending')).length, 0);
+  assert.equal((await store.listMergeProposals('rejected')).length, 1);
+});
+
+// Two primaries sharing a value, as the backfill finds them after re-canonicalizing
+function colliding(identifier: Partial<Contact>): InMemoryContactStore {
+  const row = (id: number, email: string): Contact => ({
+    id,
+    tenantId: 'default',
+    phoneNumber: null,
+    email,
+    rawPhoneNumber: null,
+    rawEmail: email,
+    identifiers: {},
+    rawIdentifiers: {},
+    linkedId: null,
+    linkPrecedence: 'primary',
+    createdAt: new Date(id * 1000),
+    updatedAt: new Date(id * 1000),
+    deletedAt: null,
+    ...identifier
+  });
+  return new InMemoryContactStore([row(1, 'george@hillvalley.edu'), row(2, 'biff@hillvalley.edu')]);
+}
+
+const shared = { type: 'loyaltyId', value: 'HV-1955' };
+const sharingLoyaltyId = () => colliding({ identifiers: { loyaltyId: 'HV-1955' }, rawIdentifiers: { loyaltyId: 'HV-1955' } });
+
+test('clusters sharing a custom identifier merge under the policy primary', async () => {
+  const store = sharingLoyaltyId();
+  await withEnv('IDENTIFIER_TYPES', 'loyaltyId', async () => {
+    const result = await store.transaction(tx => mergeClustersSharing(tx, shared, { source: 'backfill' }));
+    assert.deepEqual(result, { mergedPrimaryContactIds: [2], proposed: false });
+  });
+
+  assert.deepEqual(store.all().map(c => [c.id, c.linkPrecedence, c.linkedId]), [[1, 'primary', null], [2, 'secondary', 1]]);
+});
+
+test('a merge block keeps clusters sharing an identifier apart', async () => {
+  const store = sharingLoyaltyId();
+  await blockMerge(store, { type: 'email', value: 'george@hillvalley.edu' }, { type: 'email', value: 'biff@hillvalley.edu' });
+
+  const result = await store.transaction(tx => mergeClustersSharing(tx, shared, { source: 'backfill' }));
+
+  assert.deepEqual(result, { mergedPrimaryContactIds: [], proposed: false });
+  assert.ok(store.all().every(c => c.linkPrecedence === 'primary'));
+});
+
+test('review mode proposes merging clusters that share an identifier', async () => {
+  const store = colliding({ phoneNumber: '919191', rawPhoneNumber: '919191' });
+  await withEnv('MERGE_REVIEW', 'true', async () => {
+    const result = await store.transaction(tx => mergeClustersSharing(tx, { type: 'phoneNumber', value: '919191' }, { source: 'backfill' }));
+    assert.deepEqual(result, { mergedPrimaryContactIds: [], proposed: true });
+  });
+
+  assert.ok(store.all().every(c => c.linkPrecedence === 'primary'));
+  assert.equal((await store.listMergeProposals('pending')).length, 1);
+});
@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Pool } from 'pg';
+import { Migrator } from '../src/migrator';
+import { Migration } from '../src/migrations';
+
+// Just enough of a pg Pool for the Migrator: it keeps schema_migrations in
+// memory and records every other statement it is sent, in order
+class FakePool {
+  readonly applied = new Map<number, { name: string; appliedAt: Date }>();
+  readonly statements: string[] = [];
+  private pending: Array<() => void> = [];
+
+  async connect() {
+    return { query: (sql: string, params: unknown[] = []) => this.query(sql, params), release: () => undefined };
+  }
+
+  private async query(sql: string, params: unknown[]) {
+    const statement = sql.trim();
+    if (statement.startsWith('CREATE TABLE IF NOT EXISTS schema_migrations') || statement.includes('pg_advisory')) {
+      return { rows: [] };
+    }
+    if (statement.startsWith('SELECT version')) {
+      return { rows: Array.from(this.applied, ([version, row]) => ({ version, appliedAt: row.appliedAt })) };
+    }
+    if (statement === 'BEGIN') {
+      this.pending = [];
+    } else if (statement === 'COMMIT') {
+      this.pending.forEach(change => change());
+    } else if (statement.startsWith('INSERT INTO schema_migrations')) {
+      this.pending.push(() => this.applied.set(params[0] as number, { name: params[1] as string, appliedAt: new Date() }));
+    } else if (statement.startsWith('DELETE FROM schema_migrations')) {
+      this.pending.push(() => this.applied.delete(params[0] as number));
+    } else if (statement !== 'ROLLBACK') {
+      if (statement.includes('FAIL')) {
+        throw new Error(`Cannot run ${statement}`);
+      }
+      this.statements.push(statement);
+    }
+    return { rows: [] };
+  }
+}
+
+const migration = (version: number, name: string): Migration =>
+  ({ version, name, up: `up ${version}`, down: `down ${version}` });
+
+const MIGRATIONS = [migration(1, 'contacts'), migration(2, 'events'), migration(5, 'webhooks')];
+
+const migratorFor = (pool: FakePool, migrations = MIGRATIONS) => new Migrator(pool as unknown as Pool, migrations);
+
+test('applies pending migrations in version order', async () => {
+  const pool = new FakePool();
+
+  const applied = await migratorFor(pool).migrate();
+
+  assert.deepEqual(applied.map(m => m.version), [1, 2, 5]);
+  assert.deepEqual(pool.statements, ['up 1', 'up 2', 'up 5']);
+  assert.deepEqual(Array.from(pool.applied.keys()), [1, 2, 5]);
+  assert.deepEqual(await migratorFor(pool).migrate(), []);
+});
+
+test('applies up to a target version', async () => {
+  const pool = new FakePool();
+
+  await migratorFor(pool).migrate(2);
+
+  assert.deepEqual(pool.statements, ['up 1', 'up 2']);
+});
+
+test('reports the versions not yet applied', async () => {
+  const pool = new FakePool();
+  const migrator = migratorFor(pool);
+  assert.deepEqual((await migrator.pending()).map(m => m.version), [1, 2, 5]);
+
+  await migrator.migrate(1);
+
+  assert.deepEqual((await migrator.pending()).map(m => m.version), [2, 5]);
+  const status = await migrator.status();
+  assert.ok(status[0].appliedAt instanceof Date);
+  assert.equal(status[1].appliedAt, null);
+});
+
+test('rolls back the newest migrations with their down scripts', async () => {
+  const pool = new FakePool();
+  const migrator = migratorFor(pool);
+  await migrator.migrate();
+
+  const reverted = await migrator.rollback(2);
+
+  assert.deepEqual(reverted.map(m => m.version), [5, 2]);
+  assert.deepEqual(pool.statements.slice(3), ['down 5', 'down 2']);
+  assert.deepEqual(Array.from(pool.applied.keys()), [1]);
+  assert.deepEqual((await migrator.pending()).map(m => m.version), [2, 5]);
+});
+
+test('leaves a failed migration unrecorded', async () => {
+  const pool = new FakePool();
+  const failing = [migration(1, 'contacts'), { ...migration(2, 'broken'), up: 'FAIL' }];
+
+  await assert.rejects(migratorFor(pool, failing).migrate(), /Cannot run FAIL/);
+
+  assert.deepEqual(Array.from(pool.applied.keys()), [1]);
+  assert.deepEqual((await migratorFor(pool, failing).pending()).map(m => m.version), [2]);
+});
+
+test('refuses migrations out of version order', () => {
+  assert.throws(() => migratorFor(new FakePool(), [migration(2, 'b'), migration(1, 'a')]), /increasing versions/);
+});
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { identifyContact } from '../src/identify';
+import { normalizeEmail, normalizeOptionsFromEnv, normalizePhoneNumber } from '../src/normalize';
+import { InMemoryContactStore } from '../src/store/memoryContactStore';
+import { withEnv } from './env';
+
+test('trims and lowercases emails', () => {
+  assert.equal(normalizeEmail('  Doc.Brown@Example.COM '), 'doc.brown@example.com');
+  assert.equal(normalizeEmail('   '), null);
+});
+
+test('leaves provider rules off unless EMAIL_PROVIDER_RULES=true', async () => {
+  await withEnv('EMAIL_PROVIDER_RULES', undefined, () => {
+    assert.equal(normalizeOptionsFromEnv().providerRules, false);
+    assert.equal(normalizeEmail('Marty.McFly+orders@gmail.com'), 'marty.mcfly+orders@gmail.com');
+  });
+  await withEnv('EMAIL_PROVIDER_RULES', 'true', () => {
+    assert.equal(normalizeEmail('Marty.McFly+orders@googlemail.com'), 'martymcfly@gmail.com');
+    assert.equal(normalizeEmail('marty.mcfly+orders@outlook.com'), 'marty.mcfly@outlook.com');
+  });
+});
+
+test('parses phone numbers to E.164 in the default region', () => {
+  const options = { providerRules: false, defaultRegion: 'IN' as const };
+  assert.equal(normalizePhoneNumber('+91 98765-43210', options), '+919876543210');
+  assert.equal(normalizePhoneNumber('9876543210', options), '+919876543210');
+  assert.equal(normalizePhoneNumber(9876543210, options), '+919876543210');
+  // Unparseable numbers keep their digits
+  assert.equal(normalizePhoneNumber('(12) 34', options), '1234');
+});
+
+test('matches requests on canonical values and keeps the raw ones', async () => {
+  const store = new InMemoryContactStore();
+  await identifyContact(store, { email: 'Doc@Example.com', phoneNumber: '+91 98765-43210' });
+  const { contact } = await identifyContact(store, { email: 'doc@example.com', phoneNumber: '9876543210' });
+
+  assert.deepEqual(contact.emails, ['doc@example.com']);
+  assert.deepEqual(contact.phoneNumbers, ['+919876543210']);
+  assert.equal(store.all().length, 1);
+  assert.equal(store.all()[0].rawEmail, 'Doc@Example.com');
+});
+
+test('keeps Gmail aliases apart by default', async () => {
+  await withEnv('EMAIL_PROVIDER_RULES', undefined, async () => {
+    const store = new InMemoryContactStore();
+    await identifyContact(store, { email: 'marty.mcfly@gmail.com' });
+    const { contact } = await identifyContact(store, { email: 'martymcfly@gmail.com' });
+    assert.equal(contact.primaryContactId, 2);
+  });
+});
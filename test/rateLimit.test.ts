@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { authOptionsFromEnv, issueApiKey } from '../src/auth';
+import { TokenBucketLimiter } from '../src/rateLimit';
+import { InMemoryApiKeyStore } from '../src/store/memoryApiKeyStore';
+import { withEnv } from './env';
+
+test('allows a burst, then refills at the sustained rate', () => {
+  let now = 0;
+  const limiter = new TokenBucketLimiter(() => now);
+  const limit = { perMinute: 60, burst: 2 };
+
+  assert.equal(limiter.take('key', limit).allowed, true);
+  assert.equal(limiter.take('key', limit).allowed, true);
+  const refused = limiter.take('key', limit);
+  assert.equal(refused.allowed, false);
+  assert.equal(refused.retryAfterSeconds, 1);
+
+  now += 1000;
+  assert.equal(limiter.take('key', limit).allowed, true);
+});
+
+test('never sends an infinite Retry-After', () => {
+  const limiter = new TokenBucketLimiter(() => 0);
+  const result = limiter.take('key', { perMinute: 0, burst: 0 });
+
+  assert.equal(result.allowed, false);
+  assert.ok(Number.isFinite(result.retryAfterSeconds));
+});
+
+test('falls back to the default limits unless the environment gives positive integers', async () => {
+  await withEnv('RATE_LIMIT_PER_MINUTE', '0', () =>
+    withEnv('RATE_LIMIT_BURST', 'lots', () =>
+      assert.deepEqual(authOptionsFromEnv().defaultRateLimit, { perMinute: 600, burst: 100 })
+    )
+  );
+  await withEnv('RATE_LIMIT_PER_MINUTE', '30', () => assert.equal(authOptionsFromEnv().defaultRateLimit.perMinute, 30));
+});
+
+test('refuses to issue a key with a limit of zero or less', async () => {
+  const store = new InMemoryApiKeyStore();
+  for (const limits of [{ rateLimitPerMinute: 0 }, { rateLimitBurst: -1 }, { rateLimitPerMinute: 1.5 }]) {
+    await assert.rejects(issueApiKey(store, { name: 'checkout', scopes: ['identify:write'], ...limits }), { name: 'ValidationError' });
+  }
+
+  const { apiKey } = await issueApiKey(store, { name: 'checkout', scopes: ['identify:write'], rateLimitPerMinute: 30 });
+  assert.equal(apiKey.rateLimitPerMinute, 30);
+});
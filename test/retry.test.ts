@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_RETRY_OPTIONS, retryOptionsFromEnv, withRetry } from '../src/retry';
+import { withEnv } from './env';
+
+const conflict = () => Object.assign(new Error('could not serialize access'), { code: '40001' });
+
+test('retries a conflict until the attempts run out', async () => {
+  let calls = 0;
+
+  await assert.rejects(
+    withRetry(async () => { calls++; throw conflict(); }, { attempts: 3, baseDelayMs: 1, maxDelayMs: 1 }),
+    { code: '40001' }
+  );
+
+  assert.equal(calls, 3);
+});
+
+test('returns once a retry succeeds', async () => {
+  let calls = 0;
+
+  const result = await withRetry(async () => {
+    if (++calls < 2) throw conflict();
+    return 'done';
+  }, { attempts: 3, baseDelayMs: 1, maxDelayMs: 1 });
+
+  assert.equal(result, 'done');
+  assert.equal(calls, 2);
+});
+
+test('does not retry other errors', async () => {
+  let calls = 0;
+
+  await assert.rejects(withRetry(async () => { calls++; throw new Error('boom'); }), /boom/);
+
+  assert.equal(calls, 1);
+});
+
+test('falls back to the defaults unless the settings are positive integers', async () => {
+  await withEnv('IDENTIFY_MAX_ATTEMPTS', 'many', () =>
+    withEnv('IDENTIFY_RETRY_BASE_MS', '-5', () =>
+      withEnv('IDENTIFY_RETRY_MAX_MS', '2.5', () => {
+        assert.deepEqual(retryOptionsFromEnv(), DEFAULT_RETRY_OPTIONS);
+      })));
+  await withEnv('IDENTIFY_MAX_ATTEMPTS', '2', () => {
+    assert.equal(retryOptionsFromEnv().attempts, 2);
+  });
+});
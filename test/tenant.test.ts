@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { resolveTenant } from '../src/tenant';
+import { ApiKey, ApiScope } from '../src/types';
+
+function key(scopes: ApiScope[], tenantId: string | null): ApiKey {
+  return {
+    id: 1,
+    name: 'checkout',
+    prefix: 'abc',
+    keyHash: 'hash',
+    scopes,
+    tenantId,
+    rateLimitPerMinute: null,
+    rateLimitBurst: null,
+    createdAt: new Date(0),
+    lastUsedAt: null,
+    revokedAt: null
+  };
+}
+
+// Run resolveTenant for a request naming header as its tenant. Returns the
+// tenant it picked, or the status it refused the request with.
+function resolve(apiKey: ApiKey | undefined, header?: string): { tenantId?: string; status?: number } {
+  const result: { tenantId?: string; status?: number } = {};
+  const req = { headers: header === undefined ? {} : { 'x-tenant-id': header } } as unknown as Request;
+  const res = {
+    locals: { apiKey },
+    status(code: number) { result.status = code; return this; },
+    json() { return this; }
+  } as unknown as Response;
+
+  resolveTenant(req, res, () => { result.tenantId = res.locals.tenantId; });
+  return result;
+}
+
+test('a bound key always acts on its own tenant', () => {
+  assert.deepEqual(resolve(key(['identify:write'], 'brand-a')), { tenantId: 'brand-a' });
+  assert.deepEqual(resolve(key(['identify:write'], 'brand-a'), 'brand-a'), { tenantId: 'brand-a' });
+  assert.deepEqual(resolve(key(['admin'], 'brand-a'), 'brand-b'), { status: 403 });
+});
+
+test('an unbound identify:write key cannot reach another tenant', () => {
+  assert.deepEqual(resolve(key(['identify:write'], null), 'brand-b'), { status: 403 });
+  assert.deepEqual(resolve(key(['identify:write', 'contacts:read'], null), 'default'), { tenantId: 'default' });
+  assert.deepEqual(resolve(key(['identify:write'], null)), { tenantId: 'default' });
+});
+
+test('an unbound admin key picks the tenant with X-Tenant-Id', () => {
+  assert.deepEqual(resolve(key(['admin'], null), 'brand-b'), { tenantId: 'brand-b' });
+  assert.deepEqual(resolve(key(['admin'], null), 'Brand B'), { status: 400 });
+});
+
+test('without authentication the header picks the tenant', () => {
+  assert.deepEqual(resolve(undefined, 'brand-b'), { tenantId: 'brand-b' });
+});
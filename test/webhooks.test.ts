@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseSubscriberInput } from '../src/webhooks';
+
+test('fills in defaults when creating a subscriber', () => {
+  const input = parseSubscriberInput({ url: 'https://example.com/hook' }, false);
+
+  assert.equal(input.url, 'https://example.com/hook');
+  assert.deepEqual(input.eventTypes, []);
+  assert.equal(input.active, true);
+  assert.match(input.secret, /^whsec_/);
+});
+
+test('keeps only the given fields when updating a subscriber', () => {
+  const input = parseSubscriberInput({ eventTypes: ['contact.merged', 'contact.merged'] }, true);
+  assert.deepEqual(input, { eventTypes: ['contact.merged'] });
+});
+
+test('rejects malformed subscriber bodies', () => {
+  const rejected = [
+    null,
+    'https://example.com/hook',
+    { url: 42 },
+    { url: 'ftp://example.com/hook' },
+    { url: 'https://example.com/hook', eventTypes: ['contact.deleted'] },
+    { url: 'https://example.com/hook', eventTypes: 'contact.merged' },
+    { url: 'https://example.com/hook', secret: 'short' },
+    { url: 'https://example.com/hook', active: 'yes' }
+  ];
+  for (const body of rejected) {
+    assert.throws(() => parseSubscriberInput(body, false), { name: 'ValidationError' }, JSON.stringify(body));
+  }
+});